@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { collection, doc, getDocs, query, updateDoc, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { LibraryEmailMatch, matchLibraryEmail } from '@/lib/accountApproval';
+import type { Library } from '@/types/library';
+import type { ApprovalStatus, UserProfile } from '@/types/user';
+
+interface ApprovalsTabProps {
+  libraries: Library[];
+  currentUserId: string;
+  onPendingCountChange: (count: number) => void;
+}
+
+const MATCH_LABELS: Record<LibraryEmailMatch, { label: string; color: string }> = {
+  address: { label: 'Matches library email', color: 'bg-green-100 text-green-800' },
+  domain: { label: 'Matches library domain', color: 'bg-green-100 text-green-800' },
+  none: { label: 'Does not match library email', color: 'bg-yellow-100 text-yellow-800' },
+  unknown: { label: 'No library email on file', color: 'bg-gray-100 text-gray-800' }
+};
+
+const ApprovalsTab: React.FC<ApprovalsTabProps> = ({ libraries, currentUserId, onPendingCountChange }) => {
+  const [pendingUsers, setPendingUsers] = useState<UserProfile[]>([]);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchPendingUsers = async () => {
+      try {
+        setLoading(true);
+        const pendingSnapshot = await getDocs(
+          query(collection(db, 'users'), where('approvalStatus', '==', 'pending'))
+        );
+        setPendingUsers(pendingSnapshot.docs.map(userDoc => ({
+          id: userDoc.id,
+          ...userDoc.data()
+        } as UserProfile)));
+        setLoading(false);
+      } catch (err: any) {
+        console.error('Error fetching pending users:', err);
+        setError(err.message || 'Failed to load pending users');
+        setLoading(false);
+      }
+    };
+
+    fetchPendingUsers();
+  }, []);
+
+  useEffect(() => {
+    onPendingCountChange(pendingUsers.length);
+  }, [pendingUsers.length, onPendingCountChange]);
+
+  const decide = async (pendingUser: UserProfile, approvalStatus: ApprovalStatus) => {
+    try {
+      setSavingId(pendingUser.id);
+      setError('');
+      await updateDoc(doc(db, 'users', pendingUser.id), {
+        approvalStatus,
+        libraryId: pendingUser.libraryId,
+        libraryIds: pendingUser.libraryId ? [pendingUser.libraryId] : [],
+        reviewedBy: currentUserId,
+        reviewedAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      });
+      setPendingUsers(prev => prev.filter(entry => entry.id !== pendingUser.id));
+    } catch (err: any) {
+      console.error('Error updating approval:', err);
+      setError(err.message || 'Failed to update approval');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const librariesById = new Map(libraries.map(library => [library.id, library]));
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card overflow-x-auto">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative mb-6">
+          {error}
+        </div>
+      )}
+      {pendingUsers.length === 0 ? (
+        <p className="text-gray-600">No accounts are waiting for approval.</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead>
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Name</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Email</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Library</th>
+              <th className="px-4 py-2 text-right font-medium text-gray-500">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {pendingUsers.map(pendingUser => {
+              const library = librariesById.get(pendingUser.libraryId);
+              const match = MATCH_LABELS[matchLibraryEmail(pendingUser.email, library?.email)];
+
+              return (
+                <tr key={pendingUser.id}>
+                  <td className="px-4 py-2">{pendingUser.firstName} {pendingUser.lastName}</td>
+                  <td className="px-4 py-2">
+                    {pendingUser.email}
+                    <span
+                      className={`block mt-1 w-max px-2.5 py-0.5 rounded-full text-xs font-medium ${match.color}`}
+                      title={library?.email ? `Library email: ${library.email}` : undefined}
+                    >
+                      {match.label}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2">
+                    {/* The admin can correct the library before approving */}
+                    <select
+                      className="form-input"
+                      value={pendingUser.libraryId || ''}
+                      disabled={savingId === pendingUser.id}
+                      onChange={(e) => setPendingUsers(prev => prev.map(entry => (
+                        entry.id === pendingUser.id ? { ...entry, libraryId: e.target.value } : entry
+                      )))}
+                    >
+                      <option value="">No library</option>
+                      {libraries.map(option => (
+                        <option key={option.id} value={option.id}>{option.name}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-2 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => decide(pendingUser, 'approved')}
+                      disabled={savingId === pendingUser.id || !pendingUser.libraryId}
+                      className="btn btn-primary mr-2"
+                    >
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => decide(pendingUser, 'rejected')}
+                      disabled={savingId === pendingUser.id}
+                      className="btn btn-secondary"
+                    >
+                      Reject
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default ApprovalsTab;
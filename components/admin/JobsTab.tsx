@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { User } from 'firebase/auth';
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { requestReportProcessing, resetProcessingJob } from '@/lib/processingApi';
+import type { Library } from '@/types/library';
+import type { JobStatus, ProcessingJob } from '@/types/job';
+
+interface JobsTabProps {
+  user: User;
+  libraries: Library[];
+}
+
+const STATUS_FILTERS: (JobStatus | 'all')[] = ['failed', 'running', 'queued', 'succeeded', 'all'];
+
+const STATUS_COLORS: Record<JobStatus, string> = {
+  queued: 'bg-gray-100 text-gray-800',
+  running: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+const JobsTab: React.FC<JobsTabProps> = ({ user, libraries }) => {
+  const [jobs, setJobs] = useState<ProcessingJob[]>([]);
+  const [statusFilter, setStatusFilter] = useState<JobStatus | 'all'>('failed');
+  const [actingId, setActingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchJobs = async () => {
+      try {
+        setLoading(true);
+        const jobsSnapshot = await getDocs(collection(db, 'processingJobs'));
+        const jobsList = jobsSnapshot.docs.map(jobDoc => ({
+          id: jobDoc.id,
+          ...jobDoc.data()
+        } as ProcessingJob));
+        jobsList.sort((a, b) => (b.updatedAt?.seconds || 0) - (a.updatedAt?.seconds || 0));
+        setJobs(jobsList);
+        setLoading(false);
+      } catch (err: any) {
+        console.error('Error fetching processing jobs:', err);
+        setError(err.message || 'Failed to load processing jobs');
+        setLoading(false);
+      }
+    };
+
+    fetchJobs();
+  }, []);
+
+  // Re-run queues a fresh job for a finished one; reset also recovers jobs stuck with a worker
+  const handleAction = async (job: ProcessingJob, action: 'rerun' | 'reset') => {
+    try {
+      setActingId(job.id);
+      setError('');
+      if (action === 'rerun') {
+        await requestReportProcessing(user, job.reportId);
+      } else {
+        await resetProcessingJob(user, job.id);
+      }
+      setJobs(prev => prev.map(entry => (
+        entry.id === job.id ? { ...entry, status: 'queued', attempts: 0, lastError: null } : entry
+      )));
+    } catch (err: any) {
+      console.error('Error requeueing processing job:', err);
+      setError(err.message || 'Failed to requeue processing job');
+    } finally {
+      setActingId(null);
+    }
+  };
+
+  const libraryNames = new Map(libraries.map(library => [library.id, library.name]));
+  const countFor = (status: JobStatus | 'all') =>
+    status === 'all' ? jobs.length : jobs.filter(job => job.status === status).length;
+  const filteredJobs = jobs.filter(job => statusFilter === 'all' || job.status === statusFilter);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card overflow-x-auto">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative mb-6">
+          {error}
+        </div>
+      )}
+      <div className="flex flex-wrap gap-2 mb-4 text-sm">
+        {STATUS_FILTERS.map(status => (
+          <button
+            key={status}
+            onClick={() => setStatusFilter(status)}
+            className={`btn capitalize ${statusFilter === status ? 'btn-primary' : 'btn-secondary'}`}
+          >
+            {status} ({countFor(status)})
+          </button>
+        ))}
+      </div>
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead>
+          <tr>
+            <th className="px-4 py-2 text-left font-medium text-gray-500">Report</th>
+            <th className="px-4 py-2 text-left font-medium text-gray-500">Status</th>
+            <th className="px-4 py-2 text-right font-medium text-gray-500">Attempts</th>
+            <th className="px-4 py-2 text-left font-medium text-gray-500">Last Error</th>
+            <th className="px-4 py-2 text-left font-medium text-gray-500">Updated</th>
+            <th className="px-4 py-2 text-right font-medium text-gray-500">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {filteredJobs.map(job => (
+            <tr key={job.id}>
+              <td className="px-4 py-2">
+                <Link href={`/reports/${job.reportId}`} className="text-primary-600 hover:text-primary-700">
+                  {libraryNames.get(job.libraryId) || 'Unknown Library'}
+                </Link>
+              </td>
+              <td className="px-4 py-2">
+                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_COLORS[job.status]}`}>
+                  {job.status}
+                </span>
+              </td>
+              <td className="px-4 py-2 text-right">{job.attempts} of {job.maxAttempts}</td>
+              <td className="px-4 py-2 text-red-700 max-w-xs truncate" title={job.lastError || undefined}>
+                {job.lastError || '–'}
+              </td>
+              <td className="px-4 py-2">
+                {job.updatedAt ? new Date(job.updatedAt.seconds * 1000).toLocaleString() : 'N/A'}
+              </td>
+              <td className="px-4 py-2 text-right whitespace-nowrap">
+                {job.status !== 'succeeded' && (
+                  <>
+                    {job.status === 'failed' && (
+                      <button
+                        onClick={() => handleAction(job, 'rerun')}
+                        disabled={actingId === job.id}
+                        className="text-primary-600 hover:text-primary-700 mr-4"
+                      >
+                        Re-run
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleAction(job, 'reset')}
+                      disabled={actingId === job.id}
+                      className="text-primary-600 hover:text-primary-700"
+                    >
+                      Reset
+                    </button>
+                  </>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {filteredJobs.length === 0 && (
+        <p className="text-gray-600 mt-4">No {statusFilter === 'all' ? '' : `${statusFilter} `}jobs.</p>
+      )}
+    </div>
+  );
+};
+
+export default JobsTab;
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { doc, updateDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import type { Library, LibraryFields } from '@/types/library';
+
+interface LibrariesTabProps {
+  libraries: Library[];
+  onLibraryUpdated: (library: Library) => void;
+}
+
+const LIBRARY_FIELDS: { key: keyof LibraryFields; label: string; type: string }[] = [
+  { key: 'name', label: 'Name', type: 'text' },
+  { key: 'address', label: 'Address', type: 'text' },
+  { key: 'city', label: 'City', type: 'text' },
+  { key: 'zipcode', label: 'Zip Code', type: 'text' },
+  { key: 'county', label: 'County', type: 'text' },
+  { key: 'phone', label: 'Phone', type: 'tel' },
+  { key: 'website', label: 'Website', type: 'url' },
+  { key: 'email', label: 'Email', type: 'email' }
+];
+
+const LibrariesTab: React.FC<LibrariesTabProps> = ({ libraries, onLibraryUpdated }) => {
+  const [search, setSearch] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<LibraryFields | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const startEditing = (library: Library) => {
+    setEditingId(library.id);
+    setForm({
+      name: library.name || '',
+      address: library.address || '',
+      city: library.city || '',
+      zipcode: library.zipcode || '',
+      county: library.county || '',
+      phone: library.phone || '',
+      website: library.website || '',
+      email: library.email || ''
+    });
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId || !form) return;
+
+    if (!form.name.trim()) {
+      setError('Library name is required');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError('');
+      const updatedAt = new Date().toISOString();
+      await updateDoc(doc(db, 'libraries', editingId), { ...form, updatedAt });
+
+      const library = libraries.find(entry => entry.id === editingId)!;
+      onLibraryUpdated({ ...library, ...form, updatedAt });
+      setEditingId(null);
+      setForm(null);
+    } catch (err: any) {
+      console.error('Error updating library:', err);
+      setError(err.message || 'Failed to update library');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const term = search.trim().toLowerCase();
+  const filteredLibraries = libraries.filter(library =>
+    !term ||
+    (library.name || '').toLowerCase().includes(term) ||
+    (library.city || '').toLowerCase().includes(term) ||
+    (library.county || '').toLowerCase().includes(term)
+  );
+
+  return (
+    <div className="card overflow-x-auto">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative mb-6">
+          {error}
+        </div>
+      )}
+
+      {editingId && form ? (
+        <form onSubmit={handleSubmit}>
+          <h2 className="text-xl font-semibold mb-4">Edit Library</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            {LIBRARY_FIELDS.map(field => (
+              <div key={field.key}>
+                <label htmlFor={field.key} className="form-label">{field.label}</label>
+                <input
+                  id={field.key}
+                  type={field.type}
+                  className="form-input"
+                  value={form[field.key]}
+                  onChange={(e) => setForm({ ...form, [field.key]: e.target.value })}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={() => {
+                setEditingId(null);
+                setForm(null);
+              }}
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button type="submit" className="btn btn-primary" disabled={saving}>
+              {saving ? 'Saving...' : 'Save Library'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <>
+          <input
+            type="search"
+            className="form-input mb-4"
+            placeholder="Search by name, city or county"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Name</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">City</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">County</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Contact</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {filteredLibraries.map(library => (
+                <tr key={library.id}>
+                  <td className="px-4 py-2 font-medium">{library.name}</td>
+                  <td className="px-4 py-2">{library.city}</td>
+                  <td className="px-4 py-2">{library.county || '–'}</td>
+                  <td className="px-4 py-2">{library.email || library.phone || '–'}</td>
+                  <td className="px-4 py-2 text-right">
+                    <button
+                      onClick={() => startEditing(library)}
+                      className="text-primary-600 hover:text-primary-700"
+                    >
+                      Edit
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {filteredLibraries.length === 0 && (
+            <p className="text-gray-600 mt-4">No libraries match your search.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LibrariesTab;
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { User } from 'firebase/auth';
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { requestReportProcessing } from '@/lib/processingApi';
+import type { Library } from '@/types/library';
+
+interface ReportsTabProps {
+  user: User;
+  libraries: Library[];
+}
+
+type ReportStatus = 'Processing' | 'Review' | 'Completed' | 'Failed';
+
+interface AdminReport {
+  id: string;
+  libraryId: string;
+  year: number;
+  title: string;
+  status: ReportStatus;
+  errorMessage?: string | null;
+  createdAt: any;
+}
+
+const STATUS_FILTERS: (ReportStatus | 'All')[] = ['All', 'Processing', 'Review', 'Completed', 'Failed'];
+
+const STATUS_COLORS: Record<ReportStatus, string> = {
+  Processing: 'bg-yellow-100 text-yellow-800',
+  Review: 'bg-blue-100 text-blue-800',
+  Completed: 'bg-green-100 text-green-800',
+  Failed: 'bg-red-100 text-red-800'
+};
+
+const ReportsTab: React.FC<ReportsTabProps> = ({ user, libraries }) => {
+  const [reports, setReports] = useState<AdminReport[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ReportStatus | 'All'>('All');
+  const [rerunningId, setRerunningId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchReports = async () => {
+      try {
+        setLoading(true);
+        const reportsSnapshot = await getDocs(collection(db, 'reports'));
+        const reportsList = reportsSnapshot.docs.map(reportDoc => ({
+          id: reportDoc.id,
+          ...reportDoc.data()
+        } as AdminReport));
+        reportsList.sort((a, b) => (b.createdAt?.seconds || 0) - (a.createdAt?.seconds || 0));
+        setReports(reportsList);
+        setLoading(false);
+      } catch (err: any) {
+        console.error('Error fetching reports:', err);
+        setError(err.message || 'Failed to load reports');
+        setLoading(false);
+      }
+    };
+
+    fetchReports();
+  }, []);
+
+  const handleRerun = async (reportId: string) => {
+    try {
+      setRerunningId(reportId);
+      setError('');
+      await requestReportProcessing(user, reportId);
+      setReports(prev => prev.map(report => (report.id === reportId ? { ...report, status: 'Processing' } : report)));
+    } catch (err: any) {
+      console.error('Error re-running report:', err);
+      setError(err.message || 'Failed to re-run report');
+    } finally {
+      setRerunningId(null);
+    }
+  };
+
+  const libraryNames = new Map(libraries.map(library => [library.id, library.name]));
+  const countFor = (status: ReportStatus | 'All') =>
+    status === 'All' ? reports.length : reports.filter(report => report.status === status).length;
+  const filteredReports = reports.filter(report => statusFilter === 'All' || report.status === statusFilter);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card overflow-x-auto">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative mb-6">
+          {error}
+        </div>
+      )}
+      <div className="flex flex-wrap gap-2 mb-4 text-sm">
+        {STATUS_FILTERS.map(status => (
+          <button
+            key={status}
+            onClick={() => setStatusFilter(status)}
+            className={`btn ${statusFilter === status ? 'btn-primary' : 'btn-secondary'}`}
+          >
+            {status} ({countFor(status)})
+          </button>
+        ))}
+      </div>
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead>
+          <tr>
+            <th className="px-4 py-2 text-left font-medium text-gray-500">Library</th>
+            <th className="px-4 py-2 text-left font-medium text-gray-500">Year</th>
+            <th className="px-4 py-2 text-left font-medium text-gray-500">Title</th>
+            <th className="px-4 py-2 text-left font-medium text-gray-500">Status</th>
+            <th className="px-4 py-2 text-left font-medium text-gray-500">Uploaded</th>
+            <th className="px-4 py-2 text-right font-medium text-gray-500">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {filteredReports.map(report => (
+            <tr key={report.id}>
+              <td className="px-4 py-2">{libraryNames.get(report.libraryId) || 'Unknown Library'}</td>
+              <td className="px-4 py-2">{report.year}</td>
+              <td className="px-4 py-2">{report.title}</td>
+              <td className="px-4 py-2">
+                <span
+                  className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_COLORS[report.status] || 'bg-gray-100 text-gray-800'}`}
+                  title={report.errorMessage || undefined}
+                >
+                  {report.status}
+                </span>
+              </td>
+              <td className="px-4 py-2">
+                {report.createdAt ? new Date(report.createdAt.seconds * 1000).toLocaleDateString() : 'N/A'}
+              </td>
+              <td className="px-4 py-2 text-right whitespace-nowrap">
+                {report.status === 'Failed' && (
+                  <button
+                    onClick={() => handleRerun(report.id)}
+                    disabled={rerunningId === report.id}
+                    className="text-primary-600 hover:text-primary-700 mr-4"
+                  >
+                    {rerunningId === report.id ? 'Queueing...' : 'Re-run'}
+                  </button>
+                )}
+                <Link href={`/reports/${report.id}`} className="text-primary-600 hover:text-primary-700">
+                  View
+                </Link>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {filteredReports.length === 0 && (
+        <p className="text-gray-600 mt-4">No reports with this status.</p>
+      )}
+    </div>
+  );
+};
+
+export default ReportsTab;
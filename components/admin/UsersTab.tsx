@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { collection, doc, getDocs, updateDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { isApproved } from '@/lib/accountApproval';
+import { getLibraryIds, ROLES } from '@/lib/roles';
+import type { Library } from '@/types/library';
+import type { UserProfile } from '@/types/user';
+
+interface UsersTabProps {
+  libraries: Library[];
+  currentUserId: string;
+}
+
+const UsersTab: React.FC<UsersTabProps> = ({ libraries, currentUserId }) => {
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [search, setSearch] = useState('');
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchUsers = async () => {
+      try {
+        setLoading(true);
+        const usersSnapshot = await getDocs(collection(db, 'users'));
+        const usersList = usersSnapshot.docs.map(userDoc => ({
+          id: userDoc.id,
+          ...userDoc.data()
+        } as UserProfile));
+        usersList.sort((a, b) => (a.email || '').localeCompare(b.email || ''));
+        setUsers(usersList);
+        setLoading(false);
+      } catch (err: any) {
+        console.error('Error fetching users:', err);
+        setError(err.message || 'Failed to load users');
+        setLoading(false);
+      }
+    };
+
+    fetchUsers();
+  }, []);
+
+  const updateUser = async (
+    userId: string,
+    changes: Partial<Pick<UserProfile, 'role' | 'libraryId' | 'libraryIds'>>
+  ) => {
+    try {
+      setSavingId(userId);
+      setError('');
+      await updateDoc(doc(db, 'users', userId), changes);
+      setUsers(prev => prev.map(entry => (entry.id === userId ? { ...entry, ...changes } : entry)));
+    } catch (err: any) {
+      console.error('Error updating user:', err);
+      setError(err.message || 'Failed to update user');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  // libraryId stays in step with the first of libraryIds for code that only knows one library
+  const updateLibraries = (userId: string, libraryIds: string[]) =>
+    updateUser(userId, { libraryIds, libraryId: libraryIds[0] || '' });
+
+  const libraryNames = new Map(libraries.map(library => [library.id, library.name]));
+  const term = search.trim().toLowerCase();
+  const filteredUsers = users.filter(entry =>
+    !term ||
+    `${entry.firstName} ${entry.lastName}`.toLowerCase().includes(term) ||
+    (entry.email || '').toLowerCase().includes(term)
+  );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card overflow-x-auto">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative mb-6">
+          {error}
+        </div>
+      )}
+      <input
+        type="search"
+        className="form-input mb-4"
+        placeholder="Search by name or email"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+      />
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead>
+          <tr>
+            <th className="px-4 py-2 text-left font-medium text-gray-500">Name</th>
+            <th className="px-4 py-2 text-left font-medium text-gray-500">Email</th>
+            <th className="px-4 py-2 text-left font-medium text-gray-500">Role</th>
+            <th className="px-4 py-2 text-left font-medium text-gray-500">Libraries</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {filteredUsers.map(entry => (
+            <tr key={entry.id}>
+              <td className="px-4 py-2">
+                {entry.firstName} {entry.lastName}
+                {!isApproved(entry) && (
+                  <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800 capitalize">
+                    {entry.approvalStatus}
+                  </span>
+                )}
+              </td>
+              <td className="px-4 py-2">{entry.email}</td>
+              <td className="px-4 py-2">
+                {/* Admins cannot demote themselves, so the console always has someone to run it */}
+                <select
+                  className="form-input"
+                  value={entry.role}
+                  disabled={savingId === entry.id || entry.id === currentUserId}
+                  onChange={(e) => updateUser(entry.id, { role: e.target.value as UserProfile['role'] })}
+                >
+                  {ROLES.map(option => (
+                    <option key={option.role} value={option.role} title={option.description}>{option.label}</option>
+                  ))}
+                </select>
+              </td>
+              <td className="px-4 py-2">
+                <div className="flex flex-wrap gap-1 mb-2">
+                  {getLibraryIds(entry).map(libraryId => (
+                    <span
+                      key={libraryId}
+                      className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800"
+                    >
+                      {libraryNames.get(libraryId) || 'Unknown Library'}
+                      <button
+                        onClick={() => updateLibraries(entry.id, getLibraryIds(entry).filter(id => id !== libraryId))}
+                        disabled={savingId === entry.id}
+                        className="ml-1 text-gray-500 hover:text-gray-700"
+                        aria-label={`Remove ${libraryNames.get(libraryId) || 'library'}`}
+                      >
+                        &times;
+                      </button>
+                    </span>
+                  ))}
+                </div>
+                <select
+                  className="form-input"
+                  value=""
+                  disabled={savingId === entry.id}
+                  onChange={(e) => updateLibraries(entry.id, [...getLibraryIds(entry), e.target.value])}
+                >
+                  <option value="">Add a library...</option>
+                  {libraries
+                    .filter(library => !getLibraryIds(entry).includes(library.id))
+                    .map(library => (
+                      <option key={library.id} value={library.id}>{library.name}</option>
+                    ))}
+                </select>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {filteredUsers.length === 0 && (
+        <p className="text-gray-600 mt-4">No users match your search.</p>
+      )}
+    </div>
+  );
+};
+
+export default UsersTab;
@@ -9,59 +9,74 @@ import {
 } from 'firebase/auth';
 import { doc, getDoc } from 'firebase/firestore';
 import { auth, db } from '@/lib/firebase';
+import { getLibraryIds } from '@/lib/roles';
+import type { UserProfile } from '@/types/user';
 
 interface AuthContextType {
   user: User | null;
   userProfile: UserProfile | null;
+  // The library the user is working in; uploads and report lists are scoped to it
+  activeLibraryId: string | null;
+  setActiveLibraryId: (libraryId: string) => void;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<void>;
   signUp: (email: string, password: string, libraryId: string) => Promise<void>;
   signOut: () => Promise<void>;
   resetPassword: (email: string) => Promise<void>;
-}
-
-interface UserProfile {
-  id: string;
-  email: string;
-  firstName: string;
-  lastName: string;
-  role: 'director' | 'admin';
-  libraryId: string;
+  refreshProfile: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType>({
   user: null,
   userProfile: null,
+  activeLibraryId: null,
+  setActiveLibraryId: () => {},
   loading: true,
   signIn: async () => {},
   signUp: async () => {},
   signOut: async () => {},
   resetPassword: async () => {},
+  refreshProfile: async () => {},
 });
 
+// Remembers the selected library between visits
+const ACTIVE_LIBRARY_KEY = 'ncls.activeLibraryId';
+
 export const useAuth = () => useContext(AuthContext);
 
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
+  const [activeLibraryId, setActiveLibraryIdState] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
+  // Fetch user profile from Firestore
+  const loadProfile = async (uid: string) => {
+    try {
+      const userDoc = await getDoc(doc(db, 'users', uid));
+      if (userDoc.exists()) {
+        const profile = userDoc.data() as UserProfile;
+        setUserProfile(profile);
+
+        // Restore the last selected library if the user still belongs to it
+        const libraryIds = getLibraryIds(profile);
+        const stored = window.localStorage.getItem(ACTIVE_LIBRARY_KEY);
+        setActiveLibraryIdState(stored && libraryIds.includes(stored) ? stored : libraryIds[0] || null);
+      }
+    } catch (error) {
+      console.error('Error fetching user profile:', error);
+    }
+  };
+
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, async (user) => {
       setUser(user);
       
       if (user) {
-        // Fetch user profile from Firestore
-        try {
-          const userDoc = await getDoc(doc(db, 'users', user.uid));
-          if (userDoc.exists()) {
-            setUserProfile(userDoc.data() as UserProfile);
-          }
-        } catch (error) {
-          console.error('Error fetching user profile:', error);
-        }
+        await loadProfile(user.uid);
       } else {
         setUserProfile(null);
+        setActiveLibraryIdState(null);
       }
       
       setLoading(false);
@@ -102,14 +117,29 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  // Registration writes the profile after the auth state has already changed, so it reloads it here
+  const refreshProfile = async () => {
+    if (auth.currentUser) {
+      await loadProfile(auth.currentUser.uid);
+    }
+  };
+
+  const setActiveLibraryId = (libraryId: string) => {
+    setActiveLibraryIdState(libraryId);
+    window.localStorage.setItem(ACTIVE_LIBRARY_KEY, libraryId);
+  };
+
   const value = {
     user,
     userProfile,
+    activeLibraryId,
+    setActiveLibraryId,
     loading,
     signIn,
     signUp,
     signOut,
     resetPassword,
+    refreshProfile,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -1,16 +1,31 @@
 import { ReactNode } from 'react';
+import { useRouter } from 'next/router';
 import Navbar from './Navbar';
 import Footer from './Footer';
 import { useAuth } from '@/components/auth/AuthProvider';
+import { isApproved } from '@/lib/accountApproval';
 
 interface LayoutProps {
   children: ReactNode;
 }
 
+// Pages a signed-in user can still reach while their account is waiting for approval
+const UNAPPROVED_PATHS = ['/login', '/register'];
+
+// Published dashboards are rendered on the server for visitors who are not signed in,
+// so they skip the wait for the auth state; embeds also leave out the site's own chrome
+const PUBLIC_PATHS = ['/public/[token]', '/embed/[token]'];
+const EMBED_PATH = '/embed/[token]';
+
 export default function Layout({ children }: LayoutProps) {
-  const { loading } = useAuth();
+  const { user, userProfile, loading } = useAuth();
+  const router = useRouter();
 
-  if (loading) {
+  if (router.pathname === EMBED_PATH) {
+    return <>{children}</>;
+  }
+
+  if (loading && !PUBLIC_PATHS.includes(router.pathname)) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-600"></div>
@@ -18,10 +33,39 @@ export default function Layout({ children }: LayoutProps) {
     );
   }
 
+  const blocked = !!user && !!userProfile && !isApproved(userProfile) && !UNAPPROVED_PATHS.includes(router.pathname) &&
+    !PUBLIC_PATHS.includes(router.pathname);
+
   return (
     <div className="flex flex-col min-h-screen">
       <Navbar />
-      <main className="flex-grow">{children}</main>
+      <main className="flex-grow">
+        {blocked ? (
+          <div className="container mx-auto px-4 py-8">
+            <div className="max-w-2xl mx-auto card text-center">
+              {userProfile?.approvalStatus === 'rejected' ? (
+                <>
+                  <h1 className="text-2xl font-bold text-gray-900 mb-4">Account Not Approved</h1>
+                  <p className="text-gray-600">
+                    An NCLS administrator could not confirm your account for the library you selected.
+                    Please contact NCLS if you believe this is a mistake.
+                  </p>
+                </>
+              ) : (
+                <>
+                  <h1 className="text-2xl font-bold text-gray-900 mb-4">Awaiting Approval</h1>
+                  <p className="text-gray-600">
+                    Thanks for registering. An NCLS administrator will confirm that you work at the library
+                    you selected before you can upload or view reports. Sign in again once you have been approved.
+                  </p>
+                </>
+              )}
+            </div>
+          </div>
+        ) : (
+          children
+        )}
+      </main>
       <Footer />
     </div>
   );
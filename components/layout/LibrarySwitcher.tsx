@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react';
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { getLibraryIds } from '@/lib/roles';
+
+interface LibrarySwitcherProps {
+  className?: string;
+}
+
+export default function LibrarySwitcher({ className = '' }: LibrarySwitcherProps) {
+  const { userProfile, activeLibraryId, setActiveLibraryId } = useAuth();
+  const [libraries, setLibraries] = useState<{ id: string; name: string }[]>([]);
+  const libraryIds = getLibraryIds(userProfile);
+  const libraryKey = libraryIds.join(',');
+
+  useEffect(() => {
+    const fetchLibraries = async () => {
+      const ids = libraryKey ? libraryKey.split(',') : [];
+      if (ids.length < 2) {
+        setLibraries([]);
+        return;
+      }
+
+      try {
+        const libraryDocs = await Promise.all(ids.map(id => getDoc(doc(db, 'libraries', id))));
+        setLibraries(libraryDocs.map(libraryDoc => ({
+          id: libraryDoc.id,
+          name: libraryDoc.exists() ? libraryDoc.data().name || 'Unknown Library' : 'Unknown Library'
+        })));
+      } catch (error) {
+        console.error('Error fetching libraries:', error);
+      }
+    };
+
+    fetchLibraries();
+  }, [libraryKey]);
+
+  // Users with a single library have nothing to switch between
+  if (libraries.length < 2) {
+    return null;
+  }
+
+  return (
+    <select
+      aria-label="Active library"
+      className={`form-input text-sm ${className}`}
+      value={activeLibraryId || ''}
+      onChange={(e) => setActiveLibraryId(e.target.value)}
+    >
+      {libraries.map(library => (
+        <option key={library.id} value={library.id}>{library.name}</option>
+      ))}
+    </select>
+  );
+}
@@ -2,11 +2,17 @@ import { useState } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/router';
 import { useAuth } from '@/components/auth/AuthProvider';
+import { hasPermission } from '@/lib/roles';
+import LibrarySwitcher from './LibrarySwitcher';
 
 export default function Navbar() {
-  const { user, userProfile, signOut } = useAuth();
+  const { user, userProfile, activeLibraryId, signOut } = useAuth();
   const router = useRouter();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const canUpload = hasPermission(userProfile?.role, 'upload');
+  const canManage = hasPermission(userProfile?.role, 'manage');
+  // Admins reach the system dashboard from the admin console; analysts get a link of their own
+  const canViewSystem = hasPermission(userProfile?.role, 'readAllLibraries') && !canManage;
 
   const toggleMenu = () => {
     setIsMenuOpen(!isMenuOpen);
@@ -42,16 +48,18 @@ export default function Navbar() {
               >
                 Home
               </Link>
-              <Link
-                href="/upload"
-                className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
-                  router.pathname === '/upload'
-                    ? 'border-primary-500 text-gray-900'
-                    : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
-                }`}
-              >
-                Upload Report
-              </Link>
+              {canUpload && (
+                <Link
+                  href="/upload"
+                  className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
+                    router.pathname === '/upload'
+                      ? 'border-primary-500 text-gray-900'
+                      : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+                  }`}
+                >
+                  Upload Report
+                </Link>
+              )}
               <Link
                 href="/reports"
                 className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
@@ -62,7 +70,31 @@ export default function Navbar() {
               >
                 View Reports
               </Link>
-              {userProfile?.role === 'admin' && (
+              {activeLibraryId && (
+                <Link
+                  href={`/libraries/${activeLibraryId}/trends`}
+                  className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
+                    router.pathname === '/libraries/[id]/trends'
+                      ? 'border-primary-500 text-gray-900'
+                      : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+                  }`}
+                >
+                  Trends
+                </Link>
+              )}
+              {canViewSystem && (
+                <Link
+                  href="/admin/system"
+                  className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
+                    router.pathname === '/admin/system'
+                      ? 'border-primary-500 text-gray-900'
+                      : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+                  }`}
+                >
+                  System
+                </Link>
+              )}
+              {canManage && (
                 <Link
                   href="/admin"
                   className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
@@ -80,6 +112,7 @@ export default function Navbar() {
             {user ? (
               <div className="ml-3 relative">
                 <div className="flex items-center space-x-4">
+                  <LibrarySwitcher />
                   <span className="text-sm text-gray-700">
                     {userProfile?.firstName} {userProfile?.lastName}
                   </span>
@@ -157,16 +190,18 @@ export default function Navbar() {
           >
             Home
           </Link>
-          <Link
-            href="/upload"
-            className={`block pl-3 pr-4 py-2 border-l-4 text-base font-medium ${
-              router.pathname === '/upload'
-                ? 'bg-primary-50 border-primary-500 text-primary-700'
-                : 'border-transparent text-gray-500 hover:bg-gray-50 hover:border-gray-300 hover:text-gray-700'
-            }`}
-          >
-            Upload Report
-          </Link>
+          {canUpload && (
+            <Link
+              href="/upload"
+              className={`block pl-3 pr-4 py-2 border-l-4 text-base font-medium ${
+                router.pathname === '/upload'
+                  ? 'bg-primary-50 border-primary-500 text-primary-700'
+                  : 'border-transparent text-gray-500 hover:bg-gray-50 hover:border-gray-300 hover:text-gray-700'
+              }`}
+            >
+              Upload Report
+            </Link>
+          )}
           <Link
             href="/reports"
             className={`block pl-3 pr-4 py-2 border-l-4 text-base font-medium ${
@@ -177,7 +212,31 @@ export default function Navbar() {
           >
             View Reports
           </Link>
-          {userProfile?.role === 'admin' && (
+          {activeLibraryId && (
+            <Link
+              href={`/libraries/${activeLibraryId}/trends`}
+              className={`block pl-3 pr-4 py-2 border-l-4 text-base font-medium ${
+                router.pathname === '/libraries/[id]/trends'
+                  ? 'bg-primary-50 border-primary-500 text-primary-700'
+                  : 'border-transparent text-gray-500 hover:bg-gray-50 hover:border-gray-300 hover:text-gray-700'
+              }`}
+            >
+              Trends
+            </Link>
+          )}
+          {canViewSystem && (
+            <Link
+              href="/admin/system"
+              className={`block pl-3 pr-4 py-2 border-l-4 text-base font-medium ${
+                router.pathname === '/admin/system'
+                  ? 'bg-primary-50 border-primary-500 text-primary-700'
+                  : 'border-transparent text-gray-500 hover:bg-gray-50 hover:border-gray-300 hover:text-gray-700'
+              }`}
+            >
+              System
+            </Link>
+          )}
+          {canManage && (
             <Link
               href="/admin"
               className={`block pl-3 pr-4 py-2 border-l-4 text-base font-medium ${
@@ -197,6 +256,7 @@ export default function Navbar() {
                 <div className="text-base font-medium text-gray-800">
                   {userProfile?.firstName} {userProfile?.lastName}
                 </div>
+                <LibrarySwitcher className="mt-3" />
                 <button
                   onClick={handleSignOut}
                   className="mt-3 block text-base font-medium text-gray-500 hover:text-gray-700"
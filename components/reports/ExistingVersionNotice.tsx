@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { hasActiveJob } from '@/lib/jobStatus';
+import { findReportForYear } from '@/lib/reportVersions';
+
+interface ExistingVersionNoticeProps {
+  libraryId: string;
+  year: number;
+}
+
+// Tells the uploader that a report for the year exists, so the upload becomes a new version of it
+const ExistingVersionNotice: React.FC<ExistingVersionNoticeProps> = ({ libraryId, year }) => {
+  const [existing, setExisting] = useState<{ processing: boolean; versionCount: number } | null>(null);
+
+  useEffect(() => {
+    setExisting(null);
+    const checkExisting = async () => {
+      const report = await findReportForYear(libraryId, year);
+      if (!report) return;
+
+      // A report whose processing stopped can be replaced even though it still says 'Processing'
+      const processing = report.data.status === 'Processing' && await hasActiveJob(report.id);
+      setExisting({ processing, versionCount: report.data.versionCount || 1 });
+    };
+    checkExisting().catch(err => console.error('Error checking for an existing report:', err));
+  }, [libraryId, year]);
+
+  if (!existing) {
+    return null;
+  }
+
+  if (existing.processing) {
+    return (
+      <p className="mt-2 text-sm text-red-600">
+        The {year} report is still being processed. Wait for it to finish before uploading a new version.
+      </p>
+    );
+  }
+
+  return (
+    <p className="mt-2 text-sm text-gray-600">
+      A {year} report already exists. This upload will become version {existing.versionCount + 1}; earlier
+      versions stay available in the report&apos;s version history.
+    </p>
+  );
+};
+
+export default ExistingVersionNotice;
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import type { ExportFormat } from '@/lib/reportExport';
+
+export type ExportOption = 'pdf' | ExportFormat;
+
+interface ExportMenuProps {
+  exporting: boolean;
+  onExport: (option: ExportOption) => void;
+}
+
+const EXPORT_OPTIONS: { option: ExportOption; label: string; description: string }[] = [
+  { option: 'pdf', label: 'Board Packet (PDF)', description: 'Printable summary with charts' },
+  { option: 'xlsx', label: 'Excel Workbook', description: 'One sheet per data section' },
+  { option: 'csv', label: 'CSV', description: 'Every value on its own row' }
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ exporting, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={exporting}
+        className="btn btn-secondary"
+      >
+        {exporting ? 'Exporting...' : 'Export'}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-60 bg-white rounded-md shadow-lg border border-gray-200 z-10">
+          {EXPORT_OPTIONS.map(entry => (
+            <button
+              key={entry.option}
+              onClick={() => {
+                setIsOpen(false);
+                onExport(entry.option);
+              }}
+              className="block w-full text-left px-4 py-2 hover:bg-gray-50"
+            >
+              <span className="block text-sm font-medium text-gray-900">{entry.label}</span>
+              <span className="block text-xs text-gray-500">{entry.description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
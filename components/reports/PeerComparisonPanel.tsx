@@ -0,0 +1,170 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { collection, doc, getDoc, getDocs, query, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { comparePeers, formatPercentile, PeerBasis } from '@/lib/peerComparison';
+import { formatMetricValue } from '@/lib/reportMetrics';
+import type { ReportData } from '@/types/report';
+
+interface PeerComparisonPanelProps {
+  libraryId: string;
+  reportData: ReportData;
+}
+
+const QUARTILE_LABELS: Record<number, { label: string; color: string }> = {
+  4: { label: 'Top quartile', color: 'bg-green-100 text-green-800' },
+  3: { label: 'Above median', color: 'bg-blue-100 text-blue-800' },
+  2: { label: 'Below median', color: 'bg-yellow-100 text-yellow-800' },
+  1: { label: 'Bottom quartile', color: 'bg-red-100 text-red-800' }
+};
+
+// Neutral metrics have no better or worse end, so their standing is shown without judgement
+const NEUTRAL_QUARTILE_LABELS: Record<number, string> = {
+  4: 'Highest quartile',
+  3: 'Above median',
+  2: 'Below median',
+  1: 'Lowest quartile'
+};
+
+// Format number with commas
+const formatNumber = (num: number): string => {
+  return Math.round(num).toString().replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+};
+
+const PeerComparisonPanel: React.FC<PeerComparisonPanelProps> = ({ libraryId, reportData }) => {
+  const [candidates, setCandidates] = useState<ReportData[]>([]);
+  const [basis, setBasis] = useState<PeerBasis>('population');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchPeers = async () => {
+      try {
+        setLoading(true);
+
+        // Only reports shared with every member are used for benchmarking, not those shared
+        // with specific libraries
+        const sharedSnapshot = await getDocs(
+          query(
+            collection(db, 'reports'),
+            where('isShared', '==', true),
+            where('status', '==', 'Completed'),
+            where('year', '==', reportData.year)
+          )
+        );
+        const otherReports = sharedSnapshot.docs.filter(reportDoc => reportDoc.data().libraryId !== libraryId);
+
+        const reportDataDocs = await Promise.all(
+          otherReports.map(reportDoc => getDoc(doc(db, 'reportData', reportDoc.id)))
+        );
+        setCandidates(
+          reportDataDocs
+            .filter(reportDataDoc => reportDataDoc.exists())
+            .map(reportDataDoc => reportDataDoc.data() as ReportData)
+        );
+        setLoading(false);
+      } catch (err: any) {
+        console.error('Error fetching peer reports:', err);
+        setError(err.message || 'Failed to load peer reports');
+        setLoading(false);
+      }
+    };
+
+    fetchPeers();
+  }, [libraryId, reportData.year]);
+
+  const comparison = useMemo(() => comparePeers(reportData, candidates, basis), [reportData, candidates, basis]);
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <h3 className="text-lg font-semibold">Compare with Peers</h3>
+        <div className="flex space-x-2 text-sm">
+          <span className="text-gray-600 self-center">Similar by</span>
+          <button
+            onClick={() => setBasis('population')}
+            className={`btn ${basis === 'population' ? 'btn-primary' : 'btn-secondary'}`}
+          >
+            Population
+          </button>
+          <button
+            onClick={() => setBasis('budget')}
+            className={`btn ${basis === 'budget' ? 'btn-primary' : 'btn-secondary'}`}
+          >
+            Budget
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-600"></div>
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative">
+          {error}
+        </div>
+      ) : comparison.peers.length === 0 ? (
+        <p className="text-gray-600">
+          No other libraries have shared a completed {reportData.year} report of a comparable size yet.
+        </p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600 mb-4">
+            Compared with {comparison.peers.length} {comparison.peers.length === 1 ? 'library' : 'libraries'} with
+            the most similar {basis === 'population' ? 'population served' : 'total expenditures'}
+            {basis === 'population' && (
+              <> ({formatNumber(Math.min(...comparison.peers.map(peer => peer.libraryOverview.populationServed)))}–
+              {formatNumber(Math.max(...comparison.peers.map(peer => peer.libraryOverview.populationServed)))} people)</>
+            )}
+            : {comparison.peers.map(peer => peer.libraryName).join(', ')}.
+          </p>
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Metric</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">This Library</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">Peer Median</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500" title="Share of peers this library does better than">Percentile</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">Standing</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {comparison.comparisons.map(entry => (
+                <tr key={entry.metric.key}>
+                  <td className="px-4 py-2">
+                    <span className="font-medium cursor-help" title={entry.metric.description}>
+                      {entry.metric.label}
+                    </span>
+                    {entry.metric.direction === 'lower' && (
+                      <span className="block text-xs text-gray-500">Lower is better</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-right">{formatMetricValue(entry.metric, entry.value)}</td>
+                  <td className="px-4 py-2 text-right">{formatMetricValue(entry.metric, entry.peerMedian)}</td>
+                  <td className="px-4 py-2 text-right">
+                    {entry.percentile === null ? '–' : formatPercentile(entry.percentile)}
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    {entry.quartile === null ? (
+                      '–'
+                    ) : entry.metric.direction === 'neutral' ? (
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                        {NEUTRAL_QUARTILE_LABELS[entry.quartile]}
+                      </span>
+                    ) : (
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${QUARTILE_LABELS[entry.quartile].color}`}>
+                        {QUARTILE_LABELS[entry.quartile].label}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PeerComparisonPanel;
@@ -0,0 +1,68 @@
+import { PROCESSING_STAGES } from '@/lib/processingProgress';
+import type { ProcessingProgress } from '@/types/report';
+
+interface ProcessingProgressCardProps {
+  progress?: ProcessingProgress | null;
+}
+
+export default function ProcessingProgressCard({ progress }: ProcessingProgressCardProps) {
+  const percent = progress?.percent ?? 0;
+  const currentIndex = progress ? PROCESSING_STAGES.findIndex(entry => entry.stage === progress.stage) : 0;
+
+  // 'queued' and 'done' are shown only through the message, and OCR only while it is running,
+  // since most reports have a text layer and skip it
+  const listedStages = PROCESSING_STAGES.filter(entry =>
+    entry.stage !== 'queued' &&
+    entry.stage !== 'done' &&
+    (entry.stage !== 'ocr' || progress?.stage === 'ocr')
+  );
+
+  return (
+    <div className="card p-8">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-semibold">Processing Report</h2>
+        <span className="text-sm font-medium text-gray-600">{percent}%</span>
+      </div>
+      <p className="text-gray-600 mb-4">
+        {progress?.message || 'Your report is queued for processing.'}
+      </p>
+
+      <div className="w-full bg-gray-200 rounded-full h-2.5 mb-6">
+        <div
+          className="bg-primary-600 h-2.5 rounded-full transition-all duration-500"
+          style={{ width: `${percent}%` }}
+        ></div>
+      </div>
+
+      <ol className="space-y-2">
+        {listedStages.map(entry => {
+          const index = PROCESSING_STAGES.findIndex(stage => stage.stage === entry.stage);
+          const state = index < currentIndex ? 'done' : index === currentIndex ? 'current' : 'pending';
+
+          return (
+            <li key={entry.stage} className="flex items-center text-sm">
+              {state === 'done' ? (
+                <svg className="w-4 h-4 text-green-500 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                </svg>
+              ) : state === 'current' ? (
+                <span className="w-4 h-4 mr-2 animate-spin rounded-full border-t-2 border-b-2 border-primary-600"></span>
+              ) : (
+                <span className="w-4 h-4 mr-2 rounded-full border-2 border-gray-300"></span>
+              )}
+              <span className={state === 'pending' ? 'text-gray-400' : state === 'current' ? 'font-medium text-gray-900' : 'text-gray-600'}>
+                {entry.stage === 'analyzing' && state === 'current' && progress?.totalChunks
+                  ? `${entry.label} (chunk ${progress.chunk} of ${progress.totalChunks})`
+                  : entry.label}
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+
+      <p className="text-gray-500 text-sm mt-6">
+        This page updates automatically and will show the dashboard once processing is complete.
+      </p>
+    </div>
+  );
+}
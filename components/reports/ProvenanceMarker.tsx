@@ -0,0 +1,56 @@
+import React from 'react';
+import type { FieldProvenance } from '@/types/report';
+
+interface ProvenanceMarkerProps {
+  provenance?: FieldProvenance;
+}
+
+export const METHOD_LABELS: Record<FieldProvenance['method'], string> = {
+  parser: 'Read from report',
+  llm: 'Extracted by AI',
+  estimate: 'Estimated by AI',
+  manual: 'Corrected by reviewer',
+  import: 'Imported from spreadsheet'
+};
+
+/**
+ * Pick the marker color for a confidence score
+ */
+export const confidenceColor = (confidence: number): string => {
+  if (confidence >= 0.8) return 'bg-green-500';
+  if (confidence >= 0.5) return 'bg-yellow-400';
+  return 'bg-red-500';
+};
+
+/**
+ * Describe where a value came from, for use in tooltips
+ */
+export const describeProvenance = (provenance: FieldProvenance): string => {
+  // Imported values come from a spreadsheet cell rather than a page of the report
+  const parts = [
+    METHOD_LABELS[provenance.method],
+    ...(provenance.method === 'import' ? [] : [provenance.page ? `page ${provenance.page}` : 'page unknown']),
+    `${Math.round(provenance.confidence * 100)}% confidence`
+  ];
+  if (provenance.ocrConfidence !== undefined) {
+    parts.push(`scanned page, ${Math.round(provenance.ocrConfidence * 100)}% OCR confidence`);
+  }
+  const summary = parts.join(' · ');
+  return provenance.snippet ? `${summary}\n"${provenance.snippet}"` : summary;
+};
+
+const ProvenanceMarker: React.FC<ProvenanceMarkerProps> = ({ provenance }) => {
+  if (!provenance) {
+    return null;
+  }
+
+  return (
+    <span
+      className={`inline-block w-2 h-2 ml-2 rounded-full align-middle cursor-help ${confidenceColor(provenance.confidence)}`}
+      title={describeProvenance(provenance)}
+      aria-label={describeProvenance(provenance)}
+    />
+  );
+};
+
+export default ProvenanceMarker;
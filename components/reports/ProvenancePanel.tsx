@@ -0,0 +1,55 @@
+import React from 'react';
+import type { FieldProvenance } from '@/types/report';
+import { describeFieldPath } from '@/lib/reportFields';
+import { confidenceColor } from './ProvenanceMarker';
+
+interface ProvenancePanelProps {
+  provenance: Record<string, FieldProvenance>;
+  onClose: () => void;
+}
+
+const METHOD_BADGES: Record<FieldProvenance['method'], { label: string; className: string }> = {
+  parser: { label: 'Parser', className: 'bg-green-100 text-green-800' },
+  llm: { label: 'AI', className: 'bg-blue-100 text-blue-800' },
+  estimate: { label: 'Estimate', className: 'bg-red-100 text-red-800' },
+  manual: { label: 'Reviewed', className: 'bg-purple-100 text-purple-800' },
+  import: { label: 'Import', className: 'bg-gray-100 text-gray-800' }
+};
+
+const ProvenancePanel: React.FC<ProvenancePanelProps> = ({ provenance, onClose }) => {
+  // Show the least trustworthy values first
+  const entries = Object.entries(provenance).sort(([, a], [, b]) => a.confidence - b.confidence);
+
+  return (
+    <aside className="fixed inset-y-0 right-0 w-full sm:w-96 bg-white shadow-xl z-40 flex flex-col">
+      <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+        <h3 className="text-lg font-semibold mb-0">Data Sources</h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+          Close
+        </button>
+      </div>
+      <div className="flex-grow overflow-y-auto divide-y divide-gray-100">
+        {entries.map(([path, source]) => (
+          <div key={path} className="px-4 py-3 text-sm">
+            <div className="flex justify-between items-center">
+              <span className="font-medium">{describeFieldPath(path)}</span>
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${METHOD_BADGES[source.method].className}`}>
+                {METHOD_BADGES[source.method].label}
+              </span>
+            </div>
+            <div className="flex items-center text-gray-500 mt-1">
+              <span className={`inline-block w-2 h-2 mr-2 rounded-full ${confidenceColor(source.confidence)}`} />
+              {Math.round(source.confidence * 100)}% confidence
+              {source.page ? ` · page ${source.page}` : ''}
+            </div>
+            {source.snippet && (
+              <p className="mt-1 text-gray-600 italic break-words">&ldquo;{source.snippet}&rdquo;</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </aside>
+  );
+};
+
+export default ProvenancePanel;
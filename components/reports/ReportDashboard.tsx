@@ -1,5 +1,9 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line } from 'recharts';
+import type { FieldProvenance } from '@/types/report';
+import ProvenanceMarker from './ProvenanceMarker';
+import ProvenancePanel from './ProvenancePanel';
+import { computeReportMetrics, formatMetricValue, REPORT_METRICS } from '@/lib/reportMetrics';
 
 interface ReportDashboardProps {
   libraryName: string;
@@ -33,6 +37,7 @@ interface ReportDashboardProps {
     strengths: string[];
     areasForDevelopment: string[];
   };
+  provenance?: Record<string, FieldProvenance>;
 }
 
 const ReportDashboard: React.FC<ReportDashboardProps> = ({
@@ -48,17 +53,31 @@ const ReportDashboard: React.FC<ReportDashboardProps> = ({
   programData,
   venueData,
   summerReadingData,
-  keyFindings
+  keyFindings,
+  provenance
 }) => {
+  const [showSources, setShowSources] = useState(false);
+  
   // Calculate totals
   const totalRevenue = revenueData.reduce((sum, item) => sum + item.value, 0);
   const totalExpenses = expenseData.reduce((sum, item) => sum + item.value, 0);
   
+  // Derive per-capita and efficiency metrics
+  const metrics = computeReportMetrics({
+    libraryOverview,
+    collectionOverview,
+    usageStatistics,
+    revenueData,
+    expenseData,
+    programData
+  });
+  
   // Colors for charts
   const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#82ca9d', '#ffc658'];
   
-  // Format number with commas
-  const formatNumber = (num: number): string => {
+  // Format number with commas; values not found in the report stay blank until a reviewer fills them in
+  const formatNumber = (num: number | undefined): string => {
+    if (typeof num !== 'number') return 'Not reported';
     return num.toString().replace(/\B(?=(\d{3})+(?!\d))/g, ",");
   };
   
@@ -67,31 +86,50 @@ const ReportDashboard: React.FC<ReportDashboardProps> = ({
       <header className="text-center">
         <h1 className="text-3xl font-bold mb-2">{libraryName}</h1>
         <h2 className="text-xl mb-4">{year} Annual Report Analysis</h2>
+        {provenance && Object.keys(provenance).length > 0 && (
+          <div className="mb-4">
+            <button onClick={() => setShowSources(true)} className="btn btn-secondary text-sm">
+              View Data Sources
+            </button>
+          </div>
+        )}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
           <div className="bg-white p-4 rounded-lg shadow">
             <h3 className="text-lg font-semibold mb-2">Library Overview</h3>
-            <p><span className="font-medium">Population Served:</span> {formatNumber(libraryOverview.populationServed)}</p>
-            <p><span className="font-medium">Annual Visits:</span> {formatNumber(libraryOverview.annualVisits)}</p>
-            <p><span className="font-medium">Registered Borrowers:</span> {formatNumber(libraryOverview.registeredBorrowers)}</p>
-            <p><span className="font-medium">Open Hours Per Week:</span> {libraryOverview.openHoursPerWeek}</p>
+            <p><span className="font-medium">Population Served:</span> {formatNumber(libraryOverview.populationServed)}<ProvenanceMarker provenance={provenance?.['libraryOverview.populationServed']} /></p>
+            <p><span className="font-medium">Annual Visits:</span> {formatNumber(libraryOverview.annualVisits)}<ProvenanceMarker provenance={provenance?.['libraryOverview.annualVisits']} /></p>
+            <p><span className="font-medium">Registered Borrowers:</span> {formatNumber(libraryOverview.registeredBorrowers)}<ProvenanceMarker provenance={provenance?.['libraryOverview.registeredBorrowers']} /></p>
+            <p><span className="font-medium">Open Hours Per Week:</span> {libraryOverview.openHoursPerWeek ?? 'Not reported'}<ProvenanceMarker provenance={provenance?.['libraryOverview.openHoursPerWeek']} /></p>
           </div>
           <div className="bg-white p-4 rounded-lg shadow">
             <h3 className="text-lg font-semibold mb-2">Collection Size</h3>
-            <p><span className="font-medium">Total Items:</span> {formatNumber(collectionOverview.totalItems)}</p>
-            <p><span className="font-medium">Print Materials:</span> {formatNumber(collectionOverview.printMaterials)}</p>
-            <p><span className="font-medium">Physical Audio/Video:</span> {formatNumber(collectionOverview.physicalAudioVideo)}</p>
-            <p><span className="font-medium">Other Physical Items:</span> {formatNumber(collectionOverview.otherPhysicalItems)}</p>
+            <p><span className="font-medium">Total Items:</span> {formatNumber(collectionOverview.totalItems)}<ProvenanceMarker provenance={provenance?.['collectionOverview.totalItems']} /></p>
+            <p><span className="font-medium">Print Materials:</span> {formatNumber(collectionOverview.printMaterials)}<ProvenanceMarker provenance={provenance?.['collectionOverview.printMaterials']} /></p>
+            <p><span className="font-medium">Physical Audio/Video:</span> {formatNumber(collectionOverview.physicalAudioVideo)}<ProvenanceMarker provenance={provenance?.['collectionOverview.physicalAudioVideo']} /></p>
+            <p><span className="font-medium">Other Physical Items:</span> {formatNumber(collectionOverview.otherPhysicalItems)}<ProvenanceMarker provenance={provenance?.['collectionOverview.otherPhysicalItems']} /></p>
           </div>
           <div className="bg-white p-4 rounded-lg shadow">
             <h3 className="text-lg font-semibold mb-2">Usage Statistics</h3>
-            <p><span className="font-medium">Physical Item Circulation:</span> {formatNumber(usageStatistics.physicalItemCirculation)}</p>
-            <p><span className="font-medium">E-Book Circulation:</span> {formatNumber(usageStatistics.eBookCirculation)}</p>
-            <p><span className="font-medium">E-Audio Circulation:</span> {formatNumber(usageStatistics.eAudioCirculation)}</p>
-            <p><span className="font-medium">Reference Transactions:</span> {formatNumber(usageStatistics.referenceTransactions)}</p>
+            <p><span className="font-medium">Physical Item Circulation:</span> {formatNumber(usageStatistics.physicalItemCirculation)}<ProvenanceMarker provenance={provenance?.['usageStatistics.physicalItemCirculation']} /></p>
+            <p><span className="font-medium">E-Book Circulation:</span> {formatNumber(usageStatistics.eBookCirculation)}<ProvenanceMarker provenance={provenance?.['usageStatistics.eBookCirculation']} /></p>
+            <p><span className="font-medium">E-Audio Circulation:</span> {formatNumber(usageStatistics.eAudioCirculation)}<ProvenanceMarker provenance={provenance?.['usageStatistics.eAudioCirculation']} /></p>
+            <p><span className="font-medium">Reference Transactions:</span> {formatNumber(usageStatistics.referenceTransactions)}<ProvenanceMarker provenance={provenance?.['usageStatistics.referenceTransactions']} /></p>
           </div>
         </div>
       </header>
       
+      <section className="bg-white p-4 rounded-lg shadow">
+        <h3 className="text-lg font-semibold mb-4">Key Performance Indicators</h3>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {REPORT_METRICS.map(metric => (
+            <div key={metric.key} className="text-center" title={metric.description}>
+              <p className="text-2xl font-bold text-primary-700">{formatMetricValue(metric, metrics[metric.key])}</p>
+              <p className="text-sm text-gray-600">{metric.label}</p>
+            </div>
+          ))}
+        </div>
+      </section>
+      
       <section className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <div className="bg-white p-4 rounded-lg shadow">
           <h3 className="text-lg font-semibold mb-2 text-center">Collection Breakdown</h3>
@@ -281,6 +319,10 @@ const ReportDashboard: React.FC<ReportDashboardProps> = ({
         </div>
       </section>
       
+      {showSources && provenance && (
+        <ProvenancePanel provenance={provenance} onClose={() => setShowSources(false)} />
+      )}
+      
       <footer className="mt-4 text-center text-sm text-gray-500">
         <p>Data source: {libraryName} Annual Report {year}</p>
         <p>Report generated on {new Date().toLocaleDateString()}</p>
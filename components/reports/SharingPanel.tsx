@@ -0,0 +1,317 @@
+import React, { useEffect, useState } from 'react';
+import { collection, doc, getDocs, query, serverTimestamp, setDoc, updateDoc, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { buildSharingFields, generatePublicLinkToken, getSharingScope, isPublicLinkActive, SHARING_SCOPES } from '@/lib/sharing';
+import type { PublicLink, SharingScope } from '@/types/sharing';
+
+// The sharing fields of the report being shared
+export interface SharingState {
+  isShared: boolean;
+  sharingScope?: SharingScope;
+  sharedLibraryIds?: string[];
+}
+
+interface SharingPanelProps {
+  reportId: string;
+  libraryId: string;
+  sharing: SharingState;
+  onUpdated: (sharing: SharingState) => void;
+}
+
+/**
+ * Format a Firestore Timestamp or Date for display
+ */
+const formatDate = (value: any): string => {
+  const date = value?.toDate ? value.toDate() : value instanceof Date ? value : null;
+  return date ? date.toLocaleDateString() : '';
+};
+
+const SharingPanel: React.FC<SharingPanelProps> = ({ reportId, libraryId, sharing, onUpdated }) => {
+  const [scope, setScope] = useState<SharingScope>(getSharingScope(sharing));
+  const [libraryIds, setLibraryIds] = useState<string[]>(sharing.sharedLibraryIds || []);
+  const [libraries, setLibraries] = useState<{ id: string; name: string }[]>([]);
+  const [librarySearch, setLibrarySearch] = useState('');
+  const [links, setLinks] = useState<PublicLink[]>([]);
+  const [expiresOn, setExpiresOn] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const { user, userProfile } = useAuth();
+
+  const savedScope = getSharingScope(sharing);
+
+  useEffect(() => {
+    const fetchLibraries = async () => {
+      try {
+        const librariesSnapshot = await getDocs(collection(db, 'libraries'));
+        setLibraries(
+          librariesSnapshot.docs
+            .filter(libraryDoc => libraryDoc.id !== libraryId)
+            .map(libraryDoc => ({ id: libraryDoc.id, name: libraryDoc.data().name || 'Unknown Library' }))
+            .sort((a, b) => a.name.localeCompare(b.name))
+        );
+      } catch (err: any) {
+        console.error('Error fetching libraries:', err);
+        setError(err.message || 'Failed to load libraries');
+      }
+    };
+
+    fetchLibraries();
+  }, [libraryId]);
+
+  // The rules only let a library's directors list its links, so the query names the library
+  useEffect(() => {
+    const fetchLinks = async () => {
+      try {
+        const linksSnapshot = await getDocs(
+          query(collection(db, 'publicLinks'), where('libraryId', '==', libraryId), where('reportId', '==', reportId))
+        );
+        setLinks(
+          linksSnapshot.docs
+            .map(linkDoc => ({ id: linkDoc.id, ...linkDoc.data() } as PublicLink))
+            .sort((a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0))
+        );
+      } catch (err: any) {
+        console.error('Error fetching public links:', err);
+        setError(err.message || 'Failed to load public links');
+      }
+    };
+
+    fetchLinks();
+  }, [reportId, libraryId]);
+
+  const toggleLibrary = (id: string) => {
+    setLibraryIds(libraryIds.includes(id) ? libraryIds.filter(entry => entry !== id) : [...libraryIds, id]);
+  };
+
+  const handleSave = async () => {
+    if (scope === 'libraries' && libraryIds.length === 0) {
+      setError('Choose at least one library to share with');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError('');
+      setMessage('');
+      const fields = buildSharingFields(scope, libraryIds);
+      await updateDoc(doc(db, 'reports', reportId), fields);
+      onUpdated(fields);
+      setMessage('Sharing updated');
+      setSaving(false);
+    } catch (err: any) {
+      console.error('Error updating sharing:', err);
+      setError(err.message || 'Failed to update sharing');
+      setSaving(false);
+    }
+  };
+
+  const handleCreateLink = async () => {
+    if (!user || !userProfile) return;
+
+    try {
+      setSaving(true);
+      setError('');
+      setMessage('');
+      const token = generatePublicLinkToken();
+      const link = {
+        reportId,
+        libraryId,
+        createdBy: user.uid,
+        createdByName: `${userProfile.firstName} ${userProfile.lastName}`,
+        createdAt: serverTimestamp(),
+        // The link works until the end of the chosen day
+        expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`) : null,
+        revokedAt: null,
+        revokedBy: null
+      };
+      await setDoc(doc(db, 'publicLinks', token), link);
+      setLinks([{ id: token, ...link, createdAt: new Date() }, ...links]);
+      setExpiresOn('');
+      setSaving(false);
+    } catch (err: any) {
+      console.error('Error creating public link:', err);
+      setError(err.message || 'Failed to create public link');
+      setSaving(false);
+    }
+  };
+
+  const handleRevokeLink = async (linkId: string) => {
+    if (!user) return;
+
+    try {
+      setSaving(true);
+      setError('');
+      await updateDoc(doc(db, 'publicLinks', linkId), {
+        revokedAt: serverTimestamp(),
+        revokedBy: user.uid
+      });
+      setLinks(links.map(link => link.id === linkId ? { ...link, revokedAt: new Date(), revokedBy: user.uid } : link));
+      setSaving(false);
+    } catch (err: any) {
+      console.error('Error revoking public link:', err);
+      setError(err.message || 'Failed to revoke public link');
+      setSaving(false);
+    }
+  };
+
+  const copyLink = async (linkId: string) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/public/${linkId}`);
+    setMessage('Link copied to the clipboard');
+  };
+
+  const copyEmbedCode = async (linkId: string) => {
+    const src = `${window.location.origin}/embed/${linkId}`;
+    await navigator.clipboard.writeText(
+      `<iframe src="${src}" width="100%" height="1600" style="border: 0" title="Annual report dashboard"></iframe>`
+    );
+    setMessage('Embed code copied to the clipboard');
+  };
+
+  const linkStatus = (link: PublicLink): { label: string; color: string } => {
+    if (link.revokedAt) return { label: 'Revoked', color: 'bg-red-100 text-red-800' };
+    if (!isPublicLinkActive(link, { sharingScope: 'public' })) return { label: 'Expired', color: 'bg-gray-100 text-gray-800' };
+    if (savedScope !== 'public') return { label: 'Paused', color: 'bg-yellow-100 text-yellow-800' };
+    return { label: 'Active', color: 'bg-green-100 text-green-800' };
+  };
+
+  const visibleLibraries = libraries.filter(library =>
+    library.name.toLowerCase().includes(librarySearch.toLowerCase())
+  );
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow mb-6">
+      <h3 className="text-lg font-semibold mb-4">Sharing</h3>
+
+      <div className="space-y-2 mb-4">
+        {SHARING_SCOPES.map(entry => (
+          <label key={entry.scope} className="flex items-start cursor-pointer">
+            <input
+              type="radio"
+              name="sharing-scope"
+              className="mt-1 mr-3"
+              checked={scope === entry.scope}
+              onChange={() => setScope(entry.scope)}
+              disabled={saving}
+            />
+            <span>
+              <span className="block font-medium">{entry.label}</span>
+              <span className="block text-sm text-gray-600">{entry.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {scope === 'libraries' && (
+        <div className="mb-4">
+          <input
+            type="text"
+            className="form-input mb-2"
+            placeholder="Search libraries..."
+            value={librarySearch}
+            onChange={(e) => setLibrarySearch(e.target.value)}
+          />
+          <div className="max-h-48 overflow-y-auto border border-gray-200 rounded p-2 space-y-1">
+            {visibleLibraries.map(library => (
+              <label key={library.id} className="flex items-center text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="mr-2"
+                  checked={libraryIds.includes(library.id)}
+                  onChange={() => toggleLibrary(library.id)}
+                  disabled={saving}
+                />
+                {library.name}
+              </label>
+            ))}
+          </div>
+          <p className="mt-1 text-xs text-gray-500">
+            {libraryIds.length} {libraryIds.length === 1 ? 'library' : 'libraries'} selected
+          </p>
+        </div>
+      )}
+
+      <div className="flex justify-end mb-4">
+        <button onClick={handleSave} disabled={saving} className="btn btn-primary">
+          {saving ? 'Saving...' : 'Save Sharing'}
+        </button>
+      </div>
+
+      {(savedScope === 'public' || links.length > 0) && (
+        <div className="border-t border-gray-200 pt-4">
+          <h4 className="font-semibold mb-2">Public Links</h4>
+          <p className="text-sm text-gray-600 mb-3">
+            Anyone with an active link can view the dashboard without signing in, and the embed code shows it on your library&apos;s website. Only completed reports are published.
+            {savedScope !== 'public' && ' Links are paused while the report is not shared publicly.'}
+          </p>
+
+          {savedScope === 'public' && (
+            <div className="flex items-end space-x-3 mb-4">
+              <div>
+                <label htmlFor="link-expiry" className="form-label">
+                  Expires (optional)
+                </label>
+                <input
+                  id="link-expiry"
+                  type="date"
+                  className="form-input"
+                  min={new Date().toISOString().slice(0, 10)}
+                  value={expiresOn}
+                  onChange={(e) => setExpiresOn(e.target.value)}
+                  disabled={saving}
+                />
+              </div>
+              <button onClick={handleCreateLink} disabled={saving} className="btn btn-secondary">
+                Create Link
+              </button>
+            </div>
+          )}
+
+          {links.length > 0 && (
+            <ul className="divide-y divide-gray-200 text-sm">
+              {links.map(link => {
+                const status = linkStatus(link);
+                return (
+                  <li key={link.id} className="py-2 flex justify-between items-center">
+                    <div>
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${status.color}`}>
+                        {status.label}
+                      </span>
+                      <span className="ml-2 text-gray-600">
+                        Created {formatDate(link.createdAt)} by {link.createdByName}
+                        {link.expiresAt ? ` · expires ${formatDate(link.expiresAt)}` : ' · never expires'}
+                      </span>
+                    </div>
+                    {!link.revokedAt && (
+                      <div className="flex space-x-3">
+                        <button onClick={() => copyLink(link.id)} className="text-primary-600 hover:text-primary-900">
+                          Copy Link
+                        </button>
+                        <button onClick={() => copyEmbedCode(link.id)} className="text-primary-600 hover:text-primary-900">
+                          Copy Embed Code
+                        </button>
+                        <button
+                          onClick={() => handleRevokeLink(link.id)}
+                          disabled={saving}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          Revoke
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {message && <div className="mt-4 text-green-700 text-sm">{message}</div>}
+      {error && <div className="mt-4 text-red-500 text-sm">{error}</div>}
+    </div>
+  );
+};
+
+export default SharingPanel;
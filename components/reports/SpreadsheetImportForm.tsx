@@ -0,0 +1,445 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { addDoc, collection, doc, getDoc, getDocs, serverTimestamp, updateDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { createImportedReport, previewImportFile } from '@/lib/importApi';
+import { buildImportedReport, findLibraryRow, suggestColumnMapping } from '@/lib/importMapping';
+import { describeFieldPath, listReportFieldPaths, parseFieldPath, SECTION_LABELS } from '@/lib/reportFields';
+import type { ColumnMapping, ImportTable, ImportTemplate } from '@/types/importTemplate';
+import ExistingVersionNotice from './ExistingVersionNotice';
+
+interface SpreadsheetImportFormProps {
+  libraryId: string;
+  years: string[];
+  onImported: (reportId: string) => void;
+}
+
+// Mirrors MAX_IMPORT_FILE_SIZE on the server, so oversized files are caught before uploading
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+// Every report field, grouped by section for the mapping dropdowns
+const FIELD_OPTIONS = listReportFieldPaths().reduce((groups, path) => {
+  const parsed = parseFieldPath(path);
+  if (!parsed) return groups;
+  const sectionLabel = SECTION_LABELS[parsed.section];
+  groups.set(sectionLabel, [...(groups.get(sectionLabel) || []), path]);
+  return groups;
+}, new Map<string, string[]>());
+
+/**
+ * Keep only the parts of a saved mapping whose columns exist in this file
+ */
+const mappingForHeaders = (mapping: ColumnMapping, headers: string[]): ColumnMapping => {
+  return Object.fromEntries(Object.entries(mapping).filter(([header]) => headers.includes(header)));
+};
+
+const SpreadsheetImportForm: React.FC<SpreadsheetImportFormProps> = ({ libraryId, years, onImported }) => {
+  const [year, setYear] = useState(years[0]);
+  const [file, setFile] = useState<File | null>(null);
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [rowIndex, setRowIndex] = useState(0);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [templates, setTemplates] = useState<ImportTemplate[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [templateName, setTemplateName] = useState('');
+  const [libraryName, setLibraryName] = useState('');
+  const [showMappedOnly, setShowMappedOnly] = useState(false);
+  const [reading, setReading] = useState(false);
+  const [savingTemplate, setSavingTemplate] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { user, userProfile } = useAuth();
+
+  // Templates are shared by every library, since survey exports use the same columns statewide
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        const templatesSnapshot = await getDocs(collection(db, 'importTemplates'));
+        setTemplates(
+          templatesSnapshot.docs
+            .map(templateDoc => ({ id: templateDoc.id, ...templateDoc.data() } as ImportTemplate))
+            .sort((a, b) => a.name.localeCompare(b.name))
+        );
+      } catch (err: any) {
+        console.error('Error fetching import templates:', err);
+        setError(err.message || 'Failed to load import templates');
+      }
+    };
+
+    fetchTemplates();
+  }, []);
+
+  // The library name picks out the library's row in a statewide export
+  useEffect(() => {
+    const fetchLibrary = async () => {
+      const libraryDoc = await getDoc(doc(db, 'libraries', libraryId));
+      setLibraryName(libraryDoc.exists() ? libraryDoc.data().name || '' : '');
+    };
+
+    fetchLibrary().catch(err => console.error('Error fetching library:', err));
+  }, [libraryId]);
+
+  const result = useMemo(
+    () => table ? buildImportedReport(table, rowIndex, mapping, { reportId: '', libraryName, year: parseInt(year) }) : null,
+    [table, rowIndex, mapping, libraryName, year]
+  );
+
+  const selectedTemplate = templates.find(template => template.id === templateId);
+  const mappedCount = Object.values(mapping).filter(Boolean).length;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files || !e.target.files[0] || !user) return;
+    const selectedFile = e.target.files[0];
+
+    if (!/\.(csv|xlsx)$/i.test(selectedFile.name)) {
+      setError('Please upload a CSV or Excel (.xlsx) file');
+      return;
+    }
+
+    if (selectedFile.size > MAX_FILE_SIZE) {
+      setError('File size must be less than 5MB');
+      return;
+    }
+
+    try {
+      setReading(true);
+      setError('');
+      setMessage('');
+      const preview = await previewImportFile(user, selectedFile);
+      setFile(selectedFile);
+      setTable(preview);
+      setRowIndex(findLibraryRow(preview, libraryName));
+      setMapping(selectedTemplate ? mappingForHeaders(selectedTemplate.mapping, preview.headers) : suggestColumnMapping(preview.headers));
+      setReading(false);
+    } catch (err: any) {
+      console.error('Error reading import file:', err);
+      setError(err.message || 'Failed to read the file');
+      setReading(false);
+    }
+  };
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find(entry => entry.id === id);
+    setTemplateName(template?.name || '');
+    if (table) {
+      setMapping(template ? mappingForHeaders(template.mapping, table.headers) : suggestColumnMapping(table.headers));
+    }
+  };
+
+  const handleMappingChange = (header: string, path: string) => {
+    const next = { ...mapping };
+    if (path) {
+      next[header] = path;
+    } else {
+      delete next[header];
+    }
+    setMapping(next);
+  };
+
+  // Save the mapping for the next import; only the creator or an admin may change a saved template
+  const handleSaveTemplate = async () => {
+    if (!user || !userProfile || !templateName.trim()) return;
+
+    try {
+      setSavingTemplate(true);
+      setError('');
+      const canUpdate = selectedTemplate && selectedTemplate.name === templateName.trim() &&
+        (selectedTemplate.createdBy === user.uid || userProfile.role === 'admin');
+
+      if (canUpdate) {
+        await updateDoc(doc(db, 'importTemplates', selectedTemplate.id), {
+          mapping,
+          updatedAt: serverTimestamp()
+        });
+        setTemplates(templates.map(template => template.id === selectedTemplate.id ? { ...template, mapping } : template));
+        setMessage(`Template "${selectedTemplate.name}" updated`);
+      } else {
+        const template = {
+          name: templateName.trim(),
+          mapping,
+          createdBy: user.uid,
+          createdByName: `${userProfile.firstName} ${userProfile.lastName}`,
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp()
+        };
+        const templateRef = await addDoc(collection(db, 'importTemplates'), template);
+        setTemplates([...templates, { id: templateRef.id, ...template }].sort((a, b) => a.name.localeCompare(b.name)));
+        setTemplateId(templateRef.id);
+        setMessage(`Template "${template.name}" saved`);
+      }
+      setSavingTemplate(false);
+    } catch (err: any) {
+      console.error('Error saving import template:', err);
+      setError(err.message || 'Failed to save template');
+      setSavingTemplate(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user || !file || !table) return;
+
+    try {
+      setImporting(true);
+      setError('');
+      const reportId = await createImportedReport(user, {
+        libraryId,
+        year: parseInt(year),
+        fileName: file.name,
+        headers: table.headers,
+        row: table.rows[rowIndex],
+        mapping
+      });
+      onImported(reportId);
+    } catch (err: any) {
+      console.error('Error importing report:', err);
+      setError(err.message || 'Failed to import report');
+      setImporting(false);
+    }
+  };
+
+  const resetForm = () => {
+    setFile(null);
+    setTable(null);
+    setMapping({});
+    setRowIndex(0);
+    setError('');
+    setMessage('');
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const visibleHeaders = table
+    ? table.headers.filter(header => !showMappedOnly || mapping[header])
+    : [];
+
+  return (
+    <div className="card">
+      <div className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="import-year" className="form-label">
+              Report Year
+            </label>
+            <select
+              id="import-year"
+              className="form-input"
+              value={year}
+              onChange={(e) => setYear(e.target.value)}
+              disabled={importing}
+            >
+              {years.map((y) => (
+                <option key={y} value={y}>
+                  {y}
+                </option>
+              ))}
+            </select>
+            <ExistingVersionNotice libraryId={libraryId} year={parseInt(year)} />
+          </div>
+          <div>
+            <label htmlFor="import-template" className="form-label">
+              Mapping Template
+            </label>
+            <select
+              id="import-template"
+              className="form-input"
+              value={templateId}
+              onChange={(e) => handleTemplateChange(e.target.value)}
+              disabled={importing}
+            >
+              <option value="">Match column names automatically</option>
+              {templates.map(template => (
+                <option key={template.id} value={template.id}>
+                  {template.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="import-file" className="form-label">
+            CSV or Excel File
+          </label>
+          <input
+            id="import-file"
+            type="file"
+            accept=".csv,.xlsx"
+            className="form-input"
+            onChange={handleFileChange}
+            ref={fileInputRef}
+            disabled={reading || importing}
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            One row per library with a column per figure, such as a state survey export. Up to 5MB.
+          </p>
+        </div>
+
+        {reading && (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-600"></div>
+          </div>
+        )}
+
+        {table && result && (
+          <>
+            {table.rows.length > 1 && (
+              <div>
+                <label htmlFor="import-row" className="form-label">
+                  Library Row
+                </label>
+                <select
+                  id="import-row"
+                  className="form-input"
+                  value={rowIndex}
+                  onChange={(e) => setRowIndex(parseInt(e.target.value))}
+                  disabled={importing}
+                >
+                  {table.rows.map((row, index) => (
+                    <option key={index} value={index}>
+                      Row {index + 1}: {row.filter(Boolean).slice(0, 3).join(' · ')}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="text-lg font-semibold">
+                  Column Mapping
+                  <span className="ml-2 text-sm font-normal text-gray-500">
+                    {mappedCount} of {table.headers.length} columns mapped
+                  </span>
+                </h3>
+                <label className="flex items-center text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={showMappedOnly}
+                    onChange={(e) => setShowMappedOnly(e.target.checked)}
+                  />
+                  Mapped columns only
+                </label>
+              </div>
+              <div className="max-h-96 overflow-y-auto border border-gray-200 rounded">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Column</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Value</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Report Field</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {visibleHeaders.map(header => (
+                      <tr key={header}>
+                        <td className="px-4 py-2 font-medium">{header}</td>
+                        <td className="px-4 py-2 text-gray-600">{table.rows[rowIndex][table.headers.indexOf(header)]}</td>
+                        <td className="px-4 py-2">
+                          <select
+                            className="form-input py-1"
+                            value={mapping[header] || ''}
+                            onChange={(e) => handleMappingChange(header, e.target.value)}
+                            disabled={importing}
+                          >
+                            <option value="">Not imported</option>
+                            {Array.from(FIELD_OPTIONS.entries()).map(([sectionLabel, paths]) => (
+                              <optgroup key={sectionLabel} label={sectionLabel}>
+                                {paths.map(path => (
+                                  <option key={path} value={path}>
+                                    {describeFieldPath(path).replace(`${sectionLabel} – `, '')}
+                                  </option>
+                                ))}
+                              </optgroup>
+                            ))}
+                          </select>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div className="flex items-end space-x-3">
+              <div className="flex-grow">
+                <label htmlFor="template-name" className="form-label">
+                  Save Mapping as Template
+                </label>
+                <input
+                  id="template-name"
+                  type="text"
+                  className="form-input"
+                  placeholder="e.g. NYS Annual Report Survey"
+                  value={templateName}
+                  onChange={(e) => setTemplateName(e.target.value)}
+                  disabled={savingTemplate}
+                />
+              </div>
+              <button
+                type="button"
+                onClick={handleSaveTemplate}
+                disabled={savingTemplate || !templateName.trim() || mappedCount === 0}
+                className="btn btn-secondary"
+              >
+                {savingTemplate ? 'Saving...' : 'Save Template'}
+              </button>
+            </div>
+
+            {result.issues.length > 0 ? (
+              <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded relative">
+                <p className="font-medium mb-2">
+                  {result.issues.length} {result.issues.length === 1 ? 'problem needs' : 'problems need'} fixing before this row can be imported:
+                </p>
+                <ul className="list-disc pl-5 space-y-1 text-sm">
+                  {result.issues.slice(0, 10).map((issue, index) => (
+                    <li key={index}>{describeFieldPath(issue.path)} {issue.message}</li>
+                  ))}
+                </ul>
+                {result.issues.length > 10 && (
+                  <p className="text-sm mt-2">and {result.issues.length - 10} more</p>
+                )}
+              </div>
+            ) : (
+              <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded relative">
+                Every required field is mapped and valid. The report will go straight to review.
+              </div>
+            )}
+          </>
+        )}
+
+        {message && (
+          <div className="text-green-700 text-sm">{message}</div>
+        )}
+        {error && (
+          <div className="text-red-500 text-sm">{error}</div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={resetForm}
+            className="btn btn-secondary"
+            disabled={importing}
+          >
+            Reset
+          </button>
+          <button
+            type="button"
+            onClick={handleImport}
+            className="btn btn-primary"
+            disabled={!result || result.issues.length > 0 || importing}
+          >
+            {importing ? 'Importing...' : 'Import Report'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SpreadsheetImportForm;
@@ -0,0 +1,153 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { latestChange, percentChange, TrendMetric, TrendPoint } from '@/lib/reportTrends';
+
+interface TrendDashboardProps {
+  libraryName: string;
+  series: TrendPoint[];
+}
+
+// Each chart on the page and the metrics plotted on it
+// tableLabel names the metric in the year-over-year table when the chart label is too short on its own
+const TREND_CHARTS: Array<{
+  title: string;
+  currency?: boolean;
+  lines: Array<{ metric: TrendMetric; label: string; tableLabel?: string; color: string }>;
+}> = [
+  { title: 'Annual Visits', lines: [{ metric: 'annualVisits', label: 'Visits', color: '#0088FE' }] },
+  { title: 'Registered Borrowers', lines: [{ metric: 'registeredBorrowers', label: 'Registered Borrowers', color: '#00C49F' }] },
+  {
+    title: 'Circulation',
+    lines: [
+      { metric: 'physicalItemCirculation', label: 'Physical', tableLabel: 'Physical Circulation', color: '#8884d8' },
+      { metric: 'eBookCirculation', label: 'eBook', tableLabel: 'eBook Circulation', color: '#FF8042' },
+      { metric: 'eAudioCirculation', label: 'eAudio', tableLabel: 'eAudio Circulation', color: '#FFBB28' }
+    ]
+  },
+  {
+    title: 'Revenue and Expenses',
+    currency: true,
+    lines: [
+      { metric: 'totalRevenue', label: 'Revenue', color: '#82ca9d' },
+      { metric: 'totalExpenses', label: 'Expenses', color: '#ff7300' }
+    ]
+  },
+  { title: 'Program Attendance', lines: [{ metric: 'programAttendance', label: 'Attendance', tableLabel: 'Program Attendance', color: '#ffc658' }] }
+];
+
+// Format number with commas
+const formatNumber = (num: number): string => {
+  return Math.round(num).toString().replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+};
+
+/**
+ * A small badge showing a percent change, green for growth and red for decline
+ */
+export const ChangeBadge: React.FC<{ change: number | null; label?: string }> = ({ change, label }) => {
+  if (change === null) {
+    return null;
+  }
+
+  const color = change > 0
+    ? 'bg-green-100 text-green-800'
+    : change < 0
+      ? 'bg-red-100 text-red-800'
+      : 'bg-gray-100 text-gray-800';
+
+  return (
+    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${color}`}>
+      {label ? `${label} ` : ''}{change > 0 ? '▲' : change < 0 ? '▼' : ''} {Math.abs(change).toFixed(1)}%
+    </span>
+  );
+};
+
+const TrendDashboard: React.FC<TrendDashboardProps> = ({ libraryName, series }) => {
+  const firstYear = series[0]?.year;
+  const lastYear = series[series.length - 1]?.year;
+
+  return (
+    <div className="flex flex-col gap-6 p-6 bg-gray-50 text-gray-800">
+      <header className="text-center">
+        <h1 className="text-3xl font-bold mb-2">{libraryName}</h1>
+        <h2 className="text-xl mb-4">
+          {firstYear === lastYear ? `${firstYear} Annual Report` : `Trends ${firstYear}–${lastYear}`}
+        </h2>
+        {series.length < 2 && (
+          <p className="text-gray-600">
+            Upload and complete reports for more years to see year-over-year changes.
+          </p>
+        )}
+      </header>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {TREND_CHARTS.map(chart => (
+          <div key={chart.title} className="bg-white p-4 rounded-lg shadow">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+              <h3 className="text-lg font-semibold">{chart.title}</h3>
+              <div className="flex flex-wrap gap-1">
+                {chart.lines.map(line => (
+                  <ChangeBadge
+                    key={line.metric}
+                    change={latestChange(series, line.metric)}
+                    label={chart.lines.length > 1 ? line.label : undefined}
+                  />
+                ))}
+              </div>
+            </div>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={series} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="year" />
+                  <YAxis tickFormatter={(value: number) => (chart.currency ? `$${formatNumber(value)}` : formatNumber(value))} />
+                  <Tooltip formatter={(value: number) => (chart.currency ? `$${formatNumber(value)}` : formatNumber(value))} />
+                  {chart.lines.length > 1 && <Legend />}
+                  {chart.lines.map(line => (
+                    <Line
+                      key={line.metric}
+                      type="monotone"
+                      dataKey={line.metric}
+                      name={line.label}
+                      stroke={line.color}
+                      strokeWidth={2}
+                      dot={{ r: 4 }}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white p-4 rounded-lg shadow overflow-x-auto">
+        <h3 className="text-lg font-semibold mb-4">Year over Year</h3>
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead>
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Metric</th>
+              {series.map(point => (
+                <th key={point.year} className="px-4 py-2 text-right font-medium text-gray-500">{point.year}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {TREND_CHARTS.flatMap(chart => chart.lines.map(line => ({ ...line, currency: chart.currency }))).map(line => (
+              <tr key={line.metric}>
+                <td className="px-4 py-2 font-medium">{line.tableLabel || line.label}</td>
+                {series.map((point, index) => (
+                  <td key={point.year} className="px-4 py-2 text-right whitespace-nowrap">
+                    <div>{point[line.metric] === null ? '–' : `${line.currency ? '$' : ''}${formatNumber(point[line.metric] as number)}`}</div>
+                    <ChangeBadge change={index > 0 ? percentChange(point[line.metric], series[index - 1][line.metric]) : null} />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default TrendDashboard;
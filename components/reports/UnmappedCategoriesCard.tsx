@@ -0,0 +1,66 @@
+import React from 'react';
+import { ARRAY_CATEGORIES, ArraySection, FIELD_LABELS, SECTION_LABELS } from '@/lib/reportFields';
+import type { UnmappedCategory } from '@/types/report';
+
+interface UnmappedCategoriesCardProps {
+  items: UnmappedCategory[];
+  disabled: boolean;
+  onMap: (index: number, categoryName: string) => void;
+  onIgnore: (index: number) => void;
+}
+
+// Value of the option that drops an item instead of adding it to a category
+const IGNORE_OPTION = '__ignore__';
+
+const UnmappedCategoriesCard: React.FC<UnmappedCategoriesCardProps> = ({ items, disabled, onMap, onIgnore }) => {
+  const formatValues = (values: Record<string, number>): string =>
+    Object.entries(values)
+      .map(([key, value]) => `${FIELD_LABELS[key] || key}: ${value.toLocaleString()}`)
+      .join(', ');
+
+  return (
+    <div className="card border border-yellow-300">
+      <h2 className="text-xl font-semibold mb-2">Unrecognized Categories</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        These line items did not match a standard category, or matched one another item already
+        filled, so they are not on the dashboard or in comparisons yet. Add each one to the category it belongs to, or ignore it if it is already
+        counted elsewhere, such as a subtotal.
+      </p>
+      <ul className="divide-y divide-gray-200">
+        {items.map((item, index) => {
+          const section = item.section as ArraySection;
+          return (
+            <li key={`${item.section}-${item.name}-${index}`} className="py-3 flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <p className="font-medium">{item.name}</p>
+                <p className="text-xs text-gray-500">
+                  {SECTION_LABELS[section] || item.section} · {formatValues(item.values)}
+                </p>
+                {item.duplicateOf && (
+                  <p className="text-xs text-yellow-700">
+                    Also matches {item.duplicateOf}, which the report already lists; add it only if it is not part of that figure
+                  </p>
+                )}
+              </div>
+              <select
+                className="form-input w-auto"
+                value=""
+                onChange={(e) => e.target.value === IGNORE_OPTION ? onIgnore(index) : onMap(index, e.target.value)}
+                disabled={disabled}
+                aria-label={`Category for ${item.name}`}
+              >
+                <option value="">Add to category...</option>
+                {(ARRAY_CATEGORIES[section] || []).map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+                <option value={IGNORE_OPTION}>Ignore this item</option>
+              </select>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default UnmappedCategoriesCard;
@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { collection, getDocs, orderBy, query } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import type { ReportVersion } from '@/types/report';
+
+interface VersionHistoryProps {
+  reportId: string;
+  currentVersionId: string | null;
+}
+
+/**
+ * Format a Firestore Timestamp or Date for display
+ */
+const formatDate = (value: any): string => {
+  const date = value?.toDate ? value.toDate() : value instanceof Date ? value : null;
+  return date ? date.toLocaleDateString() : 'Unknown date';
+};
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({ reportId, currentVersionId }) => {
+  const [versions, setVersions] = useState<ReportVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchVersions = async () => {
+      try {
+        setLoading(true);
+        const versionsSnapshot = await getDocs(
+          query(collection(db, 'reports', reportId, 'versions'), orderBy('versionNumber', 'desc'))
+        );
+        setVersions(versionsSnapshot.docs.map(versionDoc => ({ id: versionDoc.id, ...versionDoc.data() } as ReportVersion)));
+        setLoading(false);
+      } catch (err: any) {
+        console.error('Error fetching report versions:', err);
+        setError(err.message || 'Failed to load version history');
+        setLoading(false);
+      }
+    };
+
+    fetchVersions();
+  }, [reportId, currentVersionId]);
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow">
+      <h3 className="text-lg font-semibold mb-4">Version History</h3>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-600"></div>
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative">
+          {error}
+        </div>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead>
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Version</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Uploaded</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Source</th>
+              <th className="px-4 py-2 text-right font-medium text-gray-500"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {versions.map(version => (
+              <tr key={version.id}>
+                <td className="px-4 py-2">
+                  <span className="font-medium">Version {version.versionNumber}</span>
+                  {version.id === currentVersionId && (
+                    <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                      Current
+                    </span>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-gray-600">
+                  {formatDate(version.createdAt)}
+                  {version.uploadedByName && ` by ${version.uploadedByName}`}
+                </td>
+                <td className="px-4 py-2 text-gray-600">
+                  {version.source === 'import' ? `Spreadsheet${version.sourceFileName ? ` (${version.sourceFileName})` : ''}` : 'PDF'}
+                </td>
+                <td className="px-4 py-2 text-right whitespace-nowrap">
+                  {version.id !== currentVersionId && version.data && (
+                    <Link
+                      href={`/reports/${reportId}/versions/${version.id}`}
+                      className="text-primary-600 hover:text-primary-900 mr-4"
+                    >
+                      View &amp; Compare
+                    </Link>
+                  )}
+                  {version.pdfPath && (
+                    <a
+                      href={version.pdfPath}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-gray-600 hover:text-gray-900"
+                    >
+                      PDF
+                    </a>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default VersionHistory;
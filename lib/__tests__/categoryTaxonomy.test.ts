@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalCategoryName, normalizeReportCategories, resolveCategory } from '../categoryTaxonomy';
+import type { ReportData } from '@/types/report';
+
+describe('resolveCategory', () => {
+  it('matches names, synonyms and patterns regardless of case and punctuation', () => {
+    expect(resolveCategory('revenueData', 'Gifts and Endowments')?.id).toBe('revenue.gifts');
+    expect(resolveCategory('expenseData', 'SALARIES & WAGES')?.id).toBe('expense.staff');
+    expect(resolveCategory('revenueData', 'Town of Morristown')?.id).toBe('revenue.municipal');
+    expect(resolveCategory('revenueData', 'Bake Sale')).toBeNull();
+  });
+
+  it('resolves the same name to different categories by section', () => {
+    expect(resolveCategory('collectionData', 'Audio Materials')?.id).toBe('collection.audio');
+    expect(canonicalCategoryName('circulationData', 'Audio Materials')).toBe('Other Materials');
+  });
+});
+
+describe('normalizeReportCategories', () => {
+  it('renames items to their canonical category and tags them', () => {
+    const data: Partial<ReportData> = { revenueData: [{ name: 'Local Library Services Aid', value: 1200 }] };
+
+    const result = normalizeReportCategories(data);
+
+    expect(data.revenueData).toEqual([{ name: 'LLSA', value: 1200, categoryId: 'revenue.llsa' }]);
+    expect(result.renamed).toEqual([{ section: 'revenueData', from: 'Local Library Services Aid', to: 'LLSA' }]);
+    expect(result.unmapped).toEqual([]);
+  });
+
+  it('moves items that match no category to unmappedCategories', () => {
+    const data: Partial<ReportData> = { revenueData: [{ name: 'Bake Sale', value: 400 }] };
+
+    const result = normalizeReportCategories(data);
+
+    expect(data.revenueData).toEqual([]);
+    expect(data.unmappedCategories).toEqual([{ section: 'revenueData', name: 'Bake Sale', values: { value: 400 } }]);
+    expect(result.unmapped).toEqual(data.unmappedCategories);
+  });
+
+  it('keeps the first item of a category and sends the rest to review instead of adding them', () => {
+    // A subtotal followed by the line items it is made of
+    const data: Partial<ReportData> = {
+      expenseData: [
+        { name: 'Salaries and Benefits', value: 150000 },
+        { name: 'Salaries', value: 120000 },
+        { name: 'Employee Benefits', value: 30000 }
+      ]
+    };
+
+    normalizeReportCategories(data);
+
+    expect(data.expenseData).toEqual([{ name: 'Staff', value: 150000, categoryId: 'expense.staff' }]);
+    expect(data.unmappedCategories).toEqual([
+      { section: 'expenseData', name: 'Salaries', values: { value: 120000 }, duplicateOf: 'Staff' },
+      { section: 'expenseData', name: 'Employee Benefits', values: { value: 30000 }, duplicateOf: 'Staff' }
+    ]);
+  });
+
+  it('leaves malformed items for validation to report', () => {
+    const data = { programData: [{ sessions: 3 }] } as unknown as Partial<ReportData>;
+
+    normalizeReportCategories(data);
+
+    expect(data.programData).toEqual([{ sessions: 3 }]);
+    expect(data.unmappedCategories).toBeUndefined();
+  });
+});
@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ExtractedData, FIELD_MERGE_STRATEGIES, getMergeStrategy, mergeChunkResults } from '../chunkMerge';
+import type { ReportData } from '@/types/report';
+
+/**
+ * Build a chunk result with only the given overview figures
+ */
+function overview(values: Partial<ReportData['libraryOverview']>, sources: ExtractedData['sources'] = {}): ExtractedData {
+  return { libraryOverview: values as ReportData['libraryOverview'], sources };
+}
+
+describe('getMergeStrategy', () => {
+  it('uses the field strategy before the section strategy', () => {
+    expect(getMergeStrategy('libraryOverview.openHoursPerWeek')).toBe('max');
+    expect(getMergeStrategy('libraryOverview.annualVisits')).toBe('agree');
+    expect(getMergeStrategy('revenueData[LLSA].value')).toBe('agree');
+  });
+});
+
+describe('mergeChunkResults', () => {
+  afterEach(() => {
+    delete FIELD_MERGE_STRATEGIES['libraryOverview.annualVisits'];
+  });
+
+  it('keeps the fields each chunk found', () => {
+    const merged = mergeChunkResults([
+      overview({ populationServed: 12500 }),
+      overview({ annualVisits: 48000 })
+    ]);
+
+    expect(merged.libraryOverview).toEqual({ populationServed: 12500, annualVisits: 48000 });
+    expect(merged.mergeConflicts).toBeUndefined();
+  });
+
+  it('keeps the first value and records a conflict when chunks disagree', () => {
+    const merged = mergeChunkResults([
+      overview({ annualVisits: 48000 }, { 'libraryOverview.annualVisits': { page: 2, snippet: 'Visits 48,000' } }),
+      overview({ annualVisits: 48000 }),
+      overview({ annualVisits: 4800 }, { 'libraryOverview.annualVisits': { page: 9, snippet: 'Visits 4,800' } })
+    ]);
+
+    expect(merged.libraryOverview?.annualVisits).toBe(48000);
+    expect(merged.sources?.['libraryOverview.annualVisits']).toEqual({ page: 2, snippet: 'Visits 48,000' });
+    expect(merged.mergeConflicts).toEqual([
+      {
+        field: 'libraryOverview.annualVisits',
+        candidates: [
+          { chunk: 1, value: 48000, page: 2 },
+          { chunk: 2, value: 48000, page: null },
+          { chunk: 3, value: 4800, page: 9 }
+        ],
+        value: 48000
+      }
+    ]);
+  });
+
+  it('takes the largest value for max fields without a conflict', () => {
+    const merged = mergeChunkResults([
+      overview({ openHoursPerWeek: 38 }),
+      overview({ openHoursPerWeek: 45 }, { 'libraryOverview.openHoursPerWeek': { page: 3 } })
+    ]);
+
+    expect(merged.libraryOverview?.openHoursPerWeek).toBe(45);
+    expect(merged.sources?.['libraryOverview.openHoursPerWeek']).toEqual({ page: 3 });
+    expect(merged.mergeConflicts).toBeUndefined();
+  });
+
+  it('adds the parts up for sum fields', () => {
+    FIELD_MERGE_STRATEGIES['libraryOverview.annualVisits'] = 'sum';
+
+    const merged = mergeChunkResults([overview({ annualVisits: 30000 }), overview({ annualVisits: 18000 })]);
+
+    expect(merged.libraryOverview?.annualVisits).toBe(48000);
+    expect(merged.mergeConflicts).toBeUndefined();
+  });
+
+  it('keeps a repeated unrecognized item once and differing ones separately', () => {
+    const item = { section: 'revenueData', name: 'Book Sale', values: { value: 900 } };
+    const merged = mergeChunkResults([
+      { unmappedCategories: [item] },
+      { unmappedCategories: [{ ...item }, { ...item, values: { value: 950 } }] }
+    ]);
+
+    expect(merged.unmappedCategories).toEqual([item, { ...item, values: { value: 950 } }]);
+  });
+});
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { chunkPages, describeChunk, ESTIMATE_SAFETY_MARGIN, estimateTokens, findPageParts } from '../pdfChunking';
+
+/**
+ * Build a page of words, starting with a part heading if one is given
+ */
+function page(words: number, part?: number): string {
+  return `${part ? `PART ${part} - SECTION\n` : ''}${'circulation '.repeat(words)}`;
+}
+
+// Eight pages: a cover letter, then two pages each of parts 1 to 3 and one of part 4
+const PAGES = [page(100), page(100, 1), page(100), page(100, 2), page(100), page(100, 3), page(100), page(100, 4)];
+
+describe('findPageParts', () => {
+  it('assigns each page the part of the nearest heading before it', () => {
+    expect(findPageParts(PAGES)).toEqual([null, 1, 1, 2, 2, 3, 3, 4]);
+  });
+});
+
+describe('chunkPages', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps parts together and leaves the safety margin free when estimating', async () => {
+    // Room for three pages once the margin is taken off
+    const pageTokens = estimateTokens(`--- Page 2 ---\n${PAGES[1]}`);
+    const maxTokens = Math.ceil(pageTokens * 3 / ESTIMATE_SAFETY_MARGIN);
+    const chunks = await chunkPages(PAGES, { maxTokens });
+
+    expect(chunks.map(chunk => [chunk.firstPage, chunk.lastPage])).toEqual([[1, 3], [4, 5], [6, 8]]);
+    expect(chunks.every(chunk => chunk.tokensEstimated && chunk.tokens <= maxTokens * ESTIMATE_SAFETY_MARGIN)).toBe(true);
+    expect(describeChunk(chunks[2])).toBe('pages 6-8 (Part 3: Finance, Part 4: Programs)');
+    expect(chunks[0].text).toContain('--- Page 2 ---');
+  });
+
+  it('counts whole chunks with the tokenizer instead of every page', async () => {
+    const countTokens = vi.fn(async (text: string) => estimateTokens(text));
+
+    const chunks = await chunkPages(PAGES, { maxTokens: 100000, countTokens });
+
+    expect(countTokens).toHaveBeenCalledTimes(1);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ firstPage: 1, lastPage: 8, tokensEstimated: false });
+    expect(chunks[0].tokens).toBe(estimateTokens(chunks[0].text));
+  });
+
+  it('splits a chunk the estimate undercounted until every chunk fits', async () => {
+    // A tokenizer that finds three times the tokens the estimate expects
+    const countTokens = vi.fn(async (text: string) => estimateTokens(text) * 3);
+    const maxTokens = estimateTokens(PAGES.join('\n')) * 1.2;
+
+    const chunks = await chunkPages(PAGES, { maxTokens, countTokens });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => chunk.tokens <= maxTokens && !chunk.tokensEstimated)).toBe(true);
+    expect(chunks.map(chunk => chunk.firstPage)).toEqual([...chunks.map(chunk => chunk.firstPage)].sort((a, b) => a - b));
+    expect(chunks[chunks.length - 1].lastPage).toBe(PAGES.length);
+    expect(countTokens.mock.calls.length).toBeLessThan(PAGES.length + chunks.length);
+  });
+
+  it('falls back to the estimate with the safety margin when counting fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const maxTokens = 100000;
+
+    const chunks = await chunkPages(PAGES, {
+      maxTokens,
+      countTokens: async () => {
+        throw new Error('Network unreachable');
+      }
+    });
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].tokensEstimated).toBe(true);
+    expect(chunks[0].tokens).toBeLessThanOrEqual(maxTokens * ESTIMATE_SAFETY_MARGIN);
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
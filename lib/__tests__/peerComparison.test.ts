@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import mockExtraction from '../fixtures/mockExtraction.json';
+import { comparePeers, formatPercentile, selectPeers } from '../peerComparison';
+import type { ReportData } from '@/types/report';
+
+/**
+ * Build a library's report from the fixture, with its own population and expenses
+ */
+function library(name: string, populationServed: number, expenses: number): ReportData {
+  const base = mockExtraction as unknown as ReportData;
+  return {
+    ...base,
+    reportId: name,
+    libraryName: name,
+    year: 2024,
+    libraryOverview: { ...base.libraryOverview, populationServed },
+    expenseData: [{ name: 'Staff', value: expenses }]
+  };
+}
+
+/**
+ * Find one metric's comparison
+ */
+function comparisonFor(target: ReportData, peers: ReportData[], key: string) {
+  return comparePeers(target, peers, 'population').comparisons.find(entry => entry.metric.key === key)!;
+}
+
+describe('formatPercentile', () => {
+  it('uses the ordinal suffix of the rounded percentile', () => {
+    expect([1, 2, 3, 4, 11, 12, 13, 21, 22, 52.6, 100].map(formatPercentile)).toEqual([
+      '1st', '2nd', '3rd', '4th', '11th', '12th', '13th', '21st', '22nd', '53rd', '100th'
+    ]);
+  });
+});
+
+describe('selectPeers', () => {
+  it('picks the libraries closest in size on a log scale and skips those without a size', () => {
+    const target = library('Target', 1000, 50000);
+    const peers = selectPeers(target, [
+      library('Tenfold', 10000, 50000),
+      library('Double', 2000, 50000),
+      library('Half', 500, 50000),
+      library('Unknown', 0, 50000)
+    ], 'population');
+
+    expect(peers.map(peer => peer.libraryName)).toEqual(['Double', 'Half', 'Tenfold']);
+  });
+});
+
+describe('comparePeers', () => {
+  const peers = [library('A', 1000, 20000), library('B', 1000, 40000), library('C', 1000, 60000), library('D', 1000, 80000)];
+
+  it('places a library by the share of peers below it', () => {
+    const comparison = comparisonFor(library('Target', 1000, 100000), peers, 'expenditurePerCapita');
+
+    // Expenditure per capita is neutral, so the highest spender simply sits at the top
+    expect(comparison.value).toBe(100);
+    expect(comparison.peerMedian).toBe(50);
+    expect(comparison.percentile).toBe(100);
+    expect(comparison.quartile).toBe(4);
+  });
+
+  it('puts the lowest value in the favourable quartile for lower-is-better metrics', () => {
+    const cheapest = comparisonFor(library('Target', 1000, 10000), peers, 'costPerCirculation');
+    const dearest = comparisonFor(library('Target', 1000, 100000), peers, 'costPerCirculation');
+
+    expect(cheapest.percentile).toBe(100);
+    expect(cheapest.quartile).toBe(4);
+    expect(dearest.percentile).toBe(0);
+    expect(dearest.quartile).toBe(1);
+  });
+
+  it('counts ties as half below', () => {
+    const comparison = comparisonFor(library('Target', 1000, 40000), peers, 'costPerCirculation');
+
+    expect(comparison.percentile).toBe(62.5);
+    expect(comparison.quartile).toBe(3);
+  });
+
+  it('leaves a metric unranked when the library did not report its inputs', () => {
+    const target = { ...library('Target', 1000, 40000), expenseData: [] };
+
+    const comparison = comparisonFor(target, peers, 'costPerCirculation');
+
+    expect(comparison.value).toBeNull();
+    expect(comparison.percentile).toBeNull();
+    expect(comparison.quartile).toBeNull();
+    expect(comparison.peerMedian).not.toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import mockExtraction from '../fixtures/mockExtraction.json';
+import { loadPublicReport } from '../publicReports';
+
+// An in-memory stand-in for Firestore, keyed by document path
+const documents = new Map<string, Record<string, unknown>>();
+
+vi.mock('../firebase', () => ({ db: {} }));
+
+vi.mock('../apiAuth', () => ({ signInServiceAccount: vi.fn(async () => undefined) }));
+
+vi.mock('firebase/firestore', () => ({
+  doc: (_db: unknown, ...segments: string[]) => ({ path: segments.join('/') }),
+  getDoc: async (ref: { path: string }) => ({
+    id: ref.path.split('/').pop(),
+    exists: () => documents.has(ref.path),
+    data: () => documents.get(ref.path)
+  })
+}));
+
+const TOKEN = 'a1'.repeat(24);
+
+describe('loadPublicReport', () => {
+  beforeEach(() => {
+    documents.clear();
+    documents.set(`publicLinks/${TOKEN}`, { reportId: 'report-1', expiresAt: null, revokedAt: null });
+    documents.set('reports/report-1', { title: '2024 Annual Report', year: 2024, status: 'Completed', sharingScope: 'public' });
+    documents.set('reportData/report-1', {
+      ...mockExtraction,
+      libraryName: 'Sample Free Library',
+      provenance: { 'libraryOverview.annualVisits': { method: 'llm', page: 2, snippet: 'Visits', confidence: 0.8 } },
+      corrections: {},
+      ocrPages: []
+    });
+  });
+
+  it('publishes the dashboard data of a completed public report and nothing private', async () => {
+    const report = await loadPublicReport(TOKEN);
+
+    expect(report).toMatchObject({ token: TOKEN, title: '2024 Annual Report' });
+    expect(report!.data).toMatchObject({ reportId: 'report-1', libraryName: 'Sample Free Library', year: 2024 });
+    expect(report!.data.libraryOverview).toEqual(mockExtraction.libraryOverview);
+    expect(report!.data).not.toHaveProperty('provenance');
+    expect(report!.data).not.toHaveProperty('corrections');
+    expect(report!.data).not.toHaveProperty('ocrPages');
+  });
+
+  it('rejects tokens that are not 48 hex characters without reading anything', async () => {
+    const { signInServiceAccount } = await import('../apiAuth');
+    vi.mocked(signInServiceAccount).mockClear();
+    documents.set('publicLinks/not-a-token', { reportId: 'report-1' });
+
+    expect(await loadPublicReport('not-a-token')).toBeNull();
+    expect(await loadPublicReport(TOKEN.toUpperCase())).toBeNull();
+    expect(signInServiceAccount).not.toHaveBeenCalled();
+  });
+
+  it('does not open a link that is unknown, revoked or expired', async () => {
+    expect(await loadPublicReport('b2'.repeat(24))).toBeNull();
+
+    documents.set(`publicLinks/${TOKEN}`, { reportId: 'report-1', revokedAt: new Date() });
+    expect(await loadPublicReport(TOKEN)).toBeNull();
+
+    documents.set(`publicLinks/${TOKEN}`, { reportId: 'report-1', expiresAt: new Date(Date.now() - 1000) });
+    expect(await loadPublicReport(TOKEN)).toBeNull();
+  });
+
+  it('stops publishing once the report is no longer public or is back under review', async () => {
+    documents.set('reports/report-1', { ...documents.get('reports/report-1'), sharingScope: 'system' });
+    expect(await loadPublicReport(TOKEN)).toBeNull();
+
+    documents.set('reports/report-1', { ...documents.get('reports/report-1'), sharingScope: 'public', status: 'Review' });
+    expect(await loadPublicReport(TOKEN)).toBeNull();
+  });
+});
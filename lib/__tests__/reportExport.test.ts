@@ -0,0 +1,83 @@
+import ExcelJS from 'exceljs';
+import { describe, expect, it } from 'vitest';
+import mockExtraction from '../fixtures/mockExtraction.json';
+import { buildExportCsv, buildExportSheets, sheetsToXlsx } from '../reportExport';
+import type { ReportData } from '@/types/report';
+
+const REPORT = {
+  ...(mockExtraction as unknown as ReportData),
+  reportId: 'report-1',
+  libraryName: 'Sample Free Library',
+  year: 2024,
+  libraryOverview: { ...mockExtraction.libraryOverview, openHoursPerWeek: 37.5 }
+} as ReportData;
+
+/**
+ * Write the sheets to a workbook and read it back the way Excel would open it
+ */
+async function readWorkbook(reports: ReportData[]): Promise<ExcelJS.Workbook> {
+  const workbook = new ExcelJS.Workbook();
+  const file = await sheetsToXlsx(buildExportSheets(reports));
+  await workbook.xlsx.load(file as unknown as ExcelJS.Buffer);
+  return workbook;
+}
+
+/**
+ * Find the row of an overview field in a single report's key/value sheet
+ */
+function overviewRow(sheet: ExcelJS.Worksheet, field: string): ExcelJS.Row {
+  let match: ExcelJS.Row | undefined;
+  sheet.eachRow(row => {
+    if (row.getCell(2).value === field) match = row;
+  });
+  return match!;
+}
+
+describe('sheetsToXlsx', () => {
+  it('formats counts with a thousands separator and keeps the year and decimals as they are', async () => {
+    const sheet = (await readWorkbook([REPORT])).getWorksheet('Overview')!;
+
+    const year = overviewRow(sheet, 'Year').getCell(3);
+    expect(year.value).toBe(2024);
+    expect(year.numFmt).toBeFalsy();
+
+    const visits = overviewRow(sheet, 'Annual Visits').getCell(3);
+    expect(visits.value).toBe(mockExtraction.libraryOverview.annualVisits);
+    expect(visits.numFmt).toBe('#,##0');
+
+    const hours = overviewRow(sheet, 'Open Hours Per Week').getCell(3);
+    expect(hours.value).toBe(37.5);
+    expect(hours.numFmt).toBe('#,##0.##');
+  });
+
+  it('adds a library column and one row per library for bulk exports', async () => {
+    const other = { ...REPORT, libraryName: 'Other Library' };
+    const sheet = (await readWorkbook([REPORT, other])).getWorksheet('Overview')!;
+
+    expect(sheet.getRow(1).getCell(1).value).toBe('Library');
+    expect(sheet.getRow(3).getCell(1).value).toBe('Other Library');
+    expect(sheet.getRow(3).getCell(2).value).toBe(2024);
+    expect(sheet.getRow(3).getCell(2).numFmt).toBeFalsy();
+  });
+});
+
+describe('buildExportCsv', () => {
+  it('writes one value per row with a byte order mark', () => {
+    const csv = buildExportCsv([REPORT]);
+
+    expect(csv.startsWith('\uFEFFSection,Category,Field,Value\r\n')).toBe(true);
+    expect(csv).toContain(`Library Overview,,Annual Visits,${mockExtraction.libraryOverview.annualVisits}\r\n`);
+    expect(csv).toContain('Library Overview,,Open Hours Per Week,37.5\r\n');
+  });
+
+  it('quotes commas and defuses text a spreadsheet would run as a formula', () => {
+    const csv = buildExportCsv([{
+      ...REPORT,
+      libraryName: 'Smith, Jones & Co',
+      keyFindings: { strengths: ['=HYPERLINK("http://example.com")'], areasForDevelopment: [] }
+    }]);
+
+    expect(csv).toContain('Report,,Library,"Smith, Jones & Co"\r\n');
+    expect(csv).toContain(`Key Findings,Strength,Finding,"'=HYPERLINK(""http://example.com"")"\r\n`);
+  });
+});
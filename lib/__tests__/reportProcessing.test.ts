@@ -0,0 +1,136 @@
+import PDFDocument from 'pdfkit';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import mockExtraction from '../fixtures/mockExtraction.json';
+import { processReportWithAI } from '../reportProcessing';
+import type { ProcessingProgress, ReportData } from '@/types/report';
+
+// An in-memory stand-in for Firestore, keyed by document path
+const documents = new Map<string, Record<string, unknown>>();
+
+vi.mock('../firebase', () => ({ db: {} }));
+
+vi.mock('firebase/firestore', () => ({
+  doc: (_db: unknown, ...segments: string[]) => ({ path: segments.join('/') }),
+  getDoc: async (ref: { path: string }) => ({
+    exists: () => documents.has(ref.path),
+    data: () => documents.get(ref.path)
+  }),
+  setDoc: async (ref: { path: string }, data: Record<string, unknown>) => {
+    documents.set(ref.path, data);
+  },
+  updateDoc: async (ref: { path: string }, data: Record<string, unknown>) => {
+    if (!documents.has(ref.path)) throw new Error(`No document at ${ref.path}`);
+    documents.set(ref.path, { ...documents.get(ref.path), ...data });
+  }
+}));
+
+/**
+ * Render pages of text into a PDF, the way a library's annual report arrives
+ */
+function renderPdf(pages: string[][]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const pdf = new PDFDocument({ autoFirstPage: false });
+    const chunks: Buffer[] = [];
+    pdf.on('data', chunk => chunks.push(chunk));
+    pdf.on('end', () => resolve(Buffer.concat(chunks)));
+    pdf.on('error', reject);
+    for (const lines of pages) {
+      pdf.addPage();
+      for (const line of lines) {
+        pdf.text(line);
+      }
+    }
+    pdf.end();
+  });
+}
+
+describe('processReportWithAI', () => {
+  beforeEach(async () => {
+    documents.clear();
+    documents.set('reports/report-1', {
+      libraryId: 'library-1',
+      year: 2024,
+      pdfPath: 'https://example.com/report.pdf',
+      status: 'Processing'
+    });
+    documents.set('libraries/library-1', { name: 'Sample Free Library' });
+
+    const pdf = await renderPdf([
+      [
+        'PART 1 - GENERAL INFORMATION',
+        'Population of the chartered service area 12,500',
+        'Number of registered borrowers 3,210',
+        'This page describes the library, its board of trustees and its service area.'
+      ],
+      [
+        'PART 2 - COLLECTION AND LIBRARY USE',
+        'Total print materials 18,400',
+        'These figures count the physical items held at the end of the reporting year.'
+      ]
+    ]);
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array(pdf))));
+    vi.stubEnv('EXTRACTION_PROVIDER', 'mock');
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('stores the parser values and fills the rest from the extraction provider', async () => {
+    await processReportWithAI('report-1');
+
+    const data = documents.get('reportData/report-1') as unknown as ReportData;
+    expect(data.libraryName).toBe('Sample Free Library');
+
+    // Values printed in the report are read by the parser and win over the provider's
+    expect(data.libraryOverview.populationServed).toBe(12500);
+    expect(data.libraryOverview.registeredBorrowers).toBe(3210);
+    expect(data.collectionOverview.printMaterials).toBe(18400);
+    expect(data.provenance!['libraryOverview.populationServed']).toMatchObject({ method: 'parser', page: 1 });
+    expect(data.provenance!['collectionOverview.printMaterials']).toMatchObject({ method: 'parser', page: 2 });
+
+    // Everything else comes from the mock provider's fixture
+    expect(data.libraryOverview.annualVisits).toBe(mockExtraction.libraryOverview.annualVisits);
+    expect(data.provenance!['libraryOverview.annualVisits'].method).toBe('llm');
+    expect(data.revenueData).toEqual(
+      mockExtraction.revenueData.map(item => expect.objectContaining({ name: item.name, value: item.value }))
+    );
+    expect(data.keyFindings).toEqual(mockExtraction.keyFindings);
+    expect(data.unmappedCategories).toEqual([]);
+    expect(data.mergeConflicts).toEqual([]);
+
+    const report = documents.get('reports/report-1') as { status: string; progress: ProcessingProgress };
+    expect(report.status).toBe('Review');
+    expect(report.progress.stage).toBe('done');
+  });
+
+  it('keeps a reviewer correction when the report is processed again', async () => {
+    documents.set('reportData/report-1', {
+      corrections: {
+        'libraryOverview.annualVisits': {
+          value: 5000,
+          previousValue: mockExtraction.libraryOverview.annualVisits,
+          editedBy: 'user-1',
+          editedByName: 'Sam Reviewer',
+          editedAt: new Date()
+        }
+      }
+    });
+
+    await processReportWithAI('report-1');
+
+    const data = documents.get('reportData/report-1') as unknown as ReportData;
+    expect(data.libraryOverview.annualVisits).toBe(5000);
+    expect(data.provenance!['libraryOverview.annualVisits'].method).toBe('manual');
+  });
+
+  it('fails without storing data when the report does not exist', async () => {
+    documents.delete('reports/report-1');
+
+    await expect(processReportWithAI('report-1')).rejects.toThrow();
+    expect(documents.has('reportData/report-1')).toBe(false);
+  });
+});
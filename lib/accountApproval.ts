@@ -0,0 +1,46 @@
+import type { UserProfile } from '@/types/user';
+
+// Domains shared by many libraries or by the public, so a match says nothing about who registered
+const SHARED_EMAIL_DOMAINS = ['ncls.org', 'gmail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'aol.com', 'icloud.com'];
+
+// How well a registrant's email matches the email on file for their library
+export type LibraryEmailMatch = 'address' | 'domain' | 'none' | 'unknown';
+
+/**
+ * Check whether a user may use the app
+ * Profiles without an approval status predate the approval queue and stay approved.
+ */
+export function isApproved(profile: Pick<UserProfile, 'approvalStatus'> | null | undefined): boolean {
+  return !!profile && (profile.approvalStatus ?? 'approved') === 'approved';
+}
+
+/**
+ * Get the domain of an email address, lower-cased
+ */
+function emailDomain(email: string): string {
+  return email.trim().toLowerCase().split('@')[1] || '';
+}
+
+/**
+ * Compare a registrant's email with the email listed for the library they chose
+ * This is only a hint for the admin approving the account: most libraries use shared
+ * ncls.org mailboxes, so a domain match only counts for a library's own domain.
+ * @param registrantEmail The email the user registered with
+ * @param libraryEmail The library's email from the member library list
+ * @returns 'address' for the same mailbox, 'domain' for the library's own domain,
+ * 'none' if neither matches, or 'unknown' if the library has no email on file
+ */
+export function matchLibraryEmail(registrantEmail: string, libraryEmail: string | undefined): LibraryEmailMatch {
+  if (!libraryEmail || !libraryEmail.includes('@')) return 'unknown';
+
+  if (registrantEmail.trim().toLowerCase() === libraryEmail.trim().toLowerCase()) {
+    return 'address';
+  }
+
+  const domain = emailDomain(libraryEmail);
+  if (domain && !SHARED_EMAIL_DOMAINS.includes(domain) && emailDomain(registrantEmail) === domain) {
+    return 'domain';
+  }
+
+  return 'none';
+}
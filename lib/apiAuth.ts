@@ -0,0 +1,106 @@
+import type { NextApiRequest } from 'next';
+import { signInWithEmailAndPassword } from 'firebase/auth';
+import { doc, getDoc } from 'firebase/firestore';
+import { auth, db } from './firebase';
+import { isApproved } from './accountApproval';
+import { getLibraryIds } from './roles';
+
+// The signed-in user making an API request
+export interface RequestUser {
+  uid: string;
+  email: string | null;
+  name: string;
+  role: string | null;
+  libraryId: string | null;
+  libraryIds: string[];
+}
+
+/**
+ * Thrown when an API request is missing valid credentials
+ */
+export class ApiAuthError extends Error {
+  status: number;
+
+  constructor(message: string, status = 401) {
+    super(message);
+    this.name = 'ApiAuthError';
+    this.status = status;
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, ApiAuthError.prototype);
+  }
+}
+
+/**
+ * Sign the server in as the processing service account
+ * API routes use the same Firebase SDK as the browser, so they need a signed-in
+ * user with the admin role to get past the Firestore rules.
+ */
+export async function signInServiceAccount(): Promise<void> {
+  const email = process.env.PROCESSING_SERVICE_EMAIL;
+  const password = process.env.PROCESSING_SERVICE_PASSWORD;
+
+  if (!email || !password) {
+    throw new Error('Processing service account credentials not found');
+  }
+
+  if (auth.currentUser?.email === email) {
+    return;
+  }
+
+  await signInWithEmailAndPassword(auth, email, password);
+}
+
+/**
+ * Identify the user making an API request from the Firebase ID token in its
+ * Authorization header
+ * @param req The incoming request
+ * @returns The user and their profile
+ * @throws ApiAuthError if the token is missing or invalid, or the account has not been approved
+ */
+export async function getRequestUser(req: NextApiRequest): Promise<RequestUser> {
+  const header = req.headers.authorization || '';
+  const match = header.match(/^Bearer (.+)$/);
+  if (!match) {
+    throw new ApiAuthError('Missing authorization token');
+  }
+
+  // The client SDK cannot verify ID tokens itself, so ask the Identity Toolkit who the token belongs to
+  const response = await fetch(
+    `https://identitytoolkit.googleapis.com/v1/accounts:lookup?key=${process.env.NEXT_PUBLIC_FIREBASE_API_KEY}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ idToken: match[1] })
+    }
+  );
+
+  if (!response.ok) {
+    throw new ApiAuthError('Invalid or expired authorization token');
+  }
+
+  const data = await response.json();
+  const account = data.users?.[0];
+  if (!account?.localId) {
+    throw new ApiAuthError('Invalid or expired authorization token');
+  }
+
+  await signInServiceAccount();
+  const userDoc = await getDoc(doc(db, 'users', account.localId));
+  if (!userDoc.exists()) {
+    throw new ApiAuthError('User profile not found', 403);
+  }
+
+  const profile = userDoc.data();
+  if (!isApproved(profile)) {
+    throw new ApiAuthError('Your account is awaiting approval', 403);
+  }
+
+  return {
+    uid: account.localId,
+    email: account.email || null,
+    name: [profile.firstName, profile.lastName].filter(Boolean).join(' '),
+    role: profile.role || null,
+    libraryId: profile.libraryId || null,
+    libraryIds: getLibraryIds({ libraryId: profile.libraryId, libraryIds: profile.libraryIds })
+  };
+}
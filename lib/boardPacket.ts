@@ -0,0 +1,328 @@
+import PDFDocument from 'pdfkit';
+import type { ProgramItem, ReportData, ValueItem } from '@/types/report';
+import { computeReportMetrics, formatMetricValue, REPORT_METRICS, totalExpenses, totalRevenue } from './reportMetrics';
+
+// Letter size in points, with half-inch margins
+const PAGE_MARGIN = 36;
+const HEADER_HEIGHT = 64;
+const FOOTER_HEIGHT = 24;
+
+// The dashboard's chart colors, so the paper copy matches the screen
+const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#82ca9d', '#ffc658'];
+const BRAND_COLOR = '#0369a1';
+const TEXT_COLOR = '#1f2937';
+const MUTED_COLOR = '#6b7280';
+const RULE_COLOR = '#e5e7eb';
+
+type Doc = PDFKit.PDFDocument;
+
+/**
+ * Format number with commas
+ */
+function formatNumber(num: number): string {
+  return Math.round(num || 0).toString().replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+}
+
+/**
+ * Start a new page if fewer than `height` points are left above the footer
+ */
+function ensureSpace(doc: Doc, height: number): void {
+  if (doc.y + height > doc.page.height - PAGE_MARGIN - FOOTER_HEIGHT) {
+    doc.addPage();
+  }
+}
+
+/**
+ * Draw the NCLS banner across the top of a page
+ */
+function drawHeader(doc: Doc, data: ReportData): void {
+  const width = doc.page.width;
+  doc.save();
+  doc.rect(0, 0, width, HEADER_HEIGHT).fill(BRAND_COLOR);
+  doc.fillColor('#ffffff').font('Helvetica-Bold').fontSize(16)
+    .text('North Country Library System', PAGE_MARGIN, 18, { width: width - PAGE_MARGIN * 2, lineBreak: false });
+  doc.font('Helvetica').fontSize(10)
+    .text(`${data.libraryName} · ${data.year} Annual Report`, PAGE_MARGIN, 40, {
+      width: width - PAGE_MARGIN * 2,
+      lineBreak: false
+    });
+  doc.restore();
+  doc.x = PAGE_MARGIN;
+  doc.y = HEADER_HEIGHT + 20;
+}
+
+/**
+ * Write the generation date and page numbers at the bottom of every page
+ * Must run after all content is laid out, on a document created with bufferPages.
+ */
+function drawFooters(doc: Doc, generatedAt: Date): void {
+  const range = doc.bufferedPageRange();
+  for (let index = range.start; index < range.start + range.count; index++) {
+    doc.switchToPage(index);
+    const bottomMargin = doc.page.margins.bottom;
+    // Writing below the bottom margin would otherwise start a new page
+    doc.page.margins.bottom = 0;
+    const y = doc.page.height - PAGE_MARGIN;
+    const width = doc.page.width - PAGE_MARGIN * 2;
+    doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(8);
+    doc.text(`Generated ${generatedAt.toLocaleDateString('en-US')} by the NCLS Annual Report Dashboard`, PAGE_MARGIN, y, {
+      width,
+      align: 'left',
+      lineBreak: false
+    });
+    doc.text(`Page ${index - range.start + 1} of ${range.count}`, PAGE_MARGIN, y, {
+      width,
+      align: 'right',
+      lineBreak: false
+    });
+    doc.page.margins.bottom = bottomMargin;
+  }
+}
+
+/**
+ * Write a section heading with a rule underneath
+ */
+function drawSectionTitle(doc: Doc, title: string): void {
+  // Leave room for the start of the section too, so a heading never ends a page
+  ensureSpace(doc, 120);
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  doc.fillColor(BRAND_COLOR).font('Helvetica-Bold').fontSize(13).text(title, PAGE_MARGIN, doc.y, { width });
+  const ruleY = doc.y + 2;
+  doc.moveTo(PAGE_MARGIN, ruleY).lineTo(PAGE_MARGIN + width, ruleY).lineWidth(1).strokeColor(RULE_COLOR).stroke();
+  doc.y = ruleY + 8;
+}
+
+/**
+ * Draw the three overview boxes: library, collection and usage figures
+ */
+function drawOverview(doc: Doc, data: ReportData): void {
+  const columns: { title: string; rows: [string, string][] }[] = [
+    {
+      title: 'Library Overview',
+      rows: [
+        ['Population Served', formatNumber(data.libraryOverview.populationServed)],
+        ['Annual Visits', formatNumber(data.libraryOverview.annualVisits)],
+        ['Registered Borrowers', formatNumber(data.libraryOverview.registeredBorrowers)],
+        ['Open Hours Per Week', formatNumber(data.libraryOverview.openHoursPerWeek)]
+      ]
+    },
+    {
+      title: 'Collection Size',
+      rows: [
+        ['Total Items', formatNumber(data.collectionOverview.totalItems)],
+        ['Print Materials', formatNumber(data.collectionOverview.printMaterials)],
+        ['Physical Audio/Video', formatNumber(data.collectionOverview.physicalAudioVideo)],
+        ['Other Physical Items', formatNumber(data.collectionOverview.otherPhysicalItems)]
+      ]
+    },
+    {
+      title: 'Usage Statistics',
+      rows: [
+        ['Physical Circulation', formatNumber(data.usageStatistics.physicalItemCirculation)],
+        ['E-Book Circulation', formatNumber(data.usageStatistics.eBookCirculation)],
+        ['E-Audio Circulation', formatNumber(data.usageStatistics.eAudioCirculation)],
+        ['Reference Transactions', formatNumber(data.usageStatistics.referenceTransactions)]
+      ]
+    }
+  ];
+
+  const gap = 12;
+  const width = (doc.page.width - PAGE_MARGIN * 2 - gap * 2) / 3;
+  const boxHeight = 96;
+  ensureSpace(doc, boxHeight);
+  const top = doc.y;
+
+  columns.forEach((column, index) => {
+    const x = PAGE_MARGIN + index * (width + gap);
+    doc.roundedRect(x, top, width, boxHeight, 4).lineWidth(1).strokeColor(RULE_COLOR).stroke();
+    doc.fillColor(TEXT_COLOR).font('Helvetica-Bold').fontSize(10).text(column.title, x + 8, top + 8, { width: width - 16 });
+    column.rows.forEach(([label, value], row) => {
+      const y = top + 26 + row * 16;
+      doc.font('Helvetica').fontSize(9).fillColor(MUTED_COLOR).text(label, x + 8, y, { width: width - 16, lineBreak: false });
+      doc.fillColor(TEXT_COLOR).text(value, x + 8, y, { width: width - 16, align: 'right', lineBreak: false });
+    });
+  });
+
+  doc.x = PAGE_MARGIN;
+  doc.y = top + boxHeight + 16;
+}
+
+/**
+ * Draw the KPI tiles, five to a row
+ */
+function drawKpis(doc: Doc, data: ReportData): void {
+  const metrics = computeReportMetrics(data);
+  const perRow = 5;
+  const gap = 8;
+  const width = (doc.page.width - PAGE_MARGIN * 2 - gap * (perRow - 1)) / perRow;
+  const tileHeight = 56;
+
+  for (let start = 0; start < REPORT_METRICS.length; start += perRow) {
+    ensureSpace(doc, tileHeight + gap);
+    const top = doc.y;
+    REPORT_METRICS.slice(start, start + perRow).forEach((metric, index) => {
+      const x = PAGE_MARGIN + index * (width + gap);
+      doc.rect(x, top, width, tileHeight).fill('#f0f9ff');
+      doc.fillColor(BRAND_COLOR).font('Helvetica-Bold').fontSize(14)
+        .text(formatMetricValue(metric, metrics[metric.key]), x + 4, top + 10, { width: width - 8, align: 'center' });
+      doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(8)
+        .text(metric.label, x + 4, top + 32, { width: width - 8, align: 'center' });
+    });
+    doc.y = top + tileHeight + gap;
+  }
+
+  doc.x = PAGE_MARGIN;
+  doc.y += 8;
+}
+
+/**
+ * Draw a horizontal bar chart with the value at the end of each bar
+ * @param doc The document
+ * @param title The chart title
+ * @param items The bars; items without a positive value are left out
+ * @param prefix Put in front of every value, e.g. '$'
+ */
+function drawBarChart(doc: Doc, title: string, items: ValueItem[], prefix = ''): void {
+  const bars = items.filter(item => item.value > 0);
+  const barHeight = 14;
+  const barGap = 6;
+  const labelWidth = 150;
+  const valueWidth = 80;
+  const chartWidth = doc.page.width - PAGE_MARGIN * 2;
+  const barAreaWidth = chartWidth - labelWidth - valueWidth;
+
+  ensureSpace(doc, 24 + Math.max(bars.length, 1) * (barHeight + barGap));
+  doc.fillColor(TEXT_COLOR).font('Helvetica-Bold').fontSize(11).text(title, PAGE_MARGIN, doc.y, { width: chartWidth });
+  doc.y += 6;
+
+  if (bars.length === 0) {
+    doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(9).text('No data reported.', PAGE_MARGIN, doc.y);
+    doc.y += 14;
+    return;
+  }
+
+  const max = Math.max(...bars.map(item => item.value));
+  bars.forEach((item, index) => {
+    const y = doc.y;
+    doc.fillColor(TEXT_COLOR).font('Helvetica').fontSize(9)
+      .text(item.name, PAGE_MARGIN, y + 3, { width: labelWidth - 8, lineBreak: false, ellipsis: true });
+    const barWidth = Math.max(1, (item.value / max) * barAreaWidth);
+    doc.rect(PAGE_MARGIN + labelWidth, y, barWidth, barHeight).fill(COLORS[index % COLORS.length]);
+    doc.fillColor(TEXT_COLOR)
+      .text(`${prefix}${formatNumber(item.value)}`, PAGE_MARGIN + labelWidth + barWidth + 6, y + 3, {
+        width: valueWidth,
+        lineBreak: false
+      });
+    doc.y = y + barHeight + barGap;
+  });
+
+  doc.x = PAGE_MARGIN;
+  doc.y += 10;
+}
+
+/**
+ * Turn program rows into bars of attendance, labelled with the number of sessions
+ */
+function attendanceBars(items: ProgramItem[]): ValueItem[] {
+  return items.map(item => ({
+    name: `${item.name} (${formatNumber(item.sessions)} sessions)`,
+    value: item.attendance
+  }));
+}
+
+/**
+ * Write a bulleted list under a small heading
+ */
+function drawBulletList(doc: Doc, title: string, entries: string[]): void {
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  ensureSpace(doc, 40);
+  doc.fillColor(TEXT_COLOR).font('Helvetica-Bold').fontSize(11).text(title, PAGE_MARGIN, doc.y, { width });
+  doc.y += 4;
+  doc.font('Helvetica').fontSize(10);
+
+  if (entries.length === 0) {
+    doc.fillColor(MUTED_COLOR).text('None recorded.', PAGE_MARGIN, doc.y, { width });
+  }
+  for (const entry of entries) {
+    ensureSpace(doc, doc.heightOfString(entry, { width: width - 14 }) + 4);
+    const y = doc.y;
+    doc.fillColor(BRAND_COLOR).text('•', PAGE_MARGIN, y, { lineBreak: false });
+    doc.fillColor(TEXT_COLOR).text(entry, PAGE_MARGIN + 14, y, { width: width - 14 });
+    doc.y += 4;
+  }
+
+  doc.x = PAGE_MARGIN;
+  doc.y += 8;
+}
+
+/**
+ * Render a report's dashboard as a printable PDF for the library board
+ * Charts are drawn as bar charts with their values printed, so the packet reads
+ * well in black and white.
+ * @param data The report data
+ * @param generatedAt The date printed in the footer
+ * @returns The PDF file contents
+ */
+export function renderBoardPacket(data: ReportData, generatedAt = new Date()): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'LETTER',
+      // Keep text that flows onto a new page clear of the banner and the footer
+      margins: {
+        top: HEADER_HEIGHT + 20,
+        bottom: PAGE_MARGIN + FOOTER_HEIGHT,
+        left: PAGE_MARGIN,
+        right: PAGE_MARGIN
+      },
+      bufferPages: true,
+      info: {
+        Title: `${data.libraryName} ${data.year} Annual Report`,
+        Author: 'North Country Library System'
+      }
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    // Every page, including ones started by a page break, gets the banner
+    doc.on('pageAdded', () => drawHeader(doc, data));
+    drawHeader(doc, data);
+
+    doc.fillColor(TEXT_COLOR).font('Helvetica-Bold').fontSize(22)
+      .text(data.libraryName, PAGE_MARGIN, doc.y, { align: 'center' });
+    doc.font('Helvetica').fontSize(14).fillColor(MUTED_COLOR)
+      .text(`${data.year} Annual Report Analysis`, { align: 'center' });
+    doc.y += 16;
+
+    drawOverview(doc, data);
+
+    drawSectionTitle(doc, 'Key Performance Indicators');
+    drawKpis(doc, data);
+
+    drawSectionTitle(doc, 'Collection and Circulation');
+    drawBarChart(doc, 'Collection Breakdown', data.collectionData || []);
+    drawBarChart(doc, 'Circulation by Material Type', data.circulationData || []);
+
+    drawSectionTitle(doc, 'Finances');
+    drawBarChart(doc, `Revenue Sources - $${formatNumber(totalRevenue(data) ?? 0)}`, data.revenueData || [], '$');
+    drawBarChart(doc, `Expenditures - $${formatNumber(totalExpenses(data) ?? 0)}`, data.expenseData || [], '$');
+
+    drawSectionTitle(doc, 'Programs');
+    drawBarChart(doc, 'Program Attendance by Age Group', attendanceBars(data.programData || []));
+    drawBarChart(doc, 'Program Attendance by Venue', attendanceBars(data.venueData || []));
+    drawBarChart(
+      doc,
+      'Summer Reading Registrations',
+      (data.summerReadingData || []).map(item => ({ name: item.name, value: item.registered }))
+    );
+
+    drawSectionTitle(doc, 'Key Findings & Insights');
+    drawBulletList(doc, 'Strengths', data.keyFindings?.strengths || []);
+    drawBulletList(doc, 'Areas for Development', data.keyFindings?.areasForDevelopment || []);
+
+    drawFooters(doc, generatedAt);
+    doc.end();
+  });
+}
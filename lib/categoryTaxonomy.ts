@@ -0,0 +1,227 @@
+import type { ReportData, UnmappedCategory } from '@/types/report';
+import type { ArraySection } from './reportFields';
+
+// A canonical category of an array section. Items are stored under `name` and
+// tagged with `id`, which stays the same if the display name is ever changed.
+export interface CategoryDefinition {
+  id: string;
+  name: string;
+  // Other names reports use for the category, compared after normalizing
+  synonyms: string[];
+  // For names that include a place or other detail, e.g. "Town of Morristown"
+  patterns?: RegExp[];
+}
+
+// Every category of every array section, in display order
+export const CATEGORY_TAXONOMY: Record<ArraySection, CategoryDefinition[]> = {
+  collectionData: [
+    { id: 'collection.adult-fiction', name: 'Adult Fiction', synonyms: ['Adult Fiction Books', 'Fiction - Adult'] },
+    { id: 'collection.adult-nonfiction', name: 'Adult Non-Fiction', synonyms: ['Adult Nonfiction Books', 'Nonfiction - Adult'] },
+    { id: 'collection.childrens-fiction', name: "Children's Fiction", synonyms: ['Juvenile Fiction', 'Children Fiction', 'Youth Fiction'] },
+    { id: 'collection.childrens-nonfiction', name: "Children's Non-Fiction", synonyms: ['Juvenile Non-Fiction', 'Children Non-Fiction', 'Youth Non-Fiction'] },
+    { id: 'collection.audio', name: 'Audio Materials', synonyms: ['Audio', 'Audiobooks', 'Audio Books', 'Sound Recordings', 'Audio Recordings'] },
+    { id: 'collection.video', name: 'Video Materials', synonyms: ['Video', 'Videos', 'DVDs', 'Video Recordings', 'Films'] },
+    { id: 'collection.other', name: 'Other Materials', synonyms: ['Other', 'Other Items', 'Miscellaneous'] }
+  ],
+  circulationData: [
+    { id: 'circulation.adult-fiction', name: 'Adult Fiction', synonyms: ['Adult Fiction Books', 'Fiction - Adult'] },
+    { id: 'circulation.adult-nonfiction', name: 'Adult Non-Fiction', synonyms: ['Adult Nonfiction Books', 'Nonfiction - Adult'] },
+    { id: 'circulation.childrens-fiction', name: "Children's Fiction", synonyms: ['Juvenile Fiction', 'Children Fiction', 'Youth Fiction'] },
+    { id: 'circulation.childrens-nonfiction', name: "Children's Non-Fiction", synonyms: ['Juvenile Non-Fiction', 'Children Non-Fiction', 'Youth Non-Fiction'] },
+    // Circulation is not broken down by audio and video, so they count as other materials
+    {
+      id: 'circulation.other',
+      name: 'Other Materials',
+      synonyms: ['Other', 'Other Items', 'Miscellaneous', 'Audio Materials', 'Video Materials', 'Audiovisual Materials', 'AV Materials']
+    }
+  ],
+  revenueData: [
+    {
+      id: 'revenue.school-district',
+      name: 'School District',
+      synonyms: ['School District Tax', 'School District Funding', 'School District Appropriation', 'School Tax']
+    },
+    {
+      id: 'revenue.municipal',
+      name: 'Town/City Funding',
+      synonyms: [
+        'Town Funding', 'City Funding', 'Village Funding', 'County Funding', 'Municipal Funding',
+        'Municipal Appropriation', 'Municipal', 'Local Government Funding'
+      ],
+      patterns: [
+        /^(?:town|city|village|county)\s+of\s+\S/i,
+        /\b(?:town|city|village|county|municipal)\b.*\b(?:tax|funds?|funding|appropriations?)\b/i
+      ]
+    },
+    { id: 'revenue.llsa', name: 'LLSA', synonyms: ['Local Library Services Aid', 'Local Library Service Aid'] },
+    { id: 'revenue.grants', name: 'Other Grants', synonyms: ['Grants', 'State Grants', 'Federal Grants', 'Other State Grants', 'Other Federal Grants'] },
+    { id: 'revenue.gifts', name: 'Gifts & Endowments', synonyms: ['Gifts', 'Donations', 'Endowments', 'Endowment Income', 'Gifts and Donations'] },
+    { id: 'revenue.fundraising', name: 'Fundraising', synonyms: ['Fund Raising', 'Fundraisers', 'Fundraising Events'] },
+    {
+      id: 'revenue.other',
+      name: 'Other',
+      synonyms: ['Other Revenue', 'Other Income', 'Other Receipts', 'Other Operating Revenue', 'Miscellaneous', 'Fines and Fees', 'Fines', 'Fees']
+    }
+  ],
+  expenseData: [
+    {
+      id: 'expense.staff',
+      name: 'Staff',
+      synonyms: ['Salaries', 'Wages', 'Salaries and Wages', 'Salaries and Benefits', 'Staff Salaries', 'Personnel', 'Employee Benefits', 'Benefits']
+    },
+    { id: 'expense.collection', name: 'Collection', synonyms: ['Library Materials', 'Materials', 'Books', 'Collection Development', 'Collection Expenditures'] },
+    { id: 'expense.capital', name: 'Capital', synonyms: ['Capital Expenditures', 'Capital Expenses', 'Capital Outlay'] },
+    {
+      id: 'expense.building',
+      name: 'Building Maintenance',
+      synonyms: ['Building', 'Maintenance', 'Buildings and Grounds', 'Operation and Maintenance of Building', 'Utilities']
+    },
+    { id: 'expense.supplies', name: 'Office & Supplies', synonyms: ['Office Supplies', 'Supplies', 'Office and Library Supplies'] },
+    { id: 'expense.telecommunications', name: 'Telecommunications', synonyms: ['Telephone', 'Internet', 'Telecom'] },
+    { id: 'expense.professional-fees', name: 'Professional Fees', synonyms: ['Professional Services', 'Legal Fees', 'Audit Fees', 'Accounting'] },
+    { id: 'expense.equipment', name: 'Equipment', synonyms: ['Furniture and Equipment', 'Computer Equipment', 'Technology'] },
+    {
+      id: 'expense.other',
+      name: 'Other',
+      synonyms: ['Other Expenses', 'Other Expenditures', 'Other Operating Expenditures', 'Miscellaneous']
+    },
+    { id: 'expense.contracts', name: 'Contracts', synonyms: ['Contracted Services', 'Contract Services', 'Contractual', 'System Contracts'] }
+  ],
+  programData: [
+    { id: 'program.ages-0-5', name: 'Ages 0-5', synonyms: ['Ages 0 to 5', 'Children 0-5', 'Birth to 5', 'Preschool', 'Early Literacy'] },
+    { id: 'program.ages-6-11', name: 'Ages 6-11', synonyms: ['Ages 6 to 11', 'Children 6-11', 'School Age'] },
+    { id: 'program.ages-12-18', name: 'Ages 12-18', synonyms: ['Ages 12 to 18', 'Young Adult', 'Young Adults', 'Teens', 'Teen', 'YA'] },
+    { id: 'program.adult', name: 'Adult (19+)', synonyms: ['Adult', 'Adults', 'Ages 19+', 'Ages 19 and Over', 'Adults 19 and Over'] },
+    { id: 'program.general', name: 'General Interest', synonyms: ['General', 'All Ages', 'Family'] }
+  ],
+  venueData: [
+    { id: 'venue.onsite', name: 'Onsite', synonyms: ['On Site', 'In Library', 'In Person', 'Onsite Programs'] },
+    { id: 'venue.offsite', name: 'Offsite', synonyms: ['Off Site', 'Outreach', 'Offsite Programs'] },
+    { id: 'venue.virtual', name: 'Virtual', synonyms: ['Online', 'Live Virtual', 'Virtual Programs'] }
+  ],
+  summerReadingData: [
+    { id: 'summer.children', name: 'Children', synonyms: ["Children's", 'Kids', 'Youth'] },
+    { id: 'summer.young-adults', name: 'Young Adults', synonyms: ['Young Adult', 'Teens', 'Teen', 'YA'] },
+    { id: 'summer.adults', name: 'Adults', synonyms: ['Adult'] }
+  ]
+};
+
+/**
+ * Reduce a category name to lowercase letters and digits, so "Gifts & Endowments"
+ * matches "gifts and endowments" and "Adult Non-Fiction" matches "Adult Nonfiction"
+ */
+export function normalizeCategoryName(name: string): string {
+  return name.toLowerCase().replace(/&/g, 'and').replace(/[^a-z0-9]/g, '');
+}
+
+// Normalized names and synonyms of each section's categories, built on first use
+let lookup: Map<string, CategoryDefinition> | null = null;
+
+function getLookup(): Map<string, CategoryDefinition> {
+  if (!lookup) {
+    lookup = new Map();
+    for (const [section, categories] of Object.entries(CATEGORY_TAXONOMY)) {
+      for (const category of categories) {
+        for (const name of [category.name, ...category.synonyms]) {
+          lookup.set(`${section}:${normalizeCategoryName(name)}`, category);
+        }
+      }
+    }
+  }
+  return lookup;
+}
+
+/**
+ * Find the canonical category a name refers to
+ * @param section The array section the item belongs to
+ * @param name The category name as extracted or imported
+ * @returns The category, or null if the name matches none
+ */
+export function resolveCategory(section: ArraySection, name: string): CategoryDefinition | null {
+  const match = getLookup().get(`${section}:${normalizeCategoryName(name)}`);
+  if (match) return match;
+  return CATEGORY_TAXONOMY[section].find(category =>
+    (category.patterns || []).some(pattern => pattern.test(name))
+  ) || null;
+}
+
+/**
+ * Get the canonical name for a category name, or the name itself if it matches no category
+ * Reports stored before the taxonomy may use other names, so comparisons go through this.
+ */
+export function canonicalCategoryName(section: ArraySection, name: string): string {
+  return resolveCategory(section, name)?.name ?? name;
+}
+
+// What normalizing a report's categories changed
+export interface CategoryNormalization {
+  // Items stored under a different name than they were extracted with
+  renamed: Array<{ section: ArraySection; from: string; to: string }>;
+  unmapped: UnmappedCategory[];
+}
+
+/**
+ * Copy the numeric values of an item, for keeping it aside for review
+ */
+function numericValues(item: Record<string, unknown>): Record<string, number> {
+  const values: Record<string, number> = {};
+  for (const [key, value] of Object.entries(item)) {
+    if (typeof value === 'number') {
+      values[key] = value;
+    }
+  }
+  return values;
+}
+
+/**
+ * Map every array item in report data to its canonical category, in place
+ * Items are renamed to the canonical name and tagged with its ID. Items that match no
+ * category are moved to `unmappedCategories` for a reviewer to map, so charts and comparisons
+ * only ever see canonical categories. When several items land in the same category the first
+ * is kept and the rest are moved there too, marked with the category they matched: a subtotal
+ * and its line items must not be counted twice, so the reviewer decides whether to add them.
+ * Malformed items are left for validation to report.
+ * @param data The extracted data, which may be a partial chunk result
+ * @returns The items that were renamed and the items that matched no category
+ */
+export function normalizeReportCategories(data: Partial<ReportData>): CategoryNormalization {
+  const renamed: CategoryNormalization['renamed'] = [];
+  const unmapped: UnmappedCategory[] = [];
+  const target = data as Record<string, unknown>;
+
+  for (const section of Object.keys(CATEGORY_TAXONOMY) as ArraySection[]) {
+    const items = target[section];
+    if (!Array.isArray(items)) continue;
+
+    const kept: Record<string, unknown>[] = [];
+    const seen = new Set<string>();
+    for (const item of items) {
+      if (typeof item !== 'object' || item === null || typeof item.name !== 'string') {
+        kept.push(item);
+        continue;
+      }
+
+      const category = resolveCategory(section, item.name);
+      if (!category) {
+        unmapped.push({ section, name: item.name, values: numericValues(item) });
+        continue;
+      }
+      if (seen.has(category.id)) {
+        unmapped.push({ section, name: item.name, values: numericValues(item), duplicateOf: category.name });
+        continue;
+      }
+      if (item.name !== category.name) {
+        renamed.push({ section, from: item.name, to: category.name });
+      }
+
+      seen.add(category.id);
+      kept.push({ ...item, name: category.name, categoryId: category.id });
+    }
+    target[section] = kept;
+  }
+
+  if (unmapped.length > 0) {
+    data.unmappedCategories = [...(data.unmappedCategories || []), ...unmapped];
+  }
+  return { renamed, unmapped };
+}
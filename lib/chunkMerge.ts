@@ -0,0 +1,163 @@
+import type { MergeConflict, ReportData, UnmappedCategory } from '@/types/report';
+import type { LlmFieldSource } from './provenance';
+import { ArraySection, getFieldValue, listPresentFieldPaths, OverviewSection, parseFieldPath, setFieldValue } from './reportFields';
+
+// Data extracted by Claude, along with the sources it reported for each value
+export type ExtractedData = Partial<ReportData> & {
+  sources?: Record<string, LlmFieldSource>;
+};
+
+/**
+ * How the values several chunks return for the same field are combined
+ * agree: the chunks should report the same value; different values are a conflict
+ * sum: each chunk reports part of the value, so the parts are added up
+ * max: the largest value wins, e.g. when a chunk may only see part of a figure
+ */
+export type MergeStrategy = 'agree' | 'sum' | 'max';
+
+// The strategy for each section; a figure repeated on a summary page must not be counted twice
+export const SECTION_MERGE_STRATEGIES: Record<OverviewSection | ArraySection, MergeStrategy> = {
+  libraryOverview: 'agree',
+  collectionOverview: 'agree',
+  usageStatistics: 'agree',
+  collectionData: 'agree',
+  circulationData: 'agree',
+  revenueData: 'agree',
+  expenseData: 'agree',
+  programData: 'agree',
+  venueData: 'agree',
+  summerReadingData: 'agree'
+};
+
+// Fields merged differently from the rest of their section, keyed by field path
+export const FIELD_MERGE_STRATEGIES: Record<string, MergeStrategy> = {
+  // Reports that list a winter and a summer schedule give both; the longer week is the one reported to the state
+  'libraryOverview.openHoursPerWeek': 'max'
+};
+
+// A value one chunk returned for a field
+interface ChunkValue {
+  chunk: number;
+  value: number;
+  source: LlmFieldSource | undefined;
+}
+
+/**
+ * Get the merge strategy for a field path
+ */
+export function getMergeStrategy(path: string): MergeStrategy {
+  const parsed = parseFieldPath(path);
+  return FIELD_MERGE_STRATEGIES[path] || (parsed ? SECTION_MERGE_STRATEGIES[parsed.section] : 'agree');
+}
+
+/**
+ * Combine the values the chunks returned for one field
+ * @param field The field path
+ * @param values The value from each chunk that returned the field, in chunk order
+ * @param strategy How to combine them
+ * @returns The merged value, the chunk whose source describes it, and any conflict
+ */
+function mergeFieldValues(
+  field: string,
+  values: ChunkValue[],
+  strategy: MergeStrategy
+): { value: number; from: ChunkValue; conflict: MergeConflict | null } {
+  if (strategy === 'sum') {
+    return { value: values.reduce((sum, entry) => sum + entry.value, 0), from: values[0], conflict: null };
+  }
+  if (strategy === 'max') {
+    const largest = values.reduce((best, entry) => entry.value > best.value ? entry : best);
+    return { value: largest.value, from: largest, conflict: null };
+  }
+
+  // Keep the first chunk's value, and record a conflict if any other chunk disagrees
+  const first = values[0];
+  const agree = values.every(entry => entry.value === first.value);
+  return {
+    value: first.value,
+    from: first,
+    conflict: agree ? null : {
+      field,
+      candidates: values.map(entry => ({ chunk: entry.chunk, value: entry.value, page: entry.source?.page ?? null })),
+      value: first.value
+    }
+  };
+}
+
+/**
+ * Merge the results of every chunk into a single result
+ * Each field is merged on its own with its strategy, so a chunk that only found some
+ * of a section's values no longer hides the values found by later chunks.
+ * @param results The results from each chunk, in chunk order
+ * @returns The merged result, with the fields the chunks disagreed on in `mergeConflicts`
+ */
+export function mergeChunkResults(results: ExtractedData[]): ExtractedData {
+  const merged: ExtractedData = {};
+  const sources: Record<string, LlmFieldSource> = {};
+  const conflicts: MergeConflict[] = [];
+
+  // Gather each field's values in the order the fields were first seen
+  const valuesByField = new Map<string, ChunkValue[]>();
+  results.forEach((result, index) => {
+    for (const path of listPresentFieldPaths(result)) {
+      const values = valuesByField.get(path) || [];
+      values.push({ chunk: index + 1, value: getFieldValue(result, path)!, source: result.sources?.[path] });
+      valuesByField.set(path, values);
+    }
+  });
+
+  valuesByField.forEach((values, path) => {
+    const { value, from, conflict } = mergeFieldValues(path, values, getMergeStrategy(path));
+    setFieldValue(merged, path, value);
+    if (from.source) {
+      sources[path] = from.source;
+    }
+    if (conflict) {
+      conflicts.push(conflict);
+    }
+  });
+
+  // Unrecognized line items repeated word for word are kept once; differing ones are all kept for the reviewer
+  const unmapped: UnmappedCategory[] = [];
+  for (const result of results) {
+    for (const item of result.unmappedCategories || []) {
+      const duplicate = unmapped.some(existing =>
+        existing.section === item.section &&
+        existing.name === item.name &&
+        JSON.stringify(existing.values) === JSON.stringify(item.values)
+      );
+      if (!duplicate) {
+        unmapped.push(item);
+      }
+    }
+  }
+  if (unmapped.length > 0) {
+    merged.unmappedCategories = unmapped;
+  }
+
+  // For keyFindings, combine unique values
+  if (results.some(result => result.keyFindings)) {
+    const strengths = new Set<string>();
+    const areasForDevelopment = new Set<string>();
+
+    for (const result of results) {
+      for (const strength of result.keyFindings?.strengths || []) {
+        strengths.add(strength);
+      }
+      for (const area of result.keyFindings?.areasForDevelopment || []) {
+        areasForDevelopment.add(area);
+      }
+    }
+
+    merged.keyFindings = {
+      strengths: Array.from(strengths).slice(0, 5),
+      areasForDevelopment: Array.from(areasForDevelopment).slice(0, 5)
+    };
+  }
+
+  merged.sources = sources;
+  if (conflicts.length > 0) {
+    merged.mergeConflicts = conflicts;
+  }
+  return merged;
+}
@@ -0,0 +1,84 @@
+import type { User } from 'firebase/auth';
+import type { ExportFormat } from './reportExport';
+
+/**
+ * Post a request to an export endpoint and read back the file
+ * @throws Error with the server's message, or the fallback message, if the export failed
+ */
+async function fetchExport(user: User, endpoint: string, body: object, failureMessage: string): Promise<Blob> {
+  const token = await user.getIdToken();
+
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`
+    },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || failureMessage);
+  }
+
+  return response.blob();
+}
+
+/**
+ * Ask the server to render a report's dashboard as a printable PDF
+ * @param user The signed-in user making the request
+ * @param reportId The report to export
+ * @returns The PDF file
+ * @throws Error with the server's message if the PDF could not be generated
+ */
+export async function fetchReportPdf(user: User, reportId: string): Promise<Blob> {
+  return fetchExport(user, '/api/export-pdf', { reportId }, 'Failed to export report PDF');
+}
+
+/**
+ * Ask the server for a report's extracted data as a spreadsheet
+ * @param user The signed-in user making the request
+ * @param reportId The report to export
+ * @param format CSV, or an Excel workbook with a sheet per section
+ * @returns The spreadsheet file
+ * @throws Error with the server's message if the data could not be exported
+ */
+export async function fetchReportData(user: User, reportId: string, format: ExportFormat): Promise<Blob> {
+  return fetchExport(user, '/api/export-data', { reportId, format }, 'Failed to export report data');
+}
+
+/**
+ * Ask the server for every library's completed report data for a year
+ * Only users who can read all libraries may export a whole year.
+ * @param user The signed-in user making the request
+ * @param year The report year to export
+ * @param format CSV, or an Excel workbook with a sheet per section
+ * @returns The spreadsheet file
+ * @throws Error with the server's message if the data could not be exported
+ */
+export async function fetchYearData(user: User, year: number, format: ExportFormat): Promise<Blob> {
+  return fetchExport(user, '/api/export-year', { year, format }, 'Failed to export year data');
+}
+
+/**
+ * Build a file name for an exported report, e.g. "adams-free-library-2024-board-packet.pdf"
+ */
+export function exportFileName(libraryName: string, year: number, suffix: string): string {
+  const slug = libraryName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'report'}-${year}-${suffix}`;
+}
+
+/**
+ * Save a file to the user's downloads
+ */
+export function saveFile(file: Blob, fileName: string): void {
+  const url = URL.createObjectURL(file);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
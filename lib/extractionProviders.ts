@@ -0,0 +1,168 @@
+import mockExtraction from './fixtures/mockExtraction.json';
+
+// A message in an extraction conversation
+export interface ExtractionMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ExtractionRequest {
+  system: string;
+  messages: ExtractionMessage[];
+}
+
+/**
+ * A language model that turns report text into JSON
+ * Providers return the raw text of the response; parsing and validation happen in the pipeline.
+ */
+export interface ExtractionProvider {
+  name: string;
+  complete(request: ExtractionRequest): Promise<string>;
+  // Counts the input tokens of a request with the model's tokenizer, for providers that have one
+  countTokens?(request: ExtractionRequest): Promise<number>;
+}
+
+export interface AnthropicProviderOptions {
+  apiKey: string;
+  model: string;
+  maxTokens: number;
+  apiUrl?: string;
+}
+
+// Claude API response interface
+interface ClaudeResponse {
+  id: string;
+  type: string;
+  role: string;
+  content: Array<{
+    type: string;
+    text: string;
+  }>;
+  model: string;
+  stop_reason: string;
+  stop_sequence: string | null;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+// Token counting API response interface
+interface ClaudeTokenCountResponse {
+  input_tokens: number;
+}
+
+export const DEFAULT_CLAUDE_MODEL = 'claude-3-opus-20240229';
+export const DEFAULT_CLAUDE_MAX_TOKENS = 4000;
+
+/**
+ * Create a provider that calls the Anthropic Messages API
+ * @param options The API key, model and token limit to use
+ * @returns The provider
+ */
+export function createAnthropicProvider(options: AnthropicProviderOptions): ExtractionProvider {
+  const apiUrl = options.apiUrl || 'https://api.anthropic.com/v1/messages';
+  const headers = {
+    'Content-Type': 'application/json',
+    'x-api-key': options.apiKey,
+    'anthropic-version': '2023-06-01'
+  };
+
+  return {
+    name: `anthropic:${options.model}`,
+    async complete(request: ExtractionRequest): Promise<string> {
+      try {
+        const response = await fetch(apiUrl, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            model: options.model,
+            max_tokens: options.maxTokens,
+            system: request.system,
+            messages: request.messages
+          })
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(`Claude API error: ${response.status} ${response.statusText} - ${errorText}`);
+        }
+
+        const data: ClaudeResponse = await response.json();
+
+        if (!data.content || data.content.length === 0) {
+          throw new Error('Empty response from Claude API');
+        }
+
+        return data.content[0].text;
+      } catch (error) {
+        console.error('Error calling Claude API:', error);
+        throw error;
+      }
+    },
+    async countTokens(request: ExtractionRequest): Promise<number> {
+      const response = await fetch(`${apiUrl}/count_tokens`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: options.model,
+          ...(request.system ? { system: request.system } : {}),
+          messages: request.messages
+        })
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Claude token counting error: ${response.status} ${response.statusText} - ${errorText}`);
+      }
+
+      const data: ClaudeTokenCountResponse = await response.json();
+      return data.input_tokens;
+    }
+  };
+}
+
+/**
+ * Create a provider that answers every request with canned JSON
+ * Used in tests and on dev machines so the pipeline runs without network access or API spend.
+ * @param fixture The data to return; defaults to the sample report in lib/fixtures/mockExtraction.json
+ * @returns The provider
+ */
+export function createMockProvider(fixture: object = mockExtraction): ExtractionProvider {
+  return {
+    name: 'mock',
+    async complete(): Promise<string> {
+      return '```json\n' + JSON.stringify(fixture, null, 2) + '\n```';
+    }
+  };
+}
+
+/**
+ * Create the extraction provider configured in the environment
+ * EXTRACTION_PROVIDER selects 'anthropic' (the default) or 'mock'.
+ * CLAUDE_MODEL and CLAUDE_MAX_TOKENS override the model and token limit for Anthropic.
+ * @returns The configured provider
+ */
+export function getExtractionProvider(): ExtractionProvider {
+  const providerName = process.env.EXTRACTION_PROVIDER || 'anthropic';
+
+  switch (providerName) {
+    case 'mock':
+      return createMockProvider();
+    case 'anthropic': {
+      const apiKey = process.env.CLAUDE_API_KEY;
+      if (!apiKey) {
+        throw new Error('Claude API key not found');
+      }
+
+      const maxTokens = parseInt(process.env.CLAUDE_MAX_TOKENS || '', 10);
+      return createAnthropicProvider({
+        apiKey,
+        model: process.env.CLAUDE_MODEL || DEFAULT_CLAUDE_MODEL,
+        maxTokens: isNaN(maxTokens) ? DEFAULT_CLAUDE_MAX_TOKENS : maxTokens
+      });
+    }
+    default:
+      throw new Error(`Unknown extraction provider: ${providerName}`);
+  }
+}
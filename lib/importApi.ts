@@ -0,0 +1,73 @@
+import type { User } from 'firebase/auth';
+import type { ColumnMapping, ImportTable } from '@/types/importTemplate';
+
+// What the server needs to create a report from one row of a spreadsheet
+export interface ImportRequest {
+  libraryId: string;
+  year: number;
+  fileName: string;
+  headers: string[];
+  row: string[];
+  mapping: ColumnMapping;
+}
+
+/**
+ * Read a file as base64, for sending in a JSON body
+ */
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error || new Error('Failed to read the file'));
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Post a request to an import endpoint
+ * @throws Error with the server's message, or the fallback message, if the request failed
+ */
+async function postImport<T>(user: User, endpoint: string, body: object, failureMessage: string): Promise<T> {
+  const token = await user.getIdToken();
+
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`
+    },
+    body: JSON.stringify(body)
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || failureMessage);
+  }
+  return data as T;
+}
+
+/**
+ * Ask the server to read a CSV or Excel file so its columns can be mapped
+ * @param user The signed-in user making the request
+ * @param file The spreadsheet to read
+ * @returns The header row and data rows of the file
+ * @throws Error with the server's message if the file could not be read
+ */
+export async function previewImportFile(user: User, file: File): Promise<ImportTable> {
+  const content = await readFileAsBase64(file);
+  const data = await postImport<{ table: ImportTable }>(user, '/api/import/preview', { fileName: file.name, content }, 'Failed to read the file');
+  return data.table;
+}
+
+/**
+ * Ask the server to create a report from one row of a spreadsheet
+ * The report goes straight to review; no AI processing is involved.
+ * @param user The signed-in user making the request
+ * @param request The library, year, row and column mapping to import
+ * @returns The ID of the new report
+ * @throws Error with the server's message if the data is invalid or could not be saved
+ */
+export async function createImportedReport(user: User, request: ImportRequest): Promise<string> {
+  const data = await postImport<{ reportId: string }>(user, '/api/import/create', request, 'Failed to import report');
+  return data.reportId;
+}
@@ -0,0 +1,197 @@
+import type { FieldProvenance, ReportData } from '@/types/report';
+import type { ColumnMapping, ImportTable } from '@/types/importTemplate';
+import {
+  ARRAY_SECTIONS,
+  ARRAY_VALUE_KEYS,
+  arrayFieldPath,
+  describeFieldPath,
+  FIELD_LABELS,
+  getFieldValue,
+  listReportFieldPaths,
+  OVERVIEW_FIELDS,
+  OVERVIEW_SECTIONS,
+  parseFieldPath,
+  setFieldValue
+} from './reportFields';
+import { validateReportData, ValidationIssue } from './reportSchema';
+
+// The report data built from one spreadsheet row, and everything wrong with it
+export interface ImportResult {
+  data: ReportData;
+  issues: ValidationIssue[];
+}
+
+// Details of the report an import is written to
+export interface ImportDetails {
+  reportId: string;
+  libraryName: string;
+  year: number;
+}
+
+/**
+ * Reduce a header or name to lowercase letters and digits, so "Population Served"
+ * matches "population_served" and "POPULATION SERVED:"
+ */
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Read a number from a spreadsheet cell, ignoring thousands separators and currency signs
+ * @param text The cell text
+ * @returns The number, or null if the cell does not hold one
+ */
+export function parseImportNumber(text: string): number | null {
+  const cleaned = text.replace(/[$,\s]/g, '');
+  if (!cleaned) return null;
+  const value = Number(cleaned);
+  return isFinite(value) ? value : null;
+}
+
+/**
+ * Guess which report field each column fills from its header
+ * A header matches a field by its path or its full label, e.g. "Programs – Ages 0-5 (Attendance)";
+ * overview fields also match by their own label, e.g. "Annual Visits".
+ * @param headers The spreadsheet's column headers
+ * @returns The mapping for every header that matched a field
+ */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const candidates = new Map<string, string>();
+  for (const path of listReportFieldPaths()) {
+    candidates.set(normalize(path), path);
+    candidates.set(normalize(describeFieldPath(path)), path);
+  }
+  for (const section of OVERVIEW_SECTIONS) {
+    for (const key of OVERVIEW_FIELDS[section]) {
+      candidates.set(normalize(FIELD_LABELS[key]), `${section}.${key}`);
+    }
+  }
+
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+  for (const header of headers) {
+    const path = candidates.get(normalize(header));
+    if (path && !used.has(path)) {
+      mapping[header] = path;
+      used.add(path);
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Find the row for a library in a spreadsheet that lists several, such as a statewide survey export
+ * @returns The index of the first row with a cell holding the library's name, or 0 if there is none
+ */
+export function findLibraryRow(table: ImportTable, libraryName: string): number {
+  const name = normalize(libraryName);
+  if (!name) return 0;
+  const index = table.rows.findIndex(row => row.some(cell => normalize(cell) === name));
+  return index === -1 ? 0 : index;
+}
+
+/**
+ * Build report data from one spreadsheet row through a column mapping
+ * Every value is checked the same way as extracted data. Unlike extracted data, which a
+ * reviewer completes, an import must also fill every overview field, so it can only be
+ * saved once the mapping covers all of them.
+ * @param table The spreadsheet's headers and rows
+ * @param rowIndex The row holding the library's figures
+ * @param mapping The report field each column fills; unmapped columns are ignored
+ * @param details The report the data belongs to
+ * @returns The report data and any problems with it
+ */
+export function buildImportedReport(
+  table: ImportTable,
+  rowIndex: number,
+  mapping: ColumnMapping,
+  details: ImportDetails
+): ImportResult {
+  const row = table.rows[rowIndex] || [];
+  const values: Partial<ReportData> = {};
+  const provenance: Record<string, FieldProvenance> = {};
+  const issues: ValidationIssue[] = [];
+  const mappedFrom = new Map<string, string>();
+
+  table.headers.forEach((header, index) => {
+    const path = mapping[header];
+    if (!path) return;
+
+    if (!parseFieldPath(path)) {
+      issues.push({ path, message: `is not a known field (mapped from column "${header}")` });
+      return;
+    }
+    if (mappedFrom.has(path)) {
+      issues.push({ path, message: `is mapped from both column "${mappedFrom.get(path)}" and column "${header}"` });
+      return;
+    }
+    mappedFrom.set(path, header);
+
+    // An empty cell leaves the field out; overview fields are reported as missing below
+    const text = (row[index] || '').trim();
+    if (!text) return;
+
+    const value = parseImportNumber(text);
+    if (value === null) {
+      issues.push({ path, message: `must be a number (column "${header}" holds "${text}")` });
+      return;
+    }
+    setFieldValue(values, path, value);
+    provenance[path] = { method: 'import', page: null, snippet: `${header}: ${text}`, confidence: 1 };
+  });
+
+  // Extracted reports may leave overview figures for a reviewer, but an import is saved as it is,
+  // so every figure the dashboards and comparisons rely on must come from the spreadsheet
+  for (const section of OVERVIEW_SECTIONS) {
+    for (const key of OVERVIEW_FIELDS[section]) {
+      const path = `${section}.${key}`;
+      if (getFieldValue(values, path) === undefined && !issues.some(issue => issue.path === path)) {
+        issues.push({
+          path,
+          message: mappedFrom.has(path) ? `is missing (column "${mappedFrom.get(path)}" is empty)` : 'is missing; map a column to it'
+        });
+      }
+    }
+  }
+  if (!details.libraryName.trim()) {
+    issues.push({ path: 'libraryName', message: 'is missing' });
+  }
+  if (!Number.isInteger(details.year)) {
+    issues.push({ path: 'year', message: `must be a year (got ${details.year})` });
+  }
+
+  // A category needs all of its values, e.g. both sessions and attendance for a program
+  for (const section of ARRAY_SECTIONS) {
+    const items = (values[section] || []) as unknown as Record<string, unknown>[];
+    const complete = items.filter(item => {
+      const missing = ARRAY_VALUE_KEYS[section].filter(key => item[key] === undefined);
+      for (const key of missing) {
+        issues.push({ path: arrayFieldPath(section, String(item.name), key), message: 'is missing' });
+      }
+      return missing.length === 0;
+    });
+    (values as Record<string, unknown>)[section] = complete;
+  }
+
+  // Spreadsheets have no narrative, so imported reports start without key findings
+  const data = {
+    reportId: details.reportId,
+    libraryName: details.libraryName,
+    year: details.year,
+    libraryOverview: values.libraryOverview || {},
+    collectionOverview: values.collectionOverview || {},
+    usageStatistics: values.usageStatistics || {},
+    collectionData: values.collectionData,
+    circulationData: values.circulationData,
+    revenueData: values.revenueData,
+    expenseData: values.expenseData,
+    programData: values.programData,
+    venueData: values.venueData,
+    summerReadingData: values.summerReadingData,
+    keyFindings: { strengths: [], areasForDevelopment: [] },
+    provenance
+  } as ReportData;
+
+  issues.push(...validateReportData(data));
+  return { data, issues };
+}
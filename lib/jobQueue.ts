@@ -0,0 +1,344 @@
+import {
+  collection,
+  doc,
+  FirestoreError,
+  getDocs,
+  query,
+  runTransaction,
+  serverTimestamp,
+  where
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { isJobActive, JOBS_COLLECTION, toMillis } from './jobStatus';
+import { processReportWithAI, ReportNotFoundError } from './reportProcessing';
+import { buildProgress } from './processingProgress';
+import { ReportValidationError } from './reportSchema';
+import { ReportVersionError } from './reportVersions';
+import type { JobStatus, ProcessingJob } from '@/types/job';
+
+// How many times a report is attempted before the job is marked failed
+export const MAX_JOB_ATTEMPTS = 3;
+
+// How long a claim lasts without a heartbeat before another worker may take the job over
+const LEASE_MS = 2 * 60 * 1000;
+const HEARTBEAT_MS = 30 * 1000;
+
+// Delay before the first retry; doubled for each further attempt
+const RETRY_DELAY_MS = 60 * 1000;
+
+/**
+ * Check whether a worker may claim a job right now
+ * Queued jobs are claimable once their retry delay has passed; running jobs
+ * are claimable once their lease has expired, which means the worker died.
+ */
+function isClaimable(job: Pick<ProcessingJob, 'status' | 'runAfter' | 'leaseExpiresAt'>, now: number): boolean {
+  if (job.status === 'queued') {
+    return (toMillis(job.runAfter) ?? 0) <= now;
+  }
+  if (job.status === 'running') {
+    return (toMillis(job.leaseExpiresAt) ?? 0) <= now;
+  }
+  return false;
+}
+
+/**
+ * Build the fields of a freshly queued job
+ */
+function newJobFields(reportId: string, libraryId: string, requestedBy: string) {
+  return {
+    reportId,
+    libraryId,
+    requestedBy,
+    status: 'queued',
+    attempts: 0,
+    maxAttempts: MAX_JOB_ATTEMPTS,
+    runAfter: new Date(),
+    workerId: null,
+    leaseExpiresAt: null,
+    heartbeatAt: null,
+    lastError: null,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+    completedAt: null
+  };
+}
+
+/**
+ * Queue a report for processing
+ * Each report has at most one job, stored under the report's ID, so asking
+ * again while a job is queued or running does not start a second one. A job
+ * whose worker died is replaced, so a stuck report can always be retried.
+ * @param reportId The report to process
+ * @param libraryId The library the report belongs to
+ * @param requestedBy The ID of the user who asked for processing
+ * @returns The job ID and whether a new job was queued
+ */
+export async function enqueueReportJob(
+  reportId: string,
+  libraryId: string,
+  requestedBy: string
+): Promise<{ jobId: string; created: boolean }> {
+  const jobRef = doc(db, JOBS_COLLECTION, reportId);
+
+  const created = await runTransaction(db, async (transaction) => {
+    const existing = await transaction.get(jobRef);
+    if (existing.exists() && isJobActive(existing.data() as ProcessingJob, Date.now())) {
+      return false;
+    }
+
+    transaction.set(jobRef, newJobFields(reportId, libraryId, requestedBy));
+    transaction.update(doc(db, 'reports', reportId), {
+      status: 'Processing',
+      errorMessage: null,
+      progress: buildProgress('queued'),
+      updatedAt: new Date()
+    });
+    return true;
+  });
+
+  return { jobId: reportId, created };
+}
+
+/**
+ * Claim the next job that is ready to run
+ * @param workerId A unique ID for the calling worker
+ * @returns The claimed job, or null if there is nothing to do
+ */
+export async function claimNextJob(workerId: string): Promise<ProcessingJob | null> {
+  const snapshot = await getDocs(
+    query(collection(db, JOBS_COLLECTION), where('status', 'in', ['queued', 'running']))
+  );
+
+  const now = Date.now();
+  const candidates = snapshot.docs
+    .filter(jobDoc => isClaimable(jobDoc.data() as ProcessingJob, now))
+    .sort((a, b) => (toMillis(a.data().runAfter) ?? 0) - (toMillis(b.data().runAfter) ?? 0));
+
+  for (const candidate of candidates) {
+    const claimed = await runTransaction(db, async (transaction) => {
+      const jobDoc = await transaction.get(candidate.ref);
+      if (!jobDoc.exists()) return null;
+
+      // Another worker may have claimed the job since it was listed
+      const job = { id: jobDoc.id, ...jobDoc.data() } as ProcessingJob;
+      if (!isClaimable(job, Date.now())) return null;
+
+      // A worker that died on the last attempt leaves nothing to retry
+      if (job.attempts >= job.maxAttempts) {
+        const message = 'The worker processing this report stopped responding';
+        transaction.update(candidate.ref, {
+          status: 'failed',
+          workerId: null,
+          leaseExpiresAt: null,
+          lastError: message,
+          updatedAt: serverTimestamp(),
+          completedAt: serverTimestamp()
+        });
+        transaction.update(doc(db, 'reports', job.reportId), {
+          status: 'Failed',
+          errorMessage: message,
+          updatedAt: new Date()
+        });
+        return null;
+      }
+
+      const leaseExpiresAt = new Date(Date.now() + LEASE_MS);
+      transaction.update(candidate.ref, {
+        status: 'running',
+        attempts: job.attempts + 1,
+        workerId,
+        leaseExpiresAt,
+        heartbeatAt: new Date(),
+        updatedAt: serverTimestamp()
+      });
+
+      return { ...job, status: 'running' as JobStatus, attempts: job.attempts + 1, workerId, leaseExpiresAt };
+    });
+
+    if (claimed) {
+      return claimed;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Extend a worker's lease on a job
+ * @param jobId The job to extend
+ * @param workerId The worker that holds the lease
+ * @returns False if the worker no longer holds the lease
+ */
+export async function heartbeatJob(jobId: string, workerId: string): Promise<boolean> {
+  const jobRef = doc(db, JOBS_COLLECTION, jobId);
+
+  return runTransaction(db, async (transaction) => {
+    const jobDoc = await transaction.get(jobRef);
+    if (!jobDoc.exists() || jobDoc.data().status !== 'running' || jobDoc.data().workerId !== workerId) {
+      return false;
+    }
+
+    transaction.update(jobRef, {
+      leaseExpiresAt: new Date(Date.now() + LEASE_MS),
+      heartbeatAt: new Date(),
+      updatedAt: serverTimestamp()
+    });
+    return true;
+  });
+}
+
+/**
+ * Mark a job as finished successfully
+ * @param jobId The job that finished
+ * @param workerId The worker that ran it
+ */
+export async function completeJob(jobId: string, workerId: string): Promise<void> {
+  const jobRef = doc(db, JOBS_COLLECTION, jobId);
+
+  await runTransaction(db, async (transaction) => {
+    const jobDoc = await transaction.get(jobRef);
+    if (!jobDoc.exists() || jobDoc.data().workerId !== workerId) return;
+
+    transaction.update(jobRef, {
+      status: 'succeeded',
+      workerId: null,
+      leaseExpiresAt: null,
+      lastError: null,
+      updatedAt: serverTimestamp(),
+      completedAt: serverTimestamp()
+    });
+  });
+}
+
+/**
+ * Check whether an error would happen again on every retry
+ * Claude's output is only rejected after several repair attempts, and a report or library
+ * that no longer exists does not come back, so retrying these only adds cost.
+ */
+export function isPermanentError(error: unknown): boolean {
+  return error instanceof ReportValidationError ||
+    error instanceof ReportVersionError ||
+    error instanceof ReportNotFoundError ||
+    (error instanceof FirestoreError && error.code === 'not-found');
+}
+
+/**
+ * Record a failed attempt, queueing a retry if the job has attempts left and the
+ * error is not permanent, and otherwise marking both the job and its report as failed
+ * @param jobId The job that failed
+ * @param workerId The worker that ran it
+ * @param error The error the attempt failed with
+ * @returns The job's new status
+ */
+export async function failJob(jobId: string, workerId: string, error: unknown): Promise<JobStatus> {
+  const jobRef = doc(db, JOBS_COLLECTION, jobId);
+  const message = error instanceof Error ? error.message : 'Unknown error occurred';
+
+  return runTransaction(db, async (transaction) => {
+    const jobDoc = await transaction.get(jobRef);
+    if (!jobDoc.exists() || jobDoc.data().workerId !== workerId) {
+      return jobDoc.exists() ? (jobDoc.data().status as JobStatus) : 'failed';
+    }
+
+    const job = jobDoc.data() as ProcessingJob;
+
+    if (job.attempts < job.maxAttempts && !isPermanentError(error)) {
+      transaction.update(doc(db, 'reports', job.reportId), {
+        progress: buildProgress('queued', {
+          message: `Attempt ${job.attempts} of ${job.maxAttempts} failed; retrying shortly`
+        })
+      });
+      transaction.update(jobRef, {
+        status: 'queued',
+        runAfter: new Date(Date.now() + RETRY_DELAY_MS * Math.pow(2, job.attempts - 1)),
+        workerId: null,
+        leaseExpiresAt: null,
+        lastError: message,
+        updatedAt: serverTimestamp()
+      });
+      return 'queued';
+    }
+
+    transaction.update(jobRef, {
+      status: 'failed',
+      workerId: null,
+      leaseExpiresAt: null,
+      lastError: message,
+      updatedAt: serverTimestamp(),
+      completedAt: serverTimestamp()
+    });
+    transaction.update(doc(db, 'reports', job.reportId), {
+      status: 'Failed',
+      errorMessage: message,
+      updatedAt: new Date()
+    });
+    return 'failed';
+  });
+}
+
+/**
+ * Run a claimed job, keeping its lease alive until processing finishes
+ * @param job The job returned by claimNextJob
+ * @param workerId The worker that claimed it
+ * @returns The job's status after the run
+ */
+export async function runJob(job: ProcessingJob, workerId: string): Promise<JobStatus> {
+  const heartbeat = setInterval(() => {
+    heartbeatJob(job.id, workerId).catch(error => {
+      console.error(`Error sending heartbeat for job ${job.id}:`, error);
+    });
+  }, HEARTBEAT_MS);
+
+  try {
+    await processReportWithAI(job.reportId);
+    await completeJob(job.id, workerId);
+    return 'succeeded';
+  } catch (error) {
+    console.error(`Error processing report ${job.reportId} (attempt ${job.attempts}):`, error);
+    return failJob(job.id, workerId, error);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Put a job back in the queue with a fresh set of attempts
+ * Used by admins to recover failed jobs and jobs stuck with a worker that stopped responding.
+ * A report left 'Processing' without any job gets a new one.
+ * @param jobId The job to reset, which is also the ID of its report
+ * @param requestedBy The ID of the admin resetting the job
+ */
+export async function resetJob(jobId: string, requestedBy: string): Promise<void> {
+  const jobRef = doc(db, JOBS_COLLECTION, jobId);
+
+  await runTransaction(db, async (transaction) => {
+    const jobDoc = await transaction.get(jobRef);
+
+    if (jobDoc.exists()) {
+      transaction.update(jobRef, {
+        status: 'queued',
+        attempts: 0,
+        runAfter: new Date(),
+        workerId: null,
+        leaseExpiresAt: null,
+        heartbeatAt: null,
+        lastError: null,
+        updatedAt: serverTimestamp(),
+        completedAt: null
+      });
+    } else {
+      const reportDoc = await transaction.get(doc(db, 'reports', jobId));
+      if (!reportDoc.exists()) {
+        throw new Error('Job not found');
+      }
+      transaction.set(jobRef, newJobFields(jobId, reportDoc.data().libraryId, requestedBy));
+    }
+
+    transaction.update(doc(db, 'reports', jobId), {
+      status: 'Processing',
+      errorMessage: null,
+      progress: buildProgress('queued'),
+      updatedAt: new Date()
+    });
+  });
+}
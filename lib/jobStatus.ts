@@ -0,0 +1,35 @@
+import { doc, getDoc, Timestamp } from 'firebase/firestore';
+import { db } from './firebase';
+import type { ProcessingJob } from '@/types/job';
+
+export const JOBS_COLLECTION = 'processingJobs';
+
+/**
+ * Convert a Firestore Timestamp, Date or null into milliseconds
+ */
+export function toMillis(value: unknown): number | null {
+  if (value instanceof Date) return value.getTime();
+  if (value instanceof Timestamp) return value.toMillis();
+  return null;
+}
+
+/**
+ * Check whether a job is still going to run or finish
+ * Queued jobs are waiting for a worker; running jobs are only active while their
+ * worker keeps the lease alive, since an expired lease means the worker died.
+ */
+export function isJobActive(job: Pick<ProcessingJob, 'status' | 'leaseExpiresAt'>, now: number): boolean {
+  if (job.status === 'queued') return true;
+  if (job.status === 'running') return (toMillis(job.leaseExpiresAt) ?? 0) > now;
+  return false;
+}
+
+/**
+ * Check whether a report has a job that is queued or being run by a live worker
+ * A report left 'Processing' without one will never finish, so it may be retried or replaced.
+ * @param reportId The report to check; its job is stored under the same ID
+ */
+export async function hasActiveJob(reportId: string): Promise<boolean> {
+  const jobDoc = await getDoc(doc(db, JOBS_COLLECTION, reportId));
+  return jobDoc.exists() && isJobActive(jobDoc.data() as ProcessingJob, Date.now());
+}
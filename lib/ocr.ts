@@ -0,0 +1,94 @@
+import type { OcrPage } from '@/types/report';
+
+// Pages with fewer non-whitespace characters than this are treated as scanned images
+export const MIN_TEXT_CHARS_PER_PAGE = 50;
+
+// Upper bound on the pages sent through OCR, and on the time spent reading them. A worker run
+// is stopped after 300 seconds and may start a job up to a minute in, so OCR must leave room
+// for the Claude calls; a job cut off by the limit would only repeat the same OCR on retry.
+export const MAX_OCR_PAGES = 20;
+export const OCR_TIME_BUDGET_MS = 90 * 1000;
+
+// Scale applied when rendering a page for OCR; 2x the PDF size is roughly 150 dpi
+const RENDER_SCALE = 2;
+
+/**
+ * Find the pages whose extracted text is too sparse to be a real text layer
+ * @param pages The text of each page of the report
+ * @returns The 1-based numbers of the pages that need OCR
+ */
+export function findLowTextPages(pages: string[]): number[] {
+  const lowTextPages: number[] = [];
+  pages.forEach((pageText, index) => {
+    if (pageText.replace(/\s/g, '').length < MIN_TEXT_CHARS_PER_PAGE) {
+      lowTextPages.push(index + 1);
+    }
+  });
+  return lowTextPages;
+}
+
+/**
+ * Render pages of a PDF to images and read their text with Tesseract
+ * Reading stops before the next page once the time budget is used up, so a slow
+ * report returns the pages read so far rather than running past the function limit.
+ * @param pdfBuffer The contents of the PDF
+ * @param pageNumbers The 1-based numbers of the pages to read
+ * @param onPage Called before each page is read, with its position in the list and the list length
+ * @param timeBudgetMs How long to keep starting new pages, counted from the call
+ * @returns The OCR text and confidence of each page read, in the order requested
+ */
+export async function ocrPdfPages(
+  pdfBuffer: Buffer,
+  pageNumbers: number[],
+  onPage?: (index: number, total: number) => Promise<void>,
+  timeBudgetMs = OCR_TIME_BUDGET_MS
+): Promise<OcrPage[]> {
+  const deadline = Date.now() + timeBudgetMs;
+
+  // These are large, server-only packages, so only load them when a report actually needs OCR
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const { createCanvas } = await import('@napi-rs/canvas');
+  const { createWorker } = await import('tesseract.js');
+
+  const pdfDocument = await pdfjs.getDocument({ data: new Uint8Array(pdfBuffer), verbosity: 0 }).promise;
+  const worker = await createWorker('eng', undefined, process.env.TESSERACT_LANG_PATH
+    ? { langPath: process.env.TESSERACT_LANG_PATH }
+    : {});
+
+  try {
+    const results: OcrPage[] = [];
+
+    for (let i = 0; i < pageNumbers.length; i++) {
+      if (Date.now() >= deadline) {
+        console.warn(`OCR time budget used up; ${pageNumbers.length - i} of ${pageNumbers.length} pages were not read`);
+        break;
+      }
+      if (onPage) {
+        await onPage(i + 1, pageNumbers.length);
+      }
+
+      const page = await pdfDocument.getPage(pageNumbers[i]);
+      const viewport = page.getViewport({ scale: RENDER_SCALE });
+      const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      await page.render({
+        canvas: canvas as unknown as HTMLCanvasElement,
+        canvasContext: canvas.getContext('2d') as unknown as CanvasRenderingContext2D,
+        viewport
+      }).promise;
+      page.cleanup();
+
+      const { data } = await worker.recognize(canvas.toBuffer('image/png'));
+      results.push({
+        page: pageNumbers[i],
+        text: data.text,
+        // Tesseract reports confidence from 0 to 100
+        confidence: Math.round(data.confidence) / 100
+      });
+    }
+
+    return results;
+  } finally {
+    await worker.terminate();
+    await pdfDocument.destroy();
+  }
+}
@@ -0,0 +1,237 @@
+// Splitting a report's pages into chunks for Claude. Chunks always end at a page
+// boundary, so every page keeps its "--- Page N ---" marker and values can be traced
+// back to their page, and a report part is only split when it is too big for one chunk.
+
+// The parts of the NYS annual report, as the parser reads them
+export const REPORT_PARTS: Record<number, string> = {
+  1: 'Part 1: General Information',
+  2: 'Part 2: Collection and Library Use',
+  3: 'Part 3: Finance',
+  4: 'Part 4: Programs'
+};
+
+// Chunk size used for Claude; its context window is far larger, but smaller chunks keep responses focused
+export const MAX_CHUNK_TOKENS = 50000;
+
+// Share of the chunk size used when tokens can only be estimated, since the estimate may
+// undercount text unlike the reports it was tuned on
+export const ESTIMATE_SAFETY_MARGIN = 0.8;
+
+// Counts the tokens of a text with Claude's tokenizer
+export type TokenCounter = (text: string) => Promise<number>;
+
+// A run of consecutive pages sent to Claude together
+export interface PageChunk {
+  // 1-based page numbers
+  firstPage: number;
+  lastPage: number;
+  // The report parts the pages belong to, e.g. [3] for a chunk of finance pages
+  parts: number[];
+  text: string;
+  tokens: number;
+  // True when the token count is the offline estimate rather than the tokenizer's count
+  tokensEstimated: boolean;
+}
+
+// A heading that starts a report part, e.g. "PART 3 - FINANCE", at the start of a line
+const PART_HEADING = /^\s*part\s+([1-9])\b/im;
+
+// Pieces a BPE tokenizer keeps apart: runs of letters, runs of digits and runs of one symbol
+const TOKEN_PIECES = /[A-Za-z]+|\d+|([^\sA-Za-z\d])\1*/g;
+
+/**
+ * Approximate how many tokens Claude's tokenizer splits text into, for when the tokenizer
+ * cannot be reached
+ * This is a heuristic, not a tokenizer: its weights follow how BPE tokenizers treat words,
+ * digit groups and punctuation, so it copes with pages of numbers and table rules better
+ * than a characters-per-token ratio, but it can still be off. Chunks sized with it keep
+ * ESTIMATE_SAFETY_MARGIN of the budget free.
+ * @param text The text to measure
+ * @returns The estimated token count
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const piece of text.match(TOKEN_PIECES) || []) {
+    if (/^\d/.test(piece)) {
+      tokens += Math.ceil(piece.length / 3);
+    } else if (/^[A-Za-z]/.test(piece)) {
+      tokens += Math.ceil(piece.length / 7);
+    } else {
+      tokens += Math.ceil(piece.length / 4);
+    }
+  }
+  // Line breaks separate table rows and are tokens too
+  return tokens + (text.match(/\n/g) || []).length;
+}
+
+/**
+ * Describe the pages and parts of a chunk, e.g. "pages 5-9 (Part 3: Finance)"
+ */
+export function describeChunk(chunk: PageChunk): string {
+  const pages = chunk.firstPage === chunk.lastPage
+    ? `page ${chunk.firstPage}`
+    : `pages ${chunk.firstPage}-${chunk.lastPage}`;
+  const parts = chunk.parts.map(part => REPORT_PARTS[part] || `Part ${part}`);
+  return parts.length > 0 ? `${pages} (${parts.join(', ')})` : pages;
+}
+
+/**
+ * Find the report part each page belongs to
+ * A page belongs to the part whose heading appears on it or on the nearest page before it;
+ * pages before the first heading, such as a cover letter, belong to no part.
+ * @param pages The text of each page
+ * @returns The part number of each page, or null
+ */
+export function findPageParts(pages: string[]): Array<number | null> {
+  let current: number | null = null;
+  return pages.map(pageText => {
+    const heading = pageText.match(PART_HEADING);
+    if (heading) {
+      current = Number(heading[1]);
+    }
+    return current;
+  });
+}
+
+/**
+ * Pack pages into chunks of at most a token budget
+ * Pages are grouped by report part, and whole parts are packed into chunks. A part
+ * that does not fit in one chunk is split between pages, and a single page larger
+ * than the budget becomes a chunk of its own.
+ * @param indices The 0-based indices of consecutive pages to pack
+ * @param pageParts The report part of every page
+ * @param pageTokens The token count of every page
+ * @param maxTokens The token budget of a chunk
+ * @returns The page indices of each chunk, in page order
+ */
+function packPages(
+  indices: number[],
+  pageParts: Array<number | null>,
+  pageTokens: number[],
+  maxTokens: number
+): number[][] {
+  // Runs of consecutive pages in the same part
+  const groups: number[][] = [];
+  for (const index of indices) {
+    const group = groups[groups.length - 1];
+    if (group && pageParts[group[0]] === pageParts[index]) {
+      group.push(index);
+    } else {
+      groups.push([index]);
+    }
+  }
+
+  const packed: number[][] = [];
+  let current: number[] = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    packed.push(current);
+    current = [];
+    currentTokens = 0;
+  };
+
+  for (const group of groups) {
+    const groupTokens = group.reduce((sum, index) => sum + pageTokens[index], 0);
+
+    // Start a new chunk rather than split a part that would fit in one
+    if (currentTokens + groupTokens > maxTokens && groupTokens <= maxTokens) {
+      flush();
+    }
+
+    for (const index of group) {
+      if (currentTokens + pageTokens[index] > maxTokens) {
+        flush();
+      }
+      current.push(index);
+      currentTokens += pageTokens[index];
+    }
+  }
+  flush();
+
+  return packed;
+}
+
+/**
+ * Pack pages by their estimates and check each chunk with Claude's tokenizer
+ * Counting whole chunks takes one call per chunk instead of one per page. A chunk the
+ * estimate undercounted is packed again with its pages' estimates scaled up by how far
+ * off they were, and the smaller chunks are counted in turn.
+ * @returns The page indices and counted tokens of each chunk, in page order
+ * @throws The counter's error if a chunk cannot be counted
+ */
+async function packMeasured(
+  pageTexts: string[],
+  pageParts: Array<number | null>,
+  estimates: number[],
+  maxTokens: number,
+  countTokens: TokenCounter
+): Promise<Array<{ pages: number[]; tokens: number }>> {
+  const pageTokens = [...estimates];
+  const pending = packPages(pageTexts.map((_, index) => index), pageParts, pageTokens, maxTokens);
+  const measured: Array<{ pages: number[]; tokens: number }> = [];
+
+  while (pending.length > 0) {
+    const pages = pending.shift()!;
+    // One chunk at a time, to stay well within the token counting rate limit
+    const tokens = await countTokens(pages.map(index => pageTexts[index]).join('\n\n'));
+    if (tokens <= maxTokens || pages.length === 1) {
+      measured.push({ pages, tokens });
+      continue;
+    }
+
+    const estimated = pages.reduce((sum, index) => sum + pageTokens[index], 0);
+    for (const index of pages) {
+      pageTokens[index] = Math.ceil(pageTokens[index] * tokens / estimated);
+    }
+    pending.unshift(...packPages(pages, pageParts, pageTokens, maxTokens));
+  }
+
+  return measured;
+}
+
+/**
+ * Split a report's pages into chunks of at most a token budget, keeping report parts together
+ * @param pages The text of each page, in order
+ * @param options.maxTokens The token budget of a chunk
+ * @param options.countTokens Counts tokens with Claude's tokenizer; without it, or if counting
+ * fails, e.g. without network access, tokens are estimated and only ESTIMATE_SAFETY_MARGIN
+ * of the budget is used
+ * @returns The chunks, in page order
+ */
+export async function chunkPages(
+  pages: string[],
+  options: { maxTokens?: number; countTokens?: TokenCounter } = {}
+): Promise<PageChunk[]> {
+  const pageParts = findPageParts(pages);
+  const pageTexts = pages.map((pageText, index) => `--- Page ${index + 1} ---\n${pageText}`);
+  const estimates = pageTexts.map(estimateTokens);
+  const budget = options.maxTokens ?? MAX_CHUNK_TOKENS;
+
+  const toChunk = (indices: number[], tokens: number, tokensEstimated: boolean): PageChunk => {
+    const parts = indices.map(index => pageParts[index]).filter((part): part is number => part !== null);
+    return {
+      firstPage: indices[0] + 1,
+      lastPage: indices[indices.length - 1] + 1,
+      parts: parts.filter((part, index) => parts.indexOf(part) === index),
+      text: indices.map(index => pageTexts[index]).join('\n\n'),
+      tokens,
+      tokensEstimated
+    };
+  };
+
+  if (options.countTokens) {
+    try {
+      const measured = await packMeasured(pageTexts, pageParts, estimates, budget, options.countTokens);
+      return measured.map(({ pages: indices, tokens }) => toChunk(indices, tokens, false));
+    } catch (error) {
+      console.warn('Could not count tokens with the tokenizer; estimating them instead:', error);
+    }
+  }
+
+  const maxTokens = Math.floor(budget * ESTIMATE_SAFETY_MARGIN);
+  return packPages(pageTexts.map((_, index) => index), pageParts, estimates, maxTokens).map(indices =>
+    toChunk(indices, indices.reduce((sum, index) => sum + estimates[index], 0), true)
+  );
+}
@@ -0,0 +1,118 @@
+import type { ReportData } from '@/types/report';
+import { REPORT_METRICS, ReportMetric, totalExpenses } from './reportMetrics';
+
+// How peers are chosen: by the population the library serves, or by its total expenses
+export type PeerBasis = 'population' | 'budget';
+
+// The number of most similar libraries compared against
+export const PEER_COUNT = 10;
+
+// One metric for this library placed among its peers
+export interface MetricComparison {
+  metric: ReportMetric;
+  value: number | null;
+  peerMedian: number | null;
+  // Share of peers this library does better than, from 0 to 100, so it always agrees with
+  // the quartile; for neutral metrics, the share of peers with a lower value
+  percentile: number | null;
+  // 1 (bottom quarter) to 4 (top quarter), counted so that 4 is always the favourable end;
+  // for neutral metrics 4 is simply the highest values
+  quartile: number | null;
+}
+
+export interface PeerComparison {
+  basis: PeerBasis;
+  peers: ReportData[];
+  comparisons: MetricComparison[];
+}
+
+/**
+ * Get the size a library is matched on
+ */
+function sizeOf(data: ReportData, basis: PeerBasis): number {
+  return basis === 'population' ? data.libraryOverview?.populationServed || 0 : totalExpenses(data) ?? 0;
+}
+
+/**
+ * Pick the libraries closest in size to this one
+ * Size is compared on a log scale, so a library twice as large is as far away as one half the size.
+ * @param target This library's report data
+ * @param candidates Other libraries' report data for the same year
+ * @param basis Whether to match on population served or total expenses
+ * @returns Up to PEER_COUNT peers, most similar first
+ */
+export function selectPeers(target: ReportData, candidates: ReportData[], basis: PeerBasis): ReportData[] {
+  const targetSize = sizeOf(target, basis);
+  if (targetSize <= 0) return [];
+
+  return candidates
+    .filter(candidate => sizeOf(candidate, basis) > 0)
+    .map(candidate => ({ candidate, distance: Math.abs(Math.log(sizeOf(candidate, basis) / targetSize)) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, PEER_COUNT)
+    .map(entry => entry.candidate);
+}
+
+/**
+ * Calculate the median of a list of numbers
+ */
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Place a value among peer values
+ * Ties count as half below, so a value equal to every peer sits at the 50th percentile.
+ */
+function percentileOf(value: number, peerValues: number[]): number {
+  const below = peerValues.filter(peerValue => peerValue < value).length;
+  const equal = peerValues.filter(peerValue => peerValue === value).length;
+  return ((below + equal / 2) / peerValues.length) * 100;
+}
+
+/**
+ * Compare a library's report against its peers on every benchmark metric
+ * @param target This library's report data
+ * @param candidates Other libraries' shared report data for the same year
+ * @param basis Whether to match on population served or total expenses
+ * @returns The peers used and where this library falls on each metric
+ */
+export function comparePeers(target: ReportData, candidates: ReportData[], basis: PeerBasis): PeerComparison {
+  const peers = selectPeers(target, candidates, basis);
+
+  const comparisons = REPORT_METRICS.map(metric => {
+    const value = metric.calculate(target);
+    const peerValues = peers
+      .map(peer => metric.calculate(peer))
+      .filter((peerValue): peerValue is number => peerValue !== null);
+
+    if (value === null || peerValues.length === 0) {
+      return { metric, value, peerMedian: median(peerValues), percentile: null, quartile: null };
+    }
+
+    const rank = percentileOf(value, peerValues);
+    const percentile = metric.direction === 'lower' ? 100 - rank : rank;
+    return {
+      metric,
+      value,
+      peerMedian: median(peerValues),
+      percentile,
+      quartile: Math.min(4, Math.floor(percentile / 25) + 1)
+    };
+  });
+
+  return { basis, peers, comparisons };
+}
+
+/**
+ * Format a percentile as an ordinal, e.g. "1st", "22nd", "53rd" or "11th"
+ */
+export function formatPercentile(percentile: number): string {
+  const rounded = Math.round(percentile);
+  const lastTwo = rounded % 100;
+  const suffix = lastTwo >= 11 && lastTwo <= 13 ? 'th' : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[rounded % 10] || 'th';
+  return `${rounded}${suffix}`;
+}
@@ -0,0 +1,51 @@
+import type { User } from 'firebase/auth';
+
+/**
+ * Ask the server to queue a report for AI processing
+ * Processing never runs in the browser; this only adds a job for the worker.
+ * @param user The signed-in user making the request
+ * @param reportId The report to process
+ * @throws Error with the server's message if the report could not be queued
+ */
+export async function requestReportProcessing(user: User, reportId: string): Promise<void> {
+  const token = await user.getIdToken();
+
+  const response = await fetch('/api/process-report', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`
+    },
+    body: JSON.stringify({ reportId })
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to queue report processing');
+  }
+}
+
+/**
+ * Ask the server to reset a processing job so it runs again from the first attempt
+ * Only admins may reset jobs.
+ * @param user The signed-in admin making the request
+ * @param jobId The job to reset
+ * @throws Error with the server's message if the job could not be reset
+ */
+export async function resetProcessingJob(user: User, jobId: string): Promise<void> {
+  const token = await user.getIdToken();
+
+  const response = await fetch('/api/jobs/reset', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`
+    },
+    body: JSON.stringify({ jobId })
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to reset processing job');
+  }
+}
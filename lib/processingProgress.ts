@@ -0,0 +1,82 @@
+import { doc, updateDoc } from 'firebase/firestore';
+import { db } from './firebase';
+import type { ProcessingProgress, ProcessingStage } from '@/types/report';
+
+// Each stage in pipeline order, with the progress shown when it starts
+export const PROCESSING_STAGES: Array<{ stage: ProcessingStage; label: string; percent: number }> = [
+  { stage: 'queued', label: 'Waiting to start', percent: 0 },
+  { stage: 'downloading', label: 'Downloading PDF', percent: 5 },
+  { stage: 'extracting', label: 'Extracting text', percent: 10 },
+  { stage: 'ocr', label: 'Reading scanned pages', percent: 12 },
+  { stage: 'parsing', label: 'Reading standard line items', percent: 20 },
+  { stage: 'analyzing', label: 'Analyzing with Claude', percent: 25 },
+  { stage: 'merging', label: 'Merging results', percent: 85 },
+  { stage: 'validating', label: 'Validating data', percent: 90 },
+  { stage: 'saving', label: 'Saving dashboard', percent: 95 },
+  { stage: 'done', label: 'Done', percent: 100 }
+];
+
+// Claude's chunks share the progress between the analyzing and merging stages
+const ANALYZING_START = 25;
+const ANALYZING_END = 85;
+
+/**
+ * Get the display label for a stage
+ */
+export function getStageLabel(stage: ProcessingStage): string {
+  return PROCESSING_STAGES.find(entry => entry.stage === stage)?.label || stage;
+}
+
+/**
+ * Build the progress record for a stage
+ * @param stage The stage the pipeline is in
+ * @param options.chunk The 1-based chunk being analyzed, for the analyzing stage
+ * @param options.totalChunks The number of chunks being analyzed
+ * @param options.message A message to show instead of the stage label
+ * @returns The progress to store on the report
+ */
+export function buildProgress(
+  stage: ProcessingStage,
+  options: { chunk?: number; totalChunks?: number; message?: string } = {}
+): ProcessingProgress {
+  const chunk = options.chunk ?? null;
+  const totalChunks = options.totalChunks ?? null;
+
+  let percent = PROCESSING_STAGES.find(entry => entry.stage === stage)?.percent ?? 0;
+  let message = getStageLabel(stage);
+
+  if (stage === 'analyzing' && chunk !== null && totalChunks) {
+    percent = Math.round(ANALYZING_START + ((chunk - 1) / totalChunks) * (ANALYZING_END - ANALYZING_START));
+    message = `Analyzing chunk ${chunk} of ${totalChunks} with Claude`;
+  }
+
+  return {
+    stage,
+    percent,
+    message: options.message || message,
+    chunk,
+    totalChunks,
+    updatedAt: new Date()
+  };
+}
+
+/**
+ * Record the pipeline's progress on the report document
+ * Failing to record progress never stops processing.
+ * @param reportId The report being processed
+ * @param stage The stage the pipeline has reached
+ * @param options Chunk details or a custom message; see buildProgress
+ */
+export async function recordProgress(
+  reportId: string,
+  stage: ProcessingStage,
+  options: { chunk?: number; totalChunks?: number; message?: string } = {}
+): Promise<void> {
+  try {
+    await updateDoc(doc(db, 'reports', reportId), {
+      progress: buildProgress(stage, options)
+    });
+  } catch (error) {
+    console.warn(`Could not record progress for report ${reportId}:`, error);
+  }
+}
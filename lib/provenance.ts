@@ -0,0 +1,111 @@
+import type { FieldProvenance, OcrPage, ReportData } from '@/types/report';
+import type { ParsedField } from './reportParser';
+import { getFieldValue, listPresentFieldPaths } from './reportFields';
+
+// The source Claude reports for a value it extracted
+export interface LlmFieldSource {
+  page?: number;
+  snippet?: string;
+}
+
+// Confidence scores by how a value was obtained
+export const CONFIDENCE = {
+  parser: 0.95,
+  llmVerified: 0.8,
+  llmUnverified: 0.5,
+  llmWithoutSource: 0.4
+};
+
+/**
+ * Normalize text for comparison by collapsing whitespace and ignoring case
+ */
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Check whether a snippet quoted by Claude actually appears in the report and contains the value
+ * @param source The source Claude reported
+ * @param value The extracted value
+ * @param pages The text of each page of the report
+ * @returns The page the snippet was found on, or null if it could not be verified
+ */
+function verifySnippet(source: LlmFieldSource, value: number, pages: string[]): number | null {
+  if (!source.snippet) return null;
+
+  const snippet = normalize(source.snippet);
+  const digits = String(value).replace('.', '');
+  if (!snippet.replace(/[^\d]/g, '').includes(digits)) return null;
+
+  // Check the reported page first, then the rest of the document
+  const reportedIndex = source.page ? source.page - 1 : -1;
+  if (pages[reportedIndex] && normalize(pages[reportedIndex]).includes(snippet)) {
+    return reportedIndex + 1;
+  }
+
+  const index = pages.findIndex(page => normalize(page).includes(snippet));
+  return index >= 0 ? index + 1 : null;
+}
+
+/**
+ * Build the provenance record for a value extracted by Claude
+ */
+function llmProvenance(source: LlmFieldSource | undefined, value: number, pages: string[]): FieldProvenance {
+  if (!source) {
+    return { method: 'llm', page: null, snippet: null, confidence: CONFIDENCE.llmWithoutSource };
+  }
+
+  const verifiedPage = verifySnippet(source, value, pages);
+  return {
+    method: 'llm',
+    page: verifiedPage || source.page || null,
+    snippet: source.snippet || null,
+    confidence: verifiedPage ? CONFIDENCE.llmVerified : CONFIDENCE.llmUnverified
+  };
+}
+
+/**
+ * Build the provenance for every value in the final report data
+ * @param data The merged report data
+ * @param parsedFields The fields found by the deterministic parser
+ * @param sources The sources Claude reported, keyed by field path
+ * @param pages The text of each page of the report
+ * @param ocrPages The pages whose text came from OCR; values read from them are only as reliable as the OCR
+ * @returns The provenance keyed by field path
+ */
+export function buildProvenance(
+  data: Partial<ReportData>,
+  parsedFields: ParsedField[],
+  sources: Record<string, LlmFieldSource>,
+  pages: string[],
+  ocrPages: OcrPage[] = []
+): Record<string, FieldProvenance> {
+  const provenance: Record<string, FieldProvenance> = {};
+  const parsedByField = new Map(parsedFields.map(field => [field.field, field]));
+  const ocrConfidenceByPage = new Map(ocrPages.map(page => [page.page, page.confidence]));
+
+  for (const path of listPresentFieldPaths(data)) {
+    const parsed = parsedByField.get(path);
+    if (parsed) {
+      provenance[path] = {
+        method: 'parser',
+        page: parsed.page,
+        snippet: parsed.line,
+        confidence: CONFIDENCE.parser
+      };
+      continue;
+    }
+
+    provenance[path] = llmProvenance(sources[path], getFieldValue(data, path)!, pages);
+  }
+
+  for (const entry of Object.values(provenance)) {
+    const ocrConfidence = entry.page !== null ? ocrConfidenceByPage.get(entry.page) : undefined;
+    if (ocrConfidence !== undefined) {
+      entry.ocrConfidence = ocrConfidence;
+      entry.confidence = Math.round(entry.confidence * ocrConfidence * 100) / 100;
+    }
+  }
+
+  return provenance;
+}
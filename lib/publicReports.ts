@@ -0,0 +1,64 @@
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from './firebase';
+import { signInServiceAccount } from './apiAuth';
+import { isPublicLinkActive } from './sharing';
+import type { ReportData } from '@/types/report';
+
+// The dashboard data of a report opened through a public link. Provenance, reviewer
+// corrections and OCR text stay private; only what the dashboard shows is published.
+export type PublicReportData = Omit<ReportData, 'provenance' | 'corrections' | 'ocrPages' | 'createdAt' | 'updatedAt'>;
+
+// A report published through a public link, as passed to the public and embed pages
+export interface PublicReport {
+  token: string;
+  title: string;
+  data: PublicReportData;
+}
+
+/**
+ * Load the report a public link points to
+ * Runs on the server, signed in as the service account, since visitors are not signed in.
+ * Only completed reports are published, so data still under review never leaks.
+ * @param token The public link's token
+ * @returns The report, or null if the link does not exist or no longer opens the report
+ */
+export async function loadPublicReport(token: string): Promise<PublicReport | null> {
+  // Tokens are 48 hex characters; anything else cannot be a link
+  if (!/^[0-9a-f]{48}$/.test(token)) return null;
+
+  await signInServiceAccount();
+
+  const linkDoc = await getDoc(doc(db, 'publicLinks', token));
+  if (!linkDoc.exists()) return null;
+  const link = linkDoc.data();
+
+  const reportDoc = await getDoc(doc(db, 'reports', link.reportId));
+  if (!reportDoc.exists()) return null;
+  const report = reportDoc.data();
+  if (!isPublicLinkActive(link, report) || report.status !== 'Completed') return null;
+
+  const reportDataDoc = await getDoc(doc(db, 'reportData', reportDoc.id));
+  if (!reportDataDoc.exists()) return null;
+  const reportData = reportDataDoc.data() as ReportData;
+
+  return {
+    token,
+    title: report.title,
+    data: {
+      reportId: reportDoc.id,
+      libraryName: reportData.libraryName,
+      year: report.year,
+      libraryOverview: reportData.libraryOverview,
+      collectionOverview: reportData.collectionOverview,
+      usageStatistics: reportData.usageStatistics,
+      collectionData: reportData.collectionData || [],
+      circulationData: reportData.circulationData || [],
+      revenueData: reportData.revenueData || [],
+      expenseData: reportData.expenseData || [],
+      programData: reportData.programData || [],
+      venueData: reportData.venueData || [],
+      summerReadingData: reportData.summerReadingData || [],
+      keyFindings: reportData.keyFindings || { strengths: [], areasForDevelopment: [] }
+    }
+  };
+}
@@ -0,0 +1,32 @@
+import type { ReportData } from '@/types/report';
+import { getFieldValue, listPresentFieldPaths, listReportFieldPaths } from './reportFields';
+
+// A value that differs between two versions of a report; null where a version has no value
+export interface FieldChange {
+  path: string;
+  previous: number | null;
+  current: number | null;
+}
+
+/**
+ * List the numeric values that differ between two versions of a report's data
+ * @param previous The earlier version's data
+ * @param current The later version's data
+ * @returns The changed values, in the order the fields appear in a report
+ */
+export function diffReportData(previous: Partial<ReportData>, current: Partial<ReportData>): FieldChange[] {
+  const present = new Set([...listPresentFieldPaths(previous), ...listPresentFieldPaths(current)]);
+  const standard = listReportFieldPaths();
+  const paths = [
+    ...standard.filter(path => present.has(path)),
+    ...Array.from(present).filter(path => !standard.includes(path))
+  ];
+
+  return paths
+    .map(path => ({
+      path,
+      previous: getFieldValue(previous, path) ?? null,
+      current: getFieldValue(current, path) ?? null
+    }))
+    .filter(change => change.previous !== change.current);
+}
@@ -0,0 +1,210 @@
+import ExcelJS from 'exceljs';
+import type { ReportData } from '@/types/report';
+import {
+  ARRAY_SECTIONS,
+  ARRAY_VALUE_KEYS,
+  ArraySection,
+  FIELD_LABELS,
+  OVERVIEW_FIELDS,
+  OVERVIEW_SECTIONS,
+  SECTION_LABELS
+} from './reportFields';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+type Cell = string | number;
+
+// One worksheet of an Excel export
+export interface ExportSheet {
+  name: string;
+  columns: string[];
+  rows: Cell[][];
+  // Rows whose numbers are not counts, such as the year, and are shown as they are
+  plainRows?: number[];
+}
+
+// Header cells whose numbers get a thousands separator in Excel
+const NUMERIC_COLUMNS = new Set(Object.values(FIELD_LABELS));
+
+/**
+ * Pick the Excel number format for a value, keeping the decimals of fractional values
+ * such as open hours per week
+ */
+function numberFormatFor(value: number): string {
+  return Number.isInteger(value) ? '#,##0' : '#,##0.##';
+}
+
+/**
+ * Build the overview sheet
+ * A single report gets one key/value row per field; several reports get one row
+ * per library with a column per field, which is easier to compare.
+ */
+function overviewSheet(reports: ReportData[], includeLibrary: boolean): ExportSheet {
+  const fields = OVERVIEW_SECTIONS.flatMap(section =>
+    OVERVIEW_FIELDS[section].map(key => ({ section, key }))
+  );
+
+  if (includeLibrary) {
+    return {
+      name: 'Overview',
+      columns: ['Library', 'Year', ...fields.map(field => FIELD_LABELS[field.key])],
+      rows: reports.map(report => [
+        report.libraryName,
+        report.year,
+        ...fields.map(field => (report[field.section] as unknown as Record<string, number>)?.[field.key] ?? '')
+      ])
+    };
+  }
+
+  const report = reports[0];
+  return {
+    name: 'Overview',
+    columns: ['Section', 'Field', 'Value'],
+    plainRows: [1],
+    rows: [
+      ['Report', 'Library', report.libraryName],
+      ['Report', 'Year', report.year],
+      ...fields.map(field => [
+        SECTION_LABELS[field.section],
+        FIELD_LABELS[field.key],
+        (report[field.section] as unknown as Record<string, number>)?.[field.key] ?? ''
+      ])
+    ]
+  };
+}
+
+/**
+ * Build the sheet for one array section, one row per category
+ */
+function arraySheet(section: ArraySection, reports: ReportData[], includeLibrary: boolean): ExportSheet {
+  const valueKeys = ARRAY_VALUE_KEYS[section];
+  return {
+    name: SECTION_LABELS[section],
+    columns: [...(includeLibrary ? ['Library'] : []), 'Category', ...valueKeys.map(key => FIELD_LABELS[key])],
+    rows: reports.flatMap(report =>
+      ((report[section] || []) as unknown as Record<string, Cell>[]).map(item => [
+        ...(includeLibrary ? [report.libraryName] : []),
+        item.name,
+        ...valueKeys.map(key => item[key] ?? '')
+      ])
+    )
+  };
+}
+
+/**
+ * Build the key findings sheet, one row per finding
+ */
+function findingsSheet(reports: ReportData[], includeLibrary: boolean): ExportSheet {
+  return {
+    name: 'Key Findings',
+    columns: [...(includeLibrary ? ['Library'] : []), 'Type', 'Finding'],
+    rows: reports.flatMap(report => [
+      ...(report.keyFindings?.strengths || []).map(finding => ['Strength', finding]),
+      ...(report.keyFindings?.areasForDevelopment || []).map(finding => ['Area for Development', finding])
+    ].map(row => [...(includeLibrary ? [report.libraryName] : []), ...row]))
+  };
+}
+
+/**
+ * Lay report data out as spreadsheet tables: the overview sections, one sheet per
+ * data array, and the key findings
+ * @param reports The report data; more than one for a bulk export
+ * @param includeLibrary Whether to add a library column, for bulk exports
+ */
+export function buildExportSheets(reports: ReportData[], includeLibrary = reports.length > 1): ExportSheet[] {
+  return [
+    overviewSheet(reports, includeLibrary),
+    ...ARRAY_SECTIONS.map(section => arraySheet(section, reports, includeLibrary)),
+    findingsSheet(reports, includeLibrary)
+  ];
+}
+
+/**
+ * Quote a CSV cell when needed
+ * Text that a spreadsheet would run as a formula is prefixed with an apostrophe.
+ */
+function csvCell(value: Cell): string {
+  if (typeof value === 'number') return String(value);
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Flatten report data into a single CSV with one value per row
+ * Columns are Section, Category, Field and Value, with Library first for bulk exports.
+ * @param reports The report data; more than one for a bulk export
+ * @param includeLibrary Whether to add a library column, for bulk exports
+ * @returns The CSV text
+ */
+export function buildExportCsv(reports: ReportData[], includeLibrary = reports.length > 1): string {
+  const lines: Cell[][] = [[...(includeLibrary ? ['Library'] : []), 'Section', 'Category', 'Field', 'Value']];
+
+  for (const report of reports) {
+    const library = includeLibrary ? [report.libraryName] : [];
+
+    if (!includeLibrary) {
+      lines.push(['Report', '', 'Library', report.libraryName], ['Report', '', 'Year', report.year]);
+    }
+    for (const section of OVERVIEW_SECTIONS) {
+      for (const key of OVERVIEW_FIELDS[section]) {
+        const value = (report[section] as unknown as Record<string, number>)?.[key] ?? '';
+        lines.push([...library, SECTION_LABELS[section], '', FIELD_LABELS[key], value]);
+      }
+    }
+    for (const section of ARRAY_SECTIONS) {
+      for (const item of (report[section] || []) as unknown as Record<string, Cell>[]) {
+        for (const key of ARRAY_VALUE_KEYS[section]) {
+          lines.push([...library, SECTION_LABELS[section], item.name, FIELD_LABELS[key], item[key] ?? '']);
+        }
+      }
+    }
+    for (const finding of report.keyFindings?.strengths || []) {
+      lines.push([...library, 'Key Findings', 'Strength', 'Finding', finding]);
+    }
+    for (const finding of report.keyFindings?.areasForDevelopment || []) {
+      lines.push([...library, 'Key Findings', 'Area for Development', 'Finding', finding]);
+    }
+  }
+
+  // The byte order mark makes Excel open the file as UTF-8
+  return '\uFEFF' + lines.map(line => line.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Write the sheets to an Excel workbook
+ * @returns The .xlsx file contents
+ */
+export async function sheetsToXlsx(sheets: ExportSheet[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'NCLS Annual Report Dashboard';
+  workbook.created = new Date();
+
+  for (const sheet of sheets) {
+    const worksheet = workbook.addWorksheet(sheet.name, { views: [{ state: 'frozen', ySplit: 1 }] });
+    worksheet.columns = sheet.columns.map(column => ({
+      header: column,
+      key: column,
+      width: column === 'Finding' ? 80 : Math.max(12, column.length + 2)
+    }));
+    worksheet.getRow(1).font = { bold: true };
+    worksheet.addRows(sheet.rows);
+
+    // Formats are set per cell, since a key/value sheet mixes counts, decimals and the year
+    sheet.rows.forEach((row, rowIndex) => {
+      if (sheet.plainRows?.includes(rowIndex)) return;
+      row.forEach((value, columnIndex) => {
+        if (typeof value === 'number' && NUMERIC_COLUMNS.has(sheet.columns[columnIndex])) {
+          worksheet.getRow(rowIndex + 2).getCell(columnIndex + 1).numFmt = numberFormatFor(value);
+        }
+      });
+    });
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer as ArrayBuffer);
+}
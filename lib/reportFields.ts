@@ -0,0 +1,230 @@
+import type { ReportData } from '@/types/report';
+import { CATEGORY_TAXONOMY, resolveCategory } from './categoryTaxonomy';
+
+// Overview sections hold a fixed set of numeric fields
+export const OVERVIEW_FIELDS = {
+  libraryOverview: ['populationServed', 'annualVisits', 'registeredBorrowers', 'openHoursPerWeek'],
+  collectionOverview: ['totalItems', 'printMaterials', 'physicalAudioVideo', 'otherPhysicalItems'],
+  usageStatistics: ['physicalItemCirculation', 'eBookCirculation', 'eAudioCirculation', 'referenceTransactions']
+} as const;
+
+export type OverviewSection = keyof typeof OVERVIEW_FIELDS;
+
+// Array sections hold one item per category, each with one or more numeric values
+export const ARRAY_VALUE_KEYS = {
+  collectionData: ['value'],
+  circulationData: ['value'],
+  revenueData: ['value'],
+  expenseData: ['value'],
+  programData: ['sessions', 'attendance'],
+  venueData: ['sessions', 'attendance'],
+  summerReadingData: ['registered', 'sessions', 'attendance']
+} as const;
+
+export type ArraySection = keyof typeof ARRAY_VALUE_KEYS;
+
+// The categories we expect to find in each array section of a standard report, from the taxonomy
+export const ARRAY_CATEGORIES = Object.fromEntries(
+  Object.entries(CATEGORY_TAXONOMY).map(([section, categories]) => [section, categories.map(category => category.name)])
+) as Record<ArraySection, string[]>;
+
+// Display labels for sections and overview fields
+export const SECTION_LABELS: Record<OverviewSection | ArraySection, string> = {
+  libraryOverview: 'Library Overview',
+  collectionOverview: 'Collection Size',
+  usageStatistics: 'Usage Statistics',
+  collectionData: 'Collection',
+  circulationData: 'Circulation',
+  revenueData: 'Revenue',
+  expenseData: 'Expenditures',
+  programData: 'Programs',
+  venueData: 'Program Venues',
+  summerReadingData: 'Summer Reading'
+};
+
+export const FIELD_LABELS: Record<string, string> = {
+  populationServed: 'Population Served',
+  annualVisits: 'Annual Visits',
+  registeredBorrowers: 'Registered Borrowers',
+  openHoursPerWeek: 'Open Hours Per Week',
+  totalItems: 'Total Items',
+  printMaterials: 'Print Materials',
+  physicalAudioVideo: 'Physical Audio/Video',
+  otherPhysicalItems: 'Other Physical Items',
+  physicalItemCirculation: 'Physical Item Circulation',
+  eBookCirculation: 'E-Book Circulation',
+  eAudioCirculation: 'E-Audio Circulation',
+  referenceTransactions: 'Reference Transactions',
+  value: 'Value',
+  registered: 'Registered',
+  sessions: 'Sessions',
+  attendance: 'Attendance'
+};
+
+export const OVERVIEW_SECTIONS = Object.keys(OVERVIEW_FIELDS) as OverviewSection[];
+export const ARRAY_SECTIONS = Object.keys(ARRAY_VALUE_KEYS) as ArraySection[];
+
+/**
+ * A parsed field path. Overview fields look like `libraryOverview.populationServed`,
+ * array fields look like `programData[Ages 0-5].attendance`.
+ */
+export type FieldPath =
+  | { kind: 'overview'; section: OverviewSection; key: string }
+  | { kind: 'array'; section: ArraySection; name: string; key: string };
+
+/**
+ * Parse a field path string into its parts
+ * @param path The field path to parse
+ * @returns The parsed path, or null if the path is not valid
+ */
+export function parseFieldPath(path: string): FieldPath | null {
+  const arrayMatch = path.match(/^(\w+)\[(.+)\]\.(\w+)$/);
+  if (arrayMatch) {
+    const [, section, name, key] = arrayMatch;
+    if (!(section in ARRAY_VALUE_KEYS)) return null;
+    return { kind: 'array', section: section as ArraySection, name, key };
+  }
+
+  const overviewMatch = path.match(/^(\w+)\.(\w+)$/);
+  if (overviewMatch) {
+    const [, section, key] = overviewMatch;
+    if (!(section in OVERVIEW_FIELDS)) return null;
+    return { kind: 'overview', section: section as OverviewSection, key };
+  }
+
+  return null;
+}
+
+/**
+ * Build the field path for an array item value
+ */
+export function arrayFieldPath(section: ArraySection, name: string, key: string): string {
+  return `${section}[${name}].${key}`;
+}
+
+/**
+ * List every field path a complete report is expected to contain
+ * @returns All overview and array field paths
+ */
+export function listReportFieldPaths(): string[] {
+  const paths: string[] = [];
+
+  for (const section of OVERVIEW_SECTIONS) {
+    for (const key of OVERVIEW_FIELDS[section]) {
+      paths.push(`${section}.${key}`);
+    }
+  }
+
+  for (const section of ARRAY_SECTIONS) {
+    for (const name of ARRAY_CATEGORIES[section]) {
+      for (const key of ARRAY_VALUE_KEYS[section]) {
+        paths.push(arrayFieldPath(section, name, key));
+      }
+    }
+  }
+
+  return paths;
+}
+
+/**
+ * List the field paths that actually hold a value in the given data
+ * @param data The (possibly partial) report data
+ * @returns The paths of all numeric values present
+ */
+export function listPresentFieldPaths(data: Partial<ReportData>): string[] {
+  const paths: string[] = [];
+
+  for (const section of OVERVIEW_SECTIONS) {
+    const values = data[section] as Record<string, unknown> | undefined;
+    if (!values) continue;
+    for (const key of OVERVIEW_FIELDS[section]) {
+      if (typeof values[key] === 'number') {
+        paths.push(`${section}.${key}`);
+      }
+    }
+  }
+
+  for (const section of ARRAY_SECTIONS) {
+    const items = data[section] as Array<Record<string, unknown>> | undefined;
+    if (!Array.isArray(items)) continue;
+    for (const item of items) {
+      for (const key of ARRAY_VALUE_KEYS[section]) {
+        if (typeof item[key] === 'number') {
+          paths.push(arrayFieldPath(section, String(item.name), key));
+        }
+      }
+    }
+  }
+
+  return paths;
+}
+
+/**
+ * Describe a field path for display, e.g. "Programs – Ages 0-5 (Attendance)"
+ */
+export function describeFieldPath(path: string): string {
+  const parsed = parseFieldPath(path);
+  if (!parsed) return path;
+
+  const sectionLabel = SECTION_LABELS[parsed.section];
+  const keyLabel = FIELD_LABELS[parsed.key] || parsed.key;
+
+  if (parsed.kind === 'overview') {
+    return `${sectionLabel} – ${keyLabel}`;
+  }
+
+  return parsed.key === 'value'
+    ? `${sectionLabel} – ${parsed.name}`
+    : `${sectionLabel} – ${parsed.name} (${keyLabel})`;
+}
+
+/**
+ * Read a numeric value from report data by field path
+ * @param data The (possibly partial) report data
+ * @param path The field path to read
+ * @returns The value, or undefined if it is not present
+ */
+export function getFieldValue(data: Partial<ReportData>, path: string): number | undefined {
+  const parsed = parseFieldPath(path);
+  if (!parsed) return undefined;
+
+  if (parsed.kind === 'overview') {
+    const section = data[parsed.section] as Record<string, number> | undefined;
+    return typeof section?.[parsed.key] === 'number' ? section[parsed.key] : undefined;
+  }
+
+  const items = data[parsed.section] as Array<Record<string, unknown>> | undefined;
+  const value = items?.find(entry => entry.name === parsed.name)?.[parsed.key];
+  return typeof value === 'number' ? value : undefined;
+}
+
+/**
+ * Write a numeric value into report data by field path, creating the section or item if needed
+ * @param data The report data to modify in place
+ * @param path The field path to write
+ * @param value The value to store
+ */
+export function setFieldValue(data: Partial<ReportData>, path: string, value: number): void {
+  const parsed = parseFieldPath(path);
+  if (!parsed) {
+    throw new Error(`Invalid field path: ${path}`);
+  }
+
+  const target = data as Record<string, unknown>;
+
+  if (parsed.kind === 'overview') {
+    const section = (target[parsed.section] || {}) as Record<string, number>;
+    section[parsed.key] = value;
+    target[parsed.section] = section;
+    return;
+  }
+
+  const items = (target[parsed.section] || []) as Array<Record<string, unknown>>;
+  let item = items.find(entry => entry.name === parsed.name);
+  if (!item) {
+    item = { name: parsed.name, categoryId: resolveCategory(parsed.section, parsed.name)?.id ?? null };
+    items.push(item);
+  }
+  item[parsed.key] = value;
+  target[parsed.section] = items;
+}
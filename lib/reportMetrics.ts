@@ -0,0 +1,196 @@
+import type { ReportData } from '@/types/report';
+import { resolveCategory } from './categoryTaxonomy';
+
+// The parts of the report data the metrics are derived from
+export type MetricInput = Pick<
+  ReportData,
+  'libraryOverview' | 'collectionOverview' | 'usageStatistics' | 'revenueData' | 'expenseData' | 'programData'
+>;
+
+// Whether a higher value compares favourably; neutral metrics describe a mix rather than a performance
+export type MetricDirection = 'higher' | 'lower' | 'neutral';
+
+export interface ReportMetric {
+  key: string;
+  label: string;
+  description: string;
+  format: 'ratio' | 'currency' | 'percent';
+  direction: MetricDirection;
+  calculate: (data: MetricInput) => number | null;
+}
+
+// Weeks used to turn weekly open hours into annual hours
+const WEEKS_PER_YEAR = 52;
+
+/**
+ * Divide, returning null instead of Infinity or NaN, or when either side is missing
+ */
+function safeDivide(numerator: number | null | undefined, denominator: number | null | undefined): number | null {
+  if (numerator === null || numerator === undefined || denominator === null || denominator === undefined) return null;
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+/**
+ * Add up the values that are present
+ * @returns The sum, or null if every value is missing, so a missing figure is not shown as zero
+ */
+function sumPresent(values: Array<number | null | undefined>): number | null {
+  const present = values.filter((value): value is number => typeof value === 'number');
+  return present.length > 0 ? present.reduce((sum, value) => sum + value, 0) : null;
+}
+
+/**
+ * Total physical, eBook and eAudio circulation
+ * @returns The total, or null if the report has none of them
+ */
+export function totalCirculation(data: Pick<ReportData, 'usageStatistics'>): number | null {
+  const usage = data.usageStatistics;
+  return sumPresent([usage?.physicalItemCirculation, usage?.eBookCirculation, usage?.eAudioCirculation]);
+}
+
+/**
+ * Total of all revenue sources
+ * @returns The total, or null if the report lists no revenue
+ */
+export function totalRevenue(data: Pick<ReportData, 'revenueData'>): number | null {
+  return sumPresent((data.revenueData || []).map(item => item.value));
+}
+
+/**
+ * Total of all expenditure categories
+ * @returns The total, or null if the report lists no expenditures
+ */
+export function totalExpenses(data: Pick<ReportData, 'expenseData'>): number | null {
+  return sumPresent((data.expenseData || []).map(item => item.value));
+}
+
+/**
+ * Total attendance across all program age groups
+ * @returns The total, or null if the report lists no programs
+ */
+export function programAttendance(data: Pick<ReportData, 'programData'>): number | null {
+  return sumPresent((data.programData || []).map(item => item.attendance));
+}
+
+/**
+ * Total sessions across all program age groups
+ * @returns The total, or null if the report lists no programs
+ */
+export function programSessions(data: Pick<ReportData, 'programData'>): number | null {
+  return sumPresent((data.programData || []).map(item => item.sessions));
+}
+
+export const REPORT_METRICS: ReportMetric[] = [
+  {
+    key: 'circulationPerCapita',
+    label: 'Circulation per Capita',
+    description: 'Physical, eBook and eAudio circulation divided by population served',
+    format: 'ratio',
+    direction: 'higher',
+    calculate: data => safeDivide(totalCirculation(data), data.libraryOverview?.populationServed)
+  },
+  {
+    key: 'visitsPerCapita',
+    label: 'Visits per Capita',
+    description: 'Annual visits divided by population served',
+    format: 'ratio',
+    direction: 'higher',
+    calculate: data => safeDivide(data.libraryOverview?.annualVisits, data.libraryOverview?.populationServed)
+  },
+  {
+    key: 'visitsPerOpenHour',
+    label: 'Visits per Open Hour',
+    description: `Annual visits divided by weekly open hours times ${WEEKS_PER_YEAR}`,
+    format: 'ratio',
+    direction: 'higher',
+    calculate: data => {
+      const openHours = data.libraryOverview?.openHoursPerWeek;
+      return safeDivide(data.libraryOverview?.annualVisits, openHours === undefined ? null : openHours * WEEKS_PER_YEAR);
+    }
+  },
+  {
+    key: 'collectionTurnover',
+    label: 'Collection Turnover',
+    description: 'Physical item circulation divided by total items held',
+    format: 'ratio',
+    direction: 'higher',
+    calculate: data => safeDivide(data.usageStatistics?.physicalItemCirculation, data.collectionOverview?.totalItems)
+  },
+  {
+    key: 'expenditurePerCapita',
+    label: 'Expenditure per Capita',
+    description: 'Total expenditures divided by population served',
+    format: 'currency',
+    direction: 'neutral',
+    calculate: data => safeDivide(totalExpenses(data), data.libraryOverview?.populationServed)
+  },
+  {
+    key: 'costPerCirculation',
+    label: 'Cost per Circulation',
+    description: 'Total expenditures divided by total circulation',
+    format: 'currency',
+    direction: 'lower',
+    calculate: data => safeDivide(totalExpenses(data), totalCirculation(data))
+  },
+  {
+    key: 'staffShareOfExpenses',
+    label: 'Staff Share of Expenses',
+    description: 'Staff expenditures as a share of total expenditures',
+    format: 'percent',
+    direction: 'neutral',
+    calculate: data => safeDivide(
+      sumPresent((data.expenseData || []).filter(item => resolveCategory('expenseData', item.name)?.id === 'expense.staff').map(item => item.value)),
+      totalExpenses(data)
+    )
+  },
+  {
+    key: 'digitalShareOfCirculation',
+    label: 'Digital Share of Circulation',
+    description: 'eBook and eAudio circulation as a share of total circulation',
+    format: 'percent',
+    direction: 'neutral',
+    calculate: data => safeDivide(
+      sumPresent([data.usageStatistics?.eBookCirculation, data.usageStatistics?.eAudioCirculation]),
+      totalCirculation(data)
+    )
+  },
+  {
+    key: 'programAttendancePerSession',
+    label: 'Attendance per Program',
+    description: 'Program attendance divided by program sessions',
+    format: 'ratio',
+    direction: 'higher',
+    calculate: data => safeDivide(programAttendance(data), programSessions(data))
+  },
+  {
+    key: 'programAttendancePerCapita',
+    label: 'Program Attendance per Capita',
+    description: 'Program attendance divided by population served',
+    format: 'ratio',
+    direction: 'higher',
+    calculate: data => safeDivide(programAttendance(data), data.libraryOverview?.populationServed)
+  }
+];
+
+/**
+ * Calculate every metric for a report
+ * @param data The report data
+ * @returns The value of each metric keyed by metric key; null where the inputs are missing or zero
+ */
+export function computeReportMetrics(data: MetricInput): Record<string, number | null> {
+  const metrics: Record<string, number | null> = {};
+  for (const metric of REPORT_METRICS) {
+    metrics[metric.key] = metric.calculate(data);
+  }
+  return metrics;
+}
+
+/**
+ * Format a metric value for display
+ */
+export function formatMetricValue(metric: Pick<ReportMetric, 'format'>, value: number | null): string {
+  if (value === null) return '–';
+  if (metric.format === 'currency') return `$${value.toFixed(2)}`;
+  if (metric.format === 'percent') return `${(value * 100).toFixed(1)}%`;
+  return value.toFixed(2);
+}
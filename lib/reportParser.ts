@@ -0,0 +1,282 @@
+import type { ReportData } from '@/types/report';
+import { arrayFieldPath, setFieldValue } from './reportFields';
+
+// A single line item of the NYS Public Library Annual Report and the labels it appears under
+interface LineItemRule {
+  field: string;
+  patterns: RegExp[];
+}
+
+// A value found by the parser together with the page and line it was read from
+export interface ParsedField {
+  field: string;
+  value: number;
+  page: number;
+  line: string;
+}
+
+export interface ParsedReport {
+  data: Partial<ReportData>;
+  fields: ParsedField[];
+}
+
+/**
+ * Rules for the standard NYS annual report line items.
+ * More specific labels are listed before general ones, since each line is
+ * only ever assigned to the first rule that matches it.
+ */
+const LINE_ITEM_RULES: LineItemRule[] = [
+  // Part 1: General information
+  {
+    field: 'libraryOverview.populationServed',
+    patterns: [
+      /population\s+(?:of\s+)?(?:the\s+)?chartered\s+service\s+area/i,
+      /total\s+population\s+(?:chartered\s+to\s+serve|served)/i,
+      /population\s+served/i
+    ]
+  },
+  {
+    field: 'libraryOverview.registeredBorrowers',
+    patterns: [/(?:number\s+of\s+)?registered\s+(?:users|borrowers)/i]
+  },
+  {
+    field: 'libraryOverview.openHoursPerWeek',
+    patterns: [
+      /(?:public\s+service\s+)?hours\s+open\s+(?:per\s+)?week(?:ly)?/i,
+      /(?:weekly|per\s+week)\s+public\s+service\s+hours/i,
+      /open\s+hours\s+per\s+week/i
+    ]
+  },
+  {
+    field: 'libraryOverview.annualVisits',
+    patterns: [/(?:total\s+)?(?:annual\s+)?(?:number\s+of\s+)?library\s+visits/i, /annual\s+visits/i]
+  },
+
+  // Part 2: Collection
+  {
+    field: 'collectionOverview.printMaterials',
+    patterns: [/total\s+print\s+materials/i, /print\s+materials\s+(?:held|total)/i]
+  },
+  {
+    field: 'collectionOverview.physicalAudioVideo',
+    patterns: [/total\s+physical\s+audio\s*(?:\/|and|&)\s*video/i, /physical\s+audio\s*(?:\/|and|&)\s*video\s+materials/i]
+  },
+  {
+    field: 'collectionOverview.otherPhysicalItems',
+    patterns: [/(?:total\s+)?other\s+physical\s+items/i]
+  },
+  {
+    field: 'collectionOverview.totalItems',
+    patterns: [/total\s+(?:physical\s+)?(?:items|holdings)\s+(?:in\s+)?(?:the\s+)?collection/i, /total\s+collection/i]
+  },
+
+  // Part 2: Library use
+  {
+    field: 'usageStatistics.physicalItemCirculation',
+    patterns: [/(?:total\s+)?circulation\s+of\s+(?:all\s+)?physical\s+items/i, /physical\s+item\s+circulation/i]
+  },
+  {
+    field: 'usageStatistics.eBookCirculation',
+    patterns: [/(?:use|circulation)\s+of\s+e-?books/i, /e-?book\s+(?:circulation|checkouts|use)/i]
+  },
+  {
+    field: 'usageStatistics.eAudioCirculation',
+    patterns: [
+      /(?:use|circulation)\s+of\s+(?:downloadable|e-?)\s*audio/i,
+      /e-?audio\s+(?:circulation|checkouts|use)/i,
+      /downloadable\s+audio\s+(?:circulation|checkouts|use)/i
+    ]
+  },
+  {
+    field: 'usageStatistics.referenceTransactions',
+    patterns: [/(?:total\s+)?(?:annual\s+)?reference\s+(?:transactions|questions)/i]
+  },
+
+  // Part 3: Finance - revenue
+  {
+    field: arrayFieldPath('revenueData', 'School District', 'value'),
+    patterns: [/school\s+district\s+(?:tax|funds|funding|appropriation)/i, /local\s+public\s+funds.*school\s+district/i]
+  },
+  {
+    field: arrayFieldPath('revenueData', 'Town/City Funding', 'value'),
+    patterns: [
+      /(?:municipal|town|city|village|county)\s+(?:tax|funds|funding|appropriation)/i,
+      /local\s+public\s+funds.*(?:municipal|town|city|village)/i
+    ]
+  },
+  {
+    field: arrayFieldPath('revenueData', 'LLSA', 'value'),
+    patterns: [/local\s+library\s+services?\s+aid/i, /\bLLSA\b/]
+  },
+  {
+    field: arrayFieldPath('revenueData', 'Other Grants', 'value'),
+    patterns: [/other\s+(?:state\s+|federal\s+)?grants/i]
+  },
+  {
+    field: arrayFieldPath('revenueData', 'Gifts & Endowments', 'value'),
+    patterns: [/gifts\s*(?:and|&)\s*endowments/i]
+  },
+  {
+    field: arrayFieldPath('revenueData', 'Fundraising', 'value'),
+    patterns: [/fund\s*-?\s*raising/i]
+  },
+  {
+    field: arrayFieldPath('revenueData', 'Other', 'value'),
+    patterns: [/(?:all\s+)?other\s+(?:operating\s+)?(?:revenue|receipts|income)/i]
+  },
+
+  // Part 3: Finance - expenditures
+  {
+    field: arrayFieldPath('expenseData', 'Staff', 'value'),
+    patterns: [/total\s+staff\s+expenditures/i, /salaries\s+(?:and|&)\s+(?:employee\s+)?benefits/i]
+  },
+  {
+    field: arrayFieldPath('expenseData', 'Collection', 'value'),
+    patterns: [/total\s+collection\s+expenditures/i, /library\s+materials\s+expenditures/i]
+  },
+  {
+    field: arrayFieldPath('expenseData', 'Capital', 'value'),
+    patterns: [/(?:total\s+)?capital\s+expenditures/i]
+  },
+  {
+    field: arrayFieldPath('expenseData', 'Building Maintenance', 'value'),
+    patterns: [/(?:operation\s+and\s+)?maintenance\s+of\s+(?:the\s+)?building/i, /building\s+(?:maintenance|repairs)/i]
+  },
+  {
+    field: arrayFieldPath('expenseData', 'Office & Supplies', 'value'),
+    patterns: [/(?:library\s+and\s+)?office\s+(?:and|&)?\s*supplies/i]
+  },
+  {
+    field: arrayFieldPath('expenseData', 'Telecommunications', 'value'),
+    patterns: [/telecommunications?/i]
+  },
+  {
+    field: arrayFieldPath('expenseData', 'Professional Fees', 'value'),
+    patterns: [/professional\s+(?:and\s+consultant\s+)?fees/i]
+  },
+  {
+    field: arrayFieldPath('expenseData', 'Equipment', 'value'),
+    patterns: [/(?:library\s+)?equipment\s+(?:expenditures|purchases)/i, /^\s*[\d.]*\s*equipment\b/i]
+  },
+  {
+    field: arrayFieldPath('expenseData', 'Contracts', 'value'),
+    patterns: [/contract(?:ed|ual)?\s+(?:services|payments|with)/i]
+  },
+  {
+    field: arrayFieldPath('expenseData', 'Other', 'value'),
+    patterns: [/(?:all\s+)?other\s+(?:operating\s+)?expenditures/i]
+  },
+
+  // Part 4: Programs
+  ...programRules('Ages 0-5', /ages?\s*0\s*[-–]\s*5/i),
+  ...programRules('Ages 6-11', /ages?\s*6\s*[-–]\s*11/i),
+  ...programRules('Ages 12-18', /ages?\s*12\s*[-–]\s*18/i),
+  ...programRules('Adult (19+)', /(?:ages?\s*19\s*(?:\+|and\s+(?:over|older))|adult)/i),
+  ...programRules('General Interest', /general\s+interest/i)
+];
+
+/**
+ * Build the session and attendance rules for one program age group
+ */
+function programRules(name: string, group: RegExp): LineItemRule[] {
+  const groupSource = group.source;
+  return [
+    {
+      field: arrayFieldPath('programData', name, 'attendance'),
+      patterns: [new RegExp(`attendance\\s+at\\s+.*(?:programs?.*${groupSource}|${groupSource}.*programs?)`, 'i')]
+    },
+    {
+      field: arrayFieldPath('programData', name, 'sessions'),
+      patterns: [new RegExp(`number\\s+of\\s+.*(?:programs?.*${groupSource}|${groupSource}.*programs?)`, 'i')]
+    }
+  ];
+}
+
+// A number as it appears in the report, with optional currency sign, thousands separators and decimals
+const NUMBER_PATTERN = /\$?\s*\(?-?\d{1,3}(?:,\d{3})+(?:\.\d+)?\)?|\$?\s*\(?-?\d+(?:\.\d+)?\)?/g;
+
+/**
+ * Read the value for a line item, preferring the last number after the label.
+ * Falls back to the next line when the value was rendered on a line of its own.
+ */
+function readLineValue(afterLabel: string, nextLine: string | undefined): number | null {
+  const matches = afterLabel.match(NUMBER_PATTERN);
+  const candidate = matches ? matches[matches.length - 1] : null;
+
+  if (candidate) {
+    return parseReportNumber(candidate);
+  }
+
+  if (nextLine && /^\s*\$?\s*\(?-?[\d,]+(?:\.\d+)?\)?\s*$/.test(nextLine)) {
+    return parseReportNumber(nextLine);
+  }
+
+  return null;
+}
+
+// A number as printed: an optional leading minus sign, currency sign and parentheses around
+// digits with optional thousands separators and decimals
+const REPORT_NUMBER = /^(-)?\s*\$?\s*(-)?\s*(\()?\s*\$?\s*(\d[\d,]*(?:\.\d+)?|\.\d+)\s*(\))?$/;
+
+/**
+ * Convert a number as printed in the report into a numeric value
+ * Only a leading minus sign or surrounding parentheses make a number negative; text with a
+ * hyphen anywhere else, such as the range "1-5", is not a number.
+ * @param raw The raw text, e.g. "$1,234.50" or "(250)"
+ * @returns The parsed number, or null if it is not a valid number
+ */
+export function parseReportNumber(raw: string): number | null {
+  const match = raw.trim().match(REPORT_NUMBER);
+  if (!match) return null;
+
+  const [, minus, minusAfterCurrency, open, digits, close] = match;
+  const value = parseFloat(digits.replace(/,/g, ''));
+  if (isNaN(value)) return null;
+
+  const isNegative = !!minus || !!minusAfterCurrency || (!!open && !!close);
+  return isNegative ? -value : value;
+}
+
+/**
+ * Extract the standard NYS Public Library Annual Report line items from the PDF text
+ * This is a deterministic pass that runs before the LLM so that values which follow the
+ * state template are read exactly as printed rather than inferred.
+ * @param pages The text of each page of the report PDF, in order
+ * @returns The partial report data and the fields that were found
+ */
+export function parseAnnualReportPages(pages: string[]): ParsedReport {
+  const data: Partial<ReportData> = {};
+  const fields: ParsedField[] = [];
+  const found = new Set<string>();
+
+  pages.forEach((pageText, pageIndex) => {
+    const lines = pageText.split(/\r?\n/).map(line => line.replace(/\s+/g, ' ').trim());
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      if (!line) continue;
+
+      for (const rule of LINE_ITEM_RULES) {
+        const match = rule.patterns
+          .map(pattern => line.match(pattern))
+          .find((result): result is RegExpMatchArray => result !== null);
+        if (!match) continue;
+
+        // The line belongs to this rule, even if the field was already found or has no value
+        if (!found.has(rule.field)) {
+          const afterLabel = line.slice((match.index || 0) + match[0].length);
+          const value = readLineValue(afterLabel, lines[i + 1]);
+
+          if (value !== null && value >= 0) {
+            setFieldValue(data, rule.field, value);
+            fields.push({ field: rule.field, value, page: pageIndex + 1, line });
+            found.add(rule.field);
+          }
+        }
+        break;
+      }
+    }
+  });
+
+  return { data, fields };
+}
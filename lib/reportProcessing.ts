@@ -1,168 +1,182 @@
-import { doc, getDoc, setDoc, updateDoc, collection, query, where, getDocs } from 'firebase/firestore';
+import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
 import { db } from './firebase';
 import pdfParse from 'pdf-parse';
+import type { OcrPage, ReportData } from '@/types/report';
+import { parseAnnualReportPages } from './reportParser';
+import { ARRAY_VALUE_KEYS, arrayFieldPath, getFieldValue, listReportFieldPaths, setFieldValue } from './reportFields';
+import { buildProvenance } from './provenance';
+import { applyCorrections } from './reportReview';
+import { assertValidReportData, formatIssues, ReportValidationError, ValidationIssue, validateReportData } from './reportSchema';
+import { ExtractionMessage, ExtractionProvider, getExtractionProvider } from './extractionProviders';
+import { buildProgress, recordProgress } from './processingProgress';
+import { findLowTextPages, MAX_OCR_PAGES, ocrPdfPages } from './ocr';
+import { CategoryNormalization, normalizeReportCategories } from './categoryTaxonomy';
+import { ExtractedData, mergeChunkResults } from './chunkMerge';
+import { chunkPages, describeChunk, PageChunk } from './pdfChunking';
 
-// Interface for the report data structure
-interface ReportData {
-  reportId: string;
-  libraryName: string;
-  year: number;
-  libraryOverview: {
-    populationServed: number;
-    annualVisits: number;
-    registeredBorrowers: number;
-    openHoursPerWeek: number;
-  };
-  collectionOverview: {
-    totalItems: number;
-    printMaterials: number;
-    physicalAudioVideo: number;
-    otherPhysicalItems: number;
-  };
-  usageStatistics: {
-    physicalItemCirculation: number;
-    eBookCirculation: number;
-    eAudioCirculation: number;
-    referenceTransactions: number;
-  };
-  collectionData: Array<{ name: string; value: number }>;
-  circulationData: Array<{ name: string; value: number }>;
-  revenueData: Array<{ name: string; value: number }>;
-  expenseData: Array<{ name: string; value: number }>;
-  programData: Array<{ name: string; sessions: number; attendance: number }>;
-  venueData: Array<{ name: string; sessions: number; attendance: number }>;
-  summerReadingData: Array<{ name: string; registered: number; sessions: number; attendance: number }>;
-  keyFindings: {
-    strengths: string[];
-    areasForDevelopment: string[];
-  };
-  createdAt?: any;
-  updatedAt?: any;
-}
+// How many times an invalid Claude response is sent back for repair before giving up
+const MAX_REPAIR_ATTEMPTS = 2;
 
-// Claude API response interface
-interface ClaudeResponse {
-  id: string;
-  type: string;
-  role: string;
-  content: Array<{
-    type: string;
-    text: string;
-  }>;
-  model: string;
-  stop_reason: string;
-  stop_sequence: string | null;
-  usage: {
-    input_tokens: number;
-    output_tokens: number;
-  };
+/**
+ * Thrown when the report being processed or its library no longer exists
+ */
+export class ReportNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReportNotFoundError';
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, ReportNotFoundError.prototype);
+  }
 }
 
 /**
  * Process a report PDF using Claude AI
+ * Errors are thrown rather than recorded on the report; the job queue decides
+ * whether to retry or to mark the report as failed.
  * @param reportId The ID of the report to process
- * @returns A promise that resolves to true if processing was successful, false otherwise
  */
-export async function processReportWithAI(reportId: string): Promise<boolean> {
-  try {
-    // 1. Update status to 'Processing'
-    await updateDoc(doc(db, 'reports', reportId), { 
-      status: 'Processing',
-      updatedAt: new Date()
-    });
-    
-    // 2. Get the report document to access the PDF URL and library info
-    const reportDoc = await getDoc(doc(db, 'reports', reportId));
-    if (!reportDoc.exists()) {
-      throw new Error('Report not found');
-    }
-    
-    const reportData = reportDoc.data();
-    const pdfUrl = reportData.pdfPath;
-    const libraryId = reportData.libraryId;
-    const year = reportData.year;
-    
-    // 3. Get library information
-    const libraryDoc = await getDoc(doc(db, 'libraries', libraryId));
-    if (!libraryDoc.exists()) {
-      throw new Error('Library not found');
-    }
-    
-    const libraryData = libraryDoc.data();
-    const libraryName = libraryData.name || 'Unknown Library';
-    
-    // 4. Download and extract text from the PDF
-    const pdfText = await downloadAndExtractPdfText(pdfUrl);
-    
-    // 5. Process the PDF text with Claude API
-    const processedData = await processLargePdfWithClaudeAI(pdfText, year, libraryName);
-    
-    // 6. Combine with library data and create final report data
-    const finalReportData: ReportData = {
-      reportId,
-      libraryName,
-      year,
-      libraryOverview: processedData.libraryOverview!,
-      collectionOverview: processedData.collectionOverview!,
-      usageStatistics: processedData.usageStatistics!,
-      collectionData: processedData.collectionData!,
-      circulationData: processedData.circulationData!,
-      revenueData: processedData.revenueData!,
-      expenseData: processedData.expenseData!,
-      programData: processedData.programData!,
-      venueData: processedData.venueData!,
-      summerReadingData: processedData.summerReadingData!,
-      keyFindings: processedData.keyFindings!,
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
-    
-    // 7. Store the data in Firestore
-    await setDoc(doc(db, 'reportData', reportId), finalReportData);
-    
-    // 8. Update report status to 'Completed'
-    await updateDoc(doc(db, 'reports', reportId), { 
-      status: 'Completed',
-      updatedAt: new Date()
-    });
-    
-    return true;
-  } catch (error) {
-    console.error('Error processing report:', error);
-    
-    // Update status to 'Failed'
-    try {
-      await updateDoc(doc(db, 'reports', reportId), { 
-        status: 'Failed',
-        updatedAt: new Date()
-      });
-    } catch (updateError) {
-      console.error('Error updating report status:', updateError);
-    }
-    
-    return false;
+export async function processReportWithAI(reportId: string): Promise<void> {
+  // 1. Update status to 'Processing'
+  await updateDoc(doc(db, 'reports', reportId), { 
+    status: 'Processing',
+    progress: buildProgress('downloading'),
+    updatedAt: new Date()
+  });
+  
+  // 2. Get the report document to access the PDF URL and library info
+  const reportDoc = await getDoc(doc(db, 'reports', reportId));
+  if (!reportDoc.exists()) {
+    throw new ReportNotFoundError('Report not found');
+  }
+  
+  const reportData = reportDoc.data();
+  const pdfUrl = reportData.pdfPath;
+  const libraryId = reportData.libraryId;
+  const year = reportData.year;
+  
+  // 3. Get library information
+  const libraryDoc = await getDoc(doc(db, 'libraries', libraryId));
+  if (!libraryDoc.exists()) {
+    throw new ReportNotFoundError('Library not found');
   }
+  
+  const libraryData = libraryDoc.data();
+  const libraryName = libraryData.name || 'Unknown Library';
+  
+  // 4. Download and extract the text of each page of the PDF
+  const pdfBuffer = await downloadPdf(pdfUrl);
+  await recordProgress(reportId, 'extracting');
+  const pages = await extractPdfText(pdfBuffer);
+  const ocrPages = await ocrScannedPages(reportId, pdfBuffer, pages);
+  
+  // 5. Read the standard line items directly from the text
+  await recordProgress(reportId, 'parsing');
+  const parsed = parseAnnualReportPages(pages);
+  const missingFields = listReportFieldPaths().filter(path => getFieldValue(parsed.data, path) === undefined);
+  console.log(`Parser found ${parsed.fields.length} fields, ${missingFields.length} left for Claude`);
+  
+  // 6. Ask Claude only for the fields the parser could not find, plus the key findings
+  const provider = getExtractionProvider();
+  const aiData = await processLargePdfWithClaudeAI(
+    provider,
+    pages,
+    year,
+    libraryName,
+    parsed.data,
+    missingFields,
+    (chunk, totalChunks, pageChunk) => recordProgress(reportId, 'analyzing', {
+      chunk,
+      totalChunks,
+      message: `Analyzing ${describeChunk(pageChunk)} with Claude (chunk ${chunk} of ${totalChunks})`
+    })
+  );
+  await recordProgress(reportId, 'merging');
+  const processedData = mergeParsedWithAI(parsed.data, aiData);
+  const provenance = buildProvenance(processedData, parsed.fields, aiData.sources || {}, pages, ocrPages);
+  
+  // 7. Combine with library data and create final report data
+  // Values that were not found in the report are left out for the reviewer to fill in,
+  // and a table that was not found simply has no rows
+  const finalReportData = {
+    reportId,
+    libraryName,
+    year,
+    libraryOverview: processedData.libraryOverview || {},
+    collectionOverview: processedData.collectionOverview || {},
+    usageStatistics: processedData.usageStatistics || {},
+    collectionData: processedData.collectionData || [],
+    circulationData: processedData.circulationData || [],
+    revenueData: processedData.revenueData || [],
+    expenseData: processedData.expenseData || [],
+    programData: processedData.programData || [],
+    venueData: processedData.venueData || [],
+    summerReadingData: processedData.summerReadingData || [],
+    keyFindings: processedData.keyFindings!,
+    provenance,
+    ocrPages,
+    unmappedCategories: processedData.unmappedCategories || [],
+    // Disagreements on values the parser read are moot, since the parser's value is used
+    mergeConflicts: (aiData.mergeConflicts || []).filter(conflict => getFieldValue(parsed.data, conflict.field) === undefined),
+    createdAt: new Date(),
+    updatedAt: new Date()
+  } as ReportData;
+  
+  // 8. Keep any corrections a reviewer made to an earlier run
+  const existingDataDoc = await getDoc(doc(db, 'reportData', reportId));
+  const corrections = existingDataDoc.exists() ? existingDataDoc.data().corrections : undefined;
+  if (corrections) {
+    applyCorrections(finalReportData, corrections);
+    finalReportData.corrections = corrections;
+  }
+  
+  // Never store data the dashboard cannot render
+  await recordProgress(reportId, 'validating');
+  assertValidReportData(finalReportData);
+  
+  // 9. Store the data in Firestore
+  await recordProgress(reportId, 'saving');
+  await setDoc(doc(db, 'reportData', reportId), finalReportData);
+  
+  // 10. Hand the report over for review before it is marked 'Completed'
+  await updateDoc(doc(db, 'reports', reportId), { 
+    status: 'Review',
+    errorMessage: null,
+    progress: buildProgress('done'),
+    updatedAt: new Date()
+  });
 }
 
 /**
- * Download a PDF from a URL and extract its text content
- * @param pdfUrl URL of the PDF to download and process
- * @returns The extracted text from the PDF
+ * Download a PDF from a URL
+ * @param pdfUrl URL of the PDF to download
+ * @returns The contents of the PDF
  */
-async function downloadAndExtractPdfText(pdfUrl: string): Promise<string> {
+async function downloadPdf(pdfUrl: string): Promise<Buffer> {
+  const response = await fetch(pdfUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to download PDF: ${response.statusText}`);
+  }
+  
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Extract the text content of a PDF
+ * @param pdfBuffer The contents of the PDF
+ * @returns The extracted text of each page of the PDF, in order
+ */
+async function extractPdfText(pdfBuffer: Buffer): Promise<string[]> {
   try {
-    // Download the PDF
-    const response = await fetch(pdfUrl);
-    if (!response.ok) {
-      throw new Error(`Failed to download PDF: ${response.statusText}`);
-    }
-    
-    // Convert to ArrayBuffer
-    const pdfBuffer = await response.arrayBuffer();
-    
-    // Extract text using pdf-parse
-    const data = await pdfParse(Buffer.from(pdfBuffer));
-    return data.text;
+    // Extract text using pdf-parse, keeping each page separate so values can be traced back to their page
+    const pages: string[] = [];
+    await pdfParse(pdfBuffer, {
+      pagerender: async (pageData: any) => {
+        const pageText = await renderPageText(pageData);
+        pages.push(pageText);
+        return pageText;
+      }
+    });
+    return pages;
   } catch (error) {
     console.error('Error extracting PDF text:', error);
     throw error;
@@ -170,139 +184,118 @@ async function downloadAndExtractPdfText(pdfUrl: string): Promise<string> {
 }
 
 /**
- * Split text into chunks of approximately the specified token count
- * This is a simple implementation that splits by paragraphs and then combines them
- * @param text The text to split
- * @param maxTokens The maximum number of tokens per chunk
- * @returns An array of text chunks
+ * Run OCR on the pages of a scanned report that have no usable text layer
+ * The OCR text replaces the page text in place, so parsing and chunking see it like any other page.
+ * If OCR itself fails, processing carries on with the text pdf-parse found, as it does for
+ * pages beyond MAX_OCR_PAGES or left unread when OCR_TIME_BUDGET_MS runs out.
+ * @param reportId The report being processed, for progress updates
+ * @param pdfBuffer The contents of the PDF
+ * @param pages The text of each page, updated in place
+ * @returns The pages that were read with OCR
  */
-function splitTextIntoChunks(text: string, maxTokens: number): string[] {
-  // A very rough approximation: 1 token ≈ 4 characters for English text
-  const charsPerToken = 4;
-  const maxChars = maxTokens * charsPerToken;
-  
-  // Split by paragraphs
-  const paragraphs = text.split(/\n\s*\n/);
-  const chunks: string[] = [];
-  let currentChunk = '';
-  
-  for (const paragraph of paragraphs) {
-    // If adding this paragraph would exceed the limit, start a new chunk
-    if (currentChunk.length + paragraph.length > maxChars && currentChunk.length > 0) {
-      chunks.push(currentChunk);
-      currentChunk = paragraph;
-    } else {
-      currentChunk += (currentChunk ? '\n\n' : '') + paragraph;
-    }
+async function ocrScannedPages(reportId: string, pdfBuffer: Buffer, pages: string[]): Promise<OcrPage[]> {
+  const lowTextPages = findLowTextPages(pages);
+  if (lowTextPages.length === 0) {
+    return [];
   }
   
-  // Add the last chunk if it's not empty
-  if (currentChunk) {
-    chunks.push(currentChunk);
+  if (lowTextPages.length > MAX_OCR_PAGES) {
+    console.warn(`${lowTextPages.length} pages need OCR; only the first ${MAX_OCR_PAGES} will be read`);
   }
   
-  return chunks;
+  try {
+    const ocrPages = await ocrPdfPages(
+      pdfBuffer,
+      lowTextPages.slice(0, MAX_OCR_PAGES),
+      (index, total) => recordProgress(reportId, 'ocr', { message: `Reading scanned page ${index} of ${total}` })
+    );
+    
+    for (const ocrPage of ocrPages) {
+      pages[ocrPage.page - 1] = ocrPage.text;
+    }
+    console.log(`Read ${ocrPages.length} scanned pages with OCR`);
+    return ocrPages;
+  } catch (error) {
+    console.error('Error running OCR, continuing with the extracted text:', error);
+    return [];
+  }
 }
 
 /**
- * Merge multiple partial results into a single result
- * @param results Array of partial results from different chunks
- * @returns A merged result
+ * Render the text of a single PDF page
+ * This mirrors the default pdf-parse renderer, which starts a new line whenever the y position changes
+ * @param pageData The page object pdf-parse passes to its page renderer
+ * @returns The text of the page
  */
-function mergeResults(results: Partial<ReportData>[]): Partial<ReportData> {
-  const merged: Partial<ReportData> = {};
+async function renderPageText(pageData: any): Promise<string> {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false
+  });
   
-  // For simple objects like libraryOverview, use the first non-null value
-  for (const result of results) {
-    if (result.libraryOverview && !merged.libraryOverview) {
-      merged.libraryOverview = result.libraryOverview;
-    }
-    if (result.collectionOverview && !merged.collectionOverview) {
-      merged.collectionOverview = result.collectionOverview;
-    }
-    if (result.usageStatistics && !merged.usageStatistics) {
-      merged.usageStatistics = result.usageStatistics;
+  let lastY: number | undefined;
+  let text = '';
+  for (const item of textContent.items) {
+    if (lastY === item.transform[5] || lastY === undefined) {
+      text += item.str;
+    } else {
+      text += '\n' + item.str;
     }
+    lastY = item.transform[5];
   }
   
-  // For arrays, concatenate and deduplicate
-  const arrayProps: (keyof Pick<ReportData, 'collectionData' | 'circulationData' | 'revenueData' | 'expenseData' | 'programData' | 'venueData' | 'summerReadingData'>)[] = [
-    'collectionData', 'circulationData', 'revenueData', 'expenseData', 
-    'programData', 'venueData', 'summerReadingData'
-  ];
+  return text;
+}
+
+/**
+ * Combine the parser output with the data extracted by Claude
+ * Values read by the parser always win; Claude only fills the fields the parser could not find.
+ * @param parsedData The data found by the deterministic parser
+ * @param aiData The data extracted by Claude
+ * @returns The combined result
+ */
+function mergeParsedWithAI(parsedData: Partial<ReportData>, aiData: ExtractedData): Partial<ReportData> {
+  const merged: ExtractedData = JSON.parse(JSON.stringify(aiData));
+  delete merged.sources;
+  delete merged.mergeConflicts;
   
-  for (const prop of arrayProps) {
-    const items: any[] = [];
-    const nameMap = new Map<string, number>();
-    
-    for (const result of results) {
-      const arr = result[prop] as any[] | undefined;
-      if (!arr) continue;
-      
-      for (const item of arr) {
-        if (nameMap.has(item.name)) {
-          // If we've seen this name before, update the existing item
-          const index = nameMap.get(item.name)!;
-          const existingItem = items[index];
-          
-          // Merge numeric properties
-          for (const key of Object.keys(item)) {
-            if (typeof item[key] === 'number' && key !== 'name') {
-              existingItem[key] = (existingItem[key] || 0) + item[key];
-            }
-          }
-        } else {
-          // If this is a new name, add it to our items
-          nameMap.set(item.name, items.length);
-          items.push({...item});
-        }
-      }
-    }
-    
-    if (items.length > 0) {
-      merged[prop] = items as any;
+  for (const path of listReportFieldPaths()) {
+    const value = getFieldValue(parsedData, path);
+    if (value !== undefined) {
+      setFieldValue(merged, path, value);
     }
   }
   
-  // For keyFindings, combine unique values
-  if (results.some(r => r.keyFindings)) {
-    const strengths = new Set<string>();
-    const areasForDevelopment = new Set<string>();
-    
-    for (const result of results) {
-      if (result.keyFindings?.strengths) {
-        for (const strength of result.keyFindings.strengths) {
-          strengths.add(strength);
-        }
-      }
-      if (result.keyFindings?.areasForDevelopment) {
-        for (const area of result.keyFindings.areasForDevelopment) {
-          areasForDevelopment.add(area);
-        }
-      }
-    }
-    
-    merged.keyFindings = {
-      strengths: Array.from(strengths).slice(0, 5),
-      areasForDevelopment: Array.from(areasForDevelopment).slice(0, 5)
-    };
-  }
-  
   return merged;
 }
 
 /**
  * Process a large PDF by splitting it into chunks and processing each chunk with Claude
- * @param pdfText The full text of the PDF
+ * @param provider The extraction provider to send the chunks to
+ * @param pages The text of each page of the PDF
  * @param year The year of the report
  * @param libraryName The name of the library
+ * @param knownData The values already found by the parser
+ * @param missingFields The field paths Claude still needs to extract
+ * @param onChunk Called before each chunk is sent, with its 1-based number, the chunk count and its pages
  * @returns Structured report data extracted by Claude
  */
-async function processLargePdfWithClaudeAI(pdfText: string, year: number, libraryName: string): Promise<Partial<ReportData>> {
+async function processLargePdfWithClaudeAI(
+  provider: ExtractionProvider,
+  pages: string[],
+  year: number,
+  libraryName: string,
+  knownData: Partial<ReportData>,
+  missingFields: string[],
+  onChunk?: (chunk: number, totalChunks: number, pageChunk: PageChunk) => Promise<void>
+): Promise<ExtractedData> {
   try {
-    // Split the PDF text into chunks of approximately 50K tokens
-    // Claude 3 Opus has a 200K token context window, but we'll use 50K to be safe
-    const chunks = splitTextIntoChunks(pdfText, 50000);
+    // Split the pages into chunks of whole pages, keeping each part of the report together,
+    // sized with Claude's tokenizer when the provider has one
+    const countTokens = provider.countTokens?.bind(provider);
+    const chunks = await chunkPages(pages, {
+      countTokens: countTokens && (text => countTokens({ system: '', messages: [{ role: 'user', content: text }] }))
+    });
     
     // Create the system prompt with the extraction instructions
     const systemPrompt = `
@@ -405,44 +398,74 @@ You are analyzing a library annual report PDF for ${libraryName} from ${year}. E
       "string",
       "string"
     ]
+  },
+  "sources": {
+    // For every numeric value you return, where it came from in the text
+    "libraryOverview.populationServed": { "page": number, "snippet": "exact text the value was read from" },
+    "revenueData[School District].value": { "page": number, "snippet": "exact text the value was read from" }
   }
 }
 
+The following values have already been read from the report and must not be changed:
+${JSON.stringify(knownData, null, 2)}
+
+${missingFields.length > 0
+  ? `Only these fields still need to be extracted (paths use section.field or section[category].field):
+${missingFields.join('\n')}`
+  : 'All numeric fields have already been extracted. Only provide the keyFindings.'}
+
 Important instructions:
 1. Extract all values directly from the PDF text.
-2. For any values not found in the PDF, use reasonable estimates based on related data.
-3. Ensure all numeric fields are numbers, not strings.
-4. For the keyFindings, analyze the data to identify actual strengths and areas for development.
-5. Return ONLY the JSON with no additional text or explanation.
+2. Never estimate, calculate or guess a value. If a value does not appear in the text, omit the field; a reviewer will fill it in.
+3. For every value you return, add an entry to sources keyed by its field path. The text is split into pages marked "--- Page N ---"; give the page number and quote the snippet exactly as it appears.
+4. Ensure all numeric fields are numbers, not strings.
+5. For the keyFindings, analyze the data (including the values already read above) to identify actual strengths and areas for development.
+6. Use the category names exactly as listed above. Put a line item under the category it belongs to, e.g. funding from the "Town of Morristown" under "Town/City Funding". If a line item fits none of the categories, keep the name used in the report; it will be flagged for review.
+7. Return ONLY the JSON with no additional text or explanation.
 `;
     
     // Process each chunk and collect the results
-    const results: Partial<ReportData>[] = [];
+    const results: ExtractedData[] = [];
+    let firstError: unknown = null;
     
     for (let i = 0; i < chunks.length; i++) {
-      console.log(`Processing chunk ${i+1} of ${chunks.length}`);
+      console.log(`Processing chunk ${i+1} of ${chunks.length}: ${describeChunk(chunks[i])}, ${chunks[i].tokensEstimated ? 'an estimated ' : ''}${chunks[i].tokens} tokens`);
+      if (onChunk) {
+        await onChunk(i + 1, chunks.length, chunks[i]);
+      }
       
       const userPrompt = `
-This is chunk ${i+1} of ${chunks.length} from the ${year} annual report for ${libraryName}.
+This is chunk ${i+1} of ${chunks.length} from the ${year} annual report for ${libraryName}, covering ${describeChunk(chunks[i])}.
 Extract any relevant information you can find in this chunk according to the format specified.
 If you can't find certain information in this chunk, just omit those fields from your response.
 
 Here is the text:
 
-${chunks[i]}
+${chunks[i].text}
 `;
       
       try {
-        const chunkResult = await callClaudeAPI(systemPrompt, userPrompt);
+        const chunkResult = await extractChunkWithRepair(provider, systemPrompt, userPrompt, i + 1);
         results.push(chunkResult);
       } catch (error) {
+        // Claude could not produce valid data for this chunk, so the whole report fails
+        if (error instanceof ReportValidationError) {
+          throw error;
+        }
         console.error(`Error processing chunk ${i+1}:`, error);
+        firstError = firstError || error;
         // Continue with other chunks even if one fails
       }
     }
     
+    // Without a single chunk there is nothing to merge, and the cause is the API error, not the data
+    if (results.length === 0 && firstError) {
+      const reason = firstError instanceof Error ? firstError.message : String(firstError);
+      throw new Error(`Claude could not process any of the ${chunks.length} chunks of the report: ${reason}`);
+    }
+    
     // Merge the results from all chunks
-    return mergeResults(results);
+    return mergeChunkResults(results);
   } catch (error) {
     console.error('Error processing with Claude AI:', error);
     throw error;
@@ -450,166 +473,87 @@ ${chunks[i]}
 }
 
 /**
- * Call the Claude API with a prompt
+ * Extract data from one chunk, sending invalid responses back to Claude with the
+ * validation errors until it returns data that matches the schema
+ * @param provider The extraction provider to call
  * @param systemPrompt The system prompt to send to Claude
- * @param userPrompt The user prompt to send to Claude
- * @returns The parsed JSON response from Claude
+ * @param userPrompt The user prompt for this chunk
+ * @param chunkNumber The 1-based number of the chunk, for error messages
+ * @returns The validated data extracted from the chunk
+ * @throws ReportValidationError if the response is still invalid after all repair attempts
  */
-async function callClaudeAPI(systemPrompt: string, userPrompt: string): Promise<Partial<ReportData>> {
-  try {
-    const apiKey = process.env.CLAUDE_API_KEY || process.env.NEXT_PUBLIC_CLAUDE_API_KEY;
-    if (!apiKey) {
-      throw new Error('Claude API key not found');
-    }
-    
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify({
-        model: 'claude-3-opus-20240229',
-        max_tokens: 4000,
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt
-          },
-          {
-            role: 'user',
-            content: userPrompt
-          }
-        ]
-      })
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Claude API error: ${response.status} ${response.statusText} - ${errorText}`);
-    }
-    
-    const data: ClaudeResponse = await response.json();
-    
-    if (!data.content || data.content.length === 0) {
-      throw new Error('Empty response from Claude API');
-    }
-    
-    const content = data.content[0].text;
-    
-    // Extract JSON from the response
-    // Claude sometimes includes markdown code blocks or other text
-    const jsonMatch = content.match(/```(?:json)?([\s\S]*?)```/) || content.match(/({[\s\S]*})/);
-    const jsonString = jsonMatch ? jsonMatch[1].trim() : content.trim();
+async function extractChunkWithRepair(
+  provider: ExtractionProvider,
+  systemPrompt: string,
+  userPrompt: string,
+  chunkNumber: number
+): Promise<ExtractedData> {
+  const messages: ExtractionMessage[] = [{ role: 'user', content: userPrompt }];
+  let issues: ValidationIssue[] = [];
+  
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const content = await provider.complete({ system: systemPrompt, messages });
     
+    let parsed: unknown;
     try {
-      // Parse the JSON response
-      return JSON.parse(jsonString) as Partial<ReportData>;
+      parsed = parseJsonResponse(content);
+      // Category names are mapped to the taxonomy first, so a synonym is never sent back for repair
+      if (typeof parsed === 'object' && parsed !== null) {
+        renameSources(parsed as ExtractedData, normalizeReportCategories(parsed as ExtractedData).renamed);
+      }
+      issues = validateReportData(parsed, { partial: true });
     } catch (parseError) {
       console.error('Error parsing Claude response as JSON:', parseError);
       console.error('Raw response:', content);
-      throw new Error('Failed to parse Claude response as JSON');
+      issues = [{ path: 'response', message: 'is not valid JSON' }];
     }
-  } catch (error) {
-    console.error('Error calling Claude API:', error);
-    throw error;
+    
+    if (issues.length === 0) {
+      return parsed as ExtractedData;
+    }
+    
+    console.warn(`Chunk ${chunkNumber} attempt ${attempt + 1} failed validation: ${formatIssues(issues)}`);
+    messages.push(
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `Your response does not match the required format:\n${issues.map(issue => `- ${issue.path} ${issue.message}`).join('\n')}\n\nReturn the corrected JSON only, with no additional text.`
+      }
+    );
   }
+  
+  throw new ReportValidationError(
+    issues,
+    `Claude returned invalid data for chunk ${chunkNumber} after ${MAX_REPAIR_ATTEMPTS + 1} attempts`
+  );
 }
 
 /**
- * Generate mock report data for fallback or testing purposes
- * This is used only if the Claude API call fails
+ * Move the sources Claude reported for renamed categories to their canonical field paths
+ * @param result The chunk result to modify in place
+ * @param renamed The categories that were renamed
  */
-function generateMockReportData(year: number): Partial<ReportData> {
-  return {
-    libraryOverview: {
-      populationServed: 398,
-      annualVisits: 4911,
-      registeredBorrowers: 843,
-      openHoursPerWeek: 31
-    },
-    collectionOverview: {
-      totalItems: 7655,
-      printMaterials: 6153,
-      physicalAudioVideo: 1351,
-      otherPhysicalItems: 151
-    },
-    usageStatistics: {
-      physicalItemCirculation: 4357,
-      eBookCirculation: 364,
-      eAudioCirculation: 196,
-      referenceTransactions: 136
-    },
-    collectionData: [
-      { name: "Adult Fiction", value: 2436 },
-      { name: "Adult Non-Fiction", value: 881 },
-      { name: "Children's Fiction", value: 2134 },
-      { name: "Children's Non-Fiction", value: 550 },
-      { name: "Audio Materials", value: 296 },
-      { name: "Video Materials", value: 1055 },
-      { name: "Other Materials", value: 303 }
-    ],
-    circulationData: [
-      { name: "Adult Fiction", value: 2399 },
-      { name: "Adult Non-Fiction", value: 482 },
-      { name: "Children's Fiction", value: 689 },
-      { name: "Children's Non-Fiction", value: 61 },
-      { name: "Other Materials", value: 726 }
-    ],
-    revenueData: [
-      { name: "School District", value: 61513 },
-      { name: "Town of Morristown", value: 10500 },
-      { name: "LLSA", value: 1493 },
-      { name: "Other Grants", value: 1840 },
-      { name: "Gifts & Endowments", value: 31390 },
-      { name: "Fundraising", value: 974 },
-      { name: "Other", value: 1715 }
-    ],
-    expenseData: [
-      { name: "Staff", value: 70511 },
-      { name: "Collection", value: 5179 },
-      { name: "Capital", value: 1862 },
-      { name: "Building Maintenance", value: 6399 },
-      { name: "Office & Supplies", value: 2734 },
-      { name: "Telecommunications", value: 2292 },
-      { name: "Professional Fees", value: 15158 },
-      { name: "Equipment", value: 142 },
-      { name: "Other", value: 714 },
-      { name: "Contracts", value: 2790 }
-    ],
-    programData: [
-      { name: "Ages 0-5", sessions: 23, attendance: 202 },
-      { name: "Ages 6-11", sessions: 15, attendance: 194 },
-      { name: "Ages 12-18", sessions: 13, attendance: 47 },
-      { name: "Adult (19+)", sessions: 39, attendance: 443 },
-      { name: "General Interest", sessions: 11, attendance: 533 }
-    ],
-    venueData: [
-      { name: "Onsite", sessions: 92, attendance: 968 },
-      { name: "Offsite", sessions: 8, attendance: 444 },
-      { name: "Virtual", sessions: 1, attendance: 7 }
-    ],
-    summerReadingData: [
-      { name: "Children", registered: 14, sessions: 12, attendance: 464 },
-      { name: "Young Adults", registered: 1, sessions: 1, attendance: 8 },
-      { name: "Adults", registered: 0, sessions: 0, attendance: 0 }
-    ],
-    keyFindings: {
-      strengths: [
-        "Strong community support with significant gifts/endowments ($31,390)",
-        "Successful school district funding with voter approval (increased by $2,266)",
-        "High program attendance (1,419 total) relative to population served (398)",
-        "Diverse program offerings for all age groups",
-        "Meets all minimum public library standards"
-      ],
-      areasForDevelopment: [
-        "Adult circulation (2,881) significantly outpaces children's circulation (750)",
-        "Low summer reading program participation (15 total registrants)",
-        "Limited virtual programming (only 1 session with 7 attendees)",
-        "No disaster plan in place",
-        "Opportunity to expand digital services (e-books and e-audio are consortium-provided only)"
-      ]
+function renameSources(result: ExtractedData, renamed: CategoryNormalization['renamed']): void {
+  if (!result.sources || typeof result.sources !== 'object') return;
+  
+  for (const { section, from, to } of renamed) {
+    for (const key of ARRAY_VALUE_KEYS[section]) {
+      const source = result.sources[arrayFieldPath(section, from, key)];
+      if (source && !result.sources[arrayFieldPath(section, to, key)]) {
+        result.sources[arrayFieldPath(section, to, key)] = source;
+      }
     }
-  };
+  }
+}
+
+/**
+ * Parse the JSON out of a Claude response
+ * Claude sometimes includes markdown code blocks or other text around the JSON
+ * @param content The text of the response
+ * @returns The parsed JSON value
+ */
+function parseJsonResponse(content: string): unknown {
+  const jsonMatch = content.match(/```(?:json)?([\s\S]*?)```/) || content.match(/({[\s\S]*})/);
+  const jsonString = jsonMatch ? jsonMatch[1].trim() : content.trim();
+  return JSON.parse(jsonString);
 }
@@ -0,0 +1,99 @@
+import type { FieldCorrection, ReportData } from '@/types/report';
+import { getFieldValue, listPresentFieldPaths, listReportFieldPaths, setFieldValue } from './reportFields';
+
+// Key findings are edited as lists of strings rather than numbers
+export const KEY_FINDING_FIELDS = ['keyFindings.strengths', 'keyFindings.areasForDevelopment'] as const;
+
+// A single value changed by a reviewer
+export interface ReviewChange {
+  field: string;
+  previousValue: number | string[] | null;
+  newValue: number | string[];
+}
+
+/**
+ * List every field shown on the review form: the fields a complete report is
+ * expected to contain plus any extra categories that were extracted
+ * @param data The report data under review
+ * @returns The field paths in display order
+ */
+export function listReviewFieldPaths(data: Partial<ReportData>): string[] {
+  const paths = listReportFieldPaths();
+  for (const path of listPresentFieldPaths(data)) {
+    if (!paths.includes(path)) {
+      paths.push(path);
+    }
+  }
+  return paths;
+}
+
+/**
+ * Read a reviewable value, which is either a number or a list of key findings
+ */
+export function getReviewValue(data: Partial<ReportData>, field: string): number | string[] | undefined {
+  if (field === 'keyFindings.strengths') return data.keyFindings?.strengths;
+  if (field === 'keyFindings.areasForDevelopment') return data.keyFindings?.areasForDevelopment;
+  return getFieldValue(data, field);
+}
+
+/**
+ * Write a reviewable value into report data in place
+ */
+export function setReviewValue(data: Partial<ReportData>, field: string, value: number | string[]): void {
+  if (Array.isArray(value)) {
+    const keyFindings = data.keyFindings || { strengths: [], areasForDevelopment: [] };
+    if (field === 'keyFindings.strengths') keyFindings.strengths = value;
+    if (field === 'keyFindings.areasForDevelopment') keyFindings.areasForDevelopment = value;
+    data.keyFindings = keyFindings;
+    return;
+  }
+
+  setFieldValue(data, field, value);
+}
+
+/**
+ * Compare the edited values on the review form against the stored report data
+ * @param original The report data as stored
+ * @param edited The values from the review form, keyed by field path
+ * @returns The values that changed
+ */
+export function diffReviewValues(
+  original: Partial<ReportData>,
+  edited: Record<string, number | string[]>
+): ReviewChange[] {
+  const changes: ReviewChange[] = [];
+
+  for (const [field, newValue] of Object.entries(edited)) {
+    const previousValue = getReviewValue(original, field);
+    const unchanged = Array.isArray(newValue)
+      ? JSON.stringify(newValue) === JSON.stringify(previousValue || [])
+      : newValue === previousValue;
+
+    if (!unchanged) {
+      changes.push({ field, previousValue: previousValue ?? null, newValue });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Re-apply reviewer corrections on top of freshly extracted data, so that
+ * processing a report again never discards a human fix
+ * @param data The report data to modify in place
+ * @param corrections The stored corrections, keyed by field path
+ */
+export function applyCorrections(data: Partial<ReportData>, corrections: Record<string, FieldCorrection>): void {
+  for (const [field, correction] of Object.entries(corrections)) {
+    setReviewValue(data, field, correction.value);
+
+    if (!Array.isArray(correction.value) && data.provenance) {
+      data.provenance[field] = {
+        method: 'manual',
+        page: data.provenance[field]?.page ?? null,
+        snippet: data.provenance[field]?.snippet ?? null,
+        confidence: 1
+      };
+    }
+  }
+}
@@ -0,0 +1,189 @@
+import type { ReportData } from '@/types/report';
+import {
+  ARRAY_CATEGORIES,
+  ARRAY_SECTIONS,
+  ARRAY_VALUE_KEYS,
+  OVERVIEW_FIELDS,
+  OVERVIEW_SECTIONS,
+  SECTION_LABELS
+} from './reportFields';
+
+// A single problem found in extracted data
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when extracted report data does not match the ReportData schema
+ */
+export class ReportValidationError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[], context = 'The extracted report data is invalid') {
+    super(`${context}: ${formatIssues(issues)}`);
+    this.name = 'ReportValidationError';
+    this.issues = issues;
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, ReportValidationError.prototype);
+  }
+}
+
+// Top-level keys other than the data sections that may appear in extracted data
+const ALLOWED_EXTRA_KEYS = ['sources', 'keyFindings', 'unmappedCategories'];
+
+/**
+ * Format validation issues as a readable sentence, listing at most a few of them
+ * @param issues The issues to format
+ * @param limit The maximum number of issues to list
+ */
+export function formatIssues(issues: ValidationIssue[], limit = 5): string {
+  const listed = issues.slice(0, limit).map(issue => `${issue.path} ${issue.message}`);
+  const remaining = issues.length - listed.length;
+  return listed.join('; ') + (remaining > 0 ? `; and ${remaining} more` : '');
+}
+
+/**
+ * Describe a value for an error message
+ */
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value.length > 40 ? value.slice(0, 40) + '…' : value}"`;
+  return typeof value === 'object' ? 'an object' : String(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkCount(value: unknown, path: string, issues: ValidationIssue[]): void {
+  if (typeof value !== 'number' || !isFinite(value)) {
+    issues.push({ path, message: `must be a number (got ${describe(value)})` });
+  } else if (value < 0) {
+    issues.push({ path, message: `must not be negative (got ${value})` });
+  }
+}
+
+function checkStringList(value: unknown, path: string, issues: ValidationIssue[]): void {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: `must be a list of strings (got ${describe(value)})` });
+    return;
+  }
+  value.forEach((entry, index) => {
+    if (typeof entry !== 'string') {
+      issues.push({ path: `${path}[${index}]`, message: `must be a string (got ${describe(entry)})` });
+    }
+  });
+}
+
+/**
+ * Validate extracted report data against the ReportData schema
+ * @param value The data to validate, typically parsed from an LLM response
+ * Fields that were not found in the report may be missing, so a reviewer can fill them in
+ * rather than Claude estimating them.
+ * @param options.partial When true, sections may be missing too, as in a single chunk's result
+ * @returns The issues found; an empty list means the data is valid
+ */
+export function validateReportData(value: unknown, options: { partial?: boolean } = {}): ValidationIssue[] {
+  const partial = options.partial ?? false;
+  const issues: ValidationIssue[] = [];
+
+  if (!isPlainObject(value)) {
+    return [{ path: 'response', message: `must be a JSON object (got ${describe(value)})` }];
+  }
+
+  for (const section of OVERVIEW_SECTIONS) {
+    const sectionValue = value[section];
+    if (sectionValue === undefined) {
+      if (!partial) issues.push({ path: section, message: 'is missing' });
+      continue;
+    }
+    if (!isPlainObject(sectionValue)) {
+      issues.push({ path: section, message: `must be an object (got ${describe(sectionValue)})` });
+      continue;
+    }
+
+    const allowedKeys: readonly string[] = OVERVIEW_FIELDS[section];
+    for (const key of allowedKeys) {
+      if (sectionValue[key] === undefined) continue;
+      checkCount(sectionValue[key], `${section}.${key}`, issues);
+    }
+    for (const key of Object.keys(sectionValue)) {
+      if (!allowedKeys.includes(key)) {
+        issues.push({ path: `${section}.${key}`, message: `is not a known field; expected one of ${allowedKeys.join(', ')}` });
+      }
+    }
+  }
+
+  for (const section of ARRAY_SECTIONS) {
+    const items = value[section];
+    if (items === undefined) {
+      if (!partial) issues.push({ path: section, message: 'is missing' });
+      continue;
+    }
+    if (!Array.isArray(items)) {
+      issues.push({ path: section, message: `must be an array (got ${describe(items)})` });
+      continue;
+    }
+
+    items.forEach((item, index) => {
+      const itemPath = `${section}[${index}]`;
+      if (!isPlainObject(item)) {
+        issues.push({ path: itemPath, message: `must be an object (got ${describe(item)})` });
+        return;
+      }
+      if (typeof item.name !== 'string' || !item.name.trim()) {
+        issues.push({ path: `${itemPath}.name`, message: `must be a non-empty string (got ${describe(item.name)})` });
+      } else if (!ARRAY_CATEGORIES[section].includes(item.name)) {
+        issues.push({
+          path: `${itemPath}.name`,
+          message: `"${item.name}" is not a known ${SECTION_LABELS[section].toLowerCase()} category; use one of ${ARRAY_CATEGORIES[section].join(', ')}`
+        });
+      }
+      for (const key of ARRAY_VALUE_KEYS[section]) {
+        if (item[key] === undefined) continue;
+        checkCount(item[key], `${itemPath}.${key}`, issues);
+      }
+    });
+  }
+
+  if (value.keyFindings !== undefined) {
+    if (!isPlainObject(value.keyFindings)) {
+      issues.push({ path: 'keyFindings', message: `must be an object (got ${describe(value.keyFindings)})` });
+    } else {
+      checkStringList(value.keyFindings.strengths, 'keyFindings.strengths', issues);
+      checkStringList(value.keyFindings.areasForDevelopment, 'keyFindings.areasForDevelopment', issues);
+    }
+  } else if (!partial) {
+    issues.push({ path: 'keyFindings', message: 'is missing' });
+  }
+
+  if (value.sources !== undefined && !isPlainObject(value.sources)) {
+    issues.push({ path: 'sources', message: `must be an object (got ${describe(value.sources)})` });
+  }
+
+  // In a chunk result, anything else at the top level is most likely a renamed section
+  if (partial) {
+    const knownKeys: string[] = [...OVERVIEW_SECTIONS, ...ARRAY_SECTIONS, ...ALLOWED_EXTRA_KEYS];
+    for (const key of Object.keys(value)) {
+      if (!knownKeys.includes(key)) {
+        issues.push({ path: key, message: 'is not a known section' });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check that complete report data matches the schema
+ * @param value The data to check
+ * @throws ReportValidationError if the data is invalid
+ */
+export function assertValidReportData(value: unknown): asserts value is ReportData {
+  const issues = validateReportData(value);
+  if (issues.length > 0) {
+    throw new ReportValidationError(issues);
+  }
+}
@@ -0,0 +1,77 @@
+import type { ReportData } from '@/types/report';
+import { programAttendance, totalExpenses, totalRevenue } from './reportMetrics';
+
+// The headline figures of one year's report, as plotted on the trends page
+export interface TrendPoint {
+  year: number;
+  annualVisits: number;
+  registeredBorrowers: number;
+  physicalItemCirculation: number;
+  eBookCirculation: number;
+  eAudioCirculation: number;
+  // Null when the report lists none of the items they add up
+  totalRevenue: number | null;
+  totalExpenses: number | null;
+  programAttendance: number | null;
+}
+
+export type TrendMetric = Exclude<keyof TrendPoint, 'year'>;
+
+/**
+ * Pick the milliseconds of a Firestore Timestamp or Date, for ordering reports
+ */
+function updatedAtMillis(data: ReportData): number {
+  const updatedAt = data.updatedAt;
+  if (!updatedAt) return 0;
+  if (typeof updatedAt.toMillis === 'function') return updatedAt.toMillis();
+  if (updatedAt instanceof Date) return updatedAt.getTime();
+  return 0;
+}
+
+/**
+ * Build one point per year from a library's completed reports
+ * If a year was uploaded more than once, the most recently updated report wins.
+ * @param reports The report data of every completed report for the library
+ * @returns The points in ascending year order
+ */
+export function buildTrendSeries(reports: ReportData[]): TrendPoint[] {
+  const latestByYear = new Map<number, ReportData>();
+  for (const report of reports) {
+    const existing = latestByYear.get(report.year);
+    if (!existing || updatedAtMillis(report) > updatedAtMillis(existing)) {
+      latestByYear.set(report.year, report);
+    }
+  }
+
+  return Array.from(latestByYear.values())
+    .sort((a, b) => a.year - b.year)
+    .map(report => ({
+      year: report.year,
+      annualVisits: report.libraryOverview.annualVisits,
+      registeredBorrowers: report.libraryOverview.registeredBorrowers,
+      physicalItemCirculation: report.usageStatistics.physicalItemCirculation,
+      eBookCirculation: report.usageStatistics.eBookCirculation,
+      eAudioCirculation: report.usageStatistics.eAudioCirculation,
+      totalRevenue: totalRevenue(report),
+      totalExpenses: totalExpenses(report),
+      programAttendance: programAttendance(report)
+    }));
+}
+
+/**
+ * Calculate the percent change between two values
+ * @returns The change in percent, or null if either value is missing or there is no earlier value to compare against
+ */
+export function percentChange(current: number | null | undefined, previous: number | null | undefined): number | null {
+  if (current === null || current === undefined || previous === null || previous === undefined || previous === 0) return null;
+  return ((current - previous) / previous) * 100;
+}
+
+/**
+ * Calculate the change of a metric between the last two years of a series
+ * @returns The change in percent, or null if the series has fewer than two years
+ */
+export function latestChange(series: TrendPoint[], metric: TrendMetric): number | null {
+  if (series.length < 2) return null;
+  return percentChange(series[series.length - 1][metric], series[series.length - 2][metric]);
+}
@@ -0,0 +1,167 @@
+import { collection, doc, DocumentData, getDoc, getDocs, query, where, writeBatch } from 'firebase/firestore';
+import { db } from './firebase';
+import { hasActiveJob } from './jobStatus';
+import { buildSharingFields } from './sharing';
+import type { ReportData, ReportSource } from '@/types/report';
+
+// A new upload of a library's report for a year
+export interface VersionUpload {
+  libraryId: string;
+  year: number;
+  userId: string;
+  uploadedByName: string;
+  source: ReportSource;
+  pdfPath: string | null;
+  sourceFileName: string | null;
+  // Imported data is saved with the version; an uploaded PDF gets its data from processing
+  data?: ReportData;
+}
+
+/**
+ * Thrown when a new version cannot be added to a report
+ */
+export class ReportVersionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReportVersionError';
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, ReportVersionError.prototype);
+  }
+}
+
+/**
+ * Find the report a library already has for a year
+ * Before reports were versioned a re-upload created a second report, so if there are
+ * several the most recently updated one is used.
+ * @returns The report's ID and fields, or null if the library has no report for the year
+ */
+export async function findReportForYear(
+  libraryId: string,
+  year: number
+): Promise<{ id: string; data: DocumentData } | null> {
+  const reportsSnapshot = await getDocs(
+    query(collection(db, 'reports'), where('libraryId', '==', libraryId), where('year', '==', year))
+  );
+  if (reportsSnapshot.empty) return null;
+
+  const latest = reportsSnapshot.docs.reduce((best, reportDoc) =>
+    (reportDoc.data().updatedAt?.toMillis?.() || 0) > (best.data().updatedAt?.toMillis?.() || 0) ? reportDoc : best
+  );
+  return { id: latest.id, data: latest.data() };
+}
+
+/**
+ * Add an upload as the current version of the library's report for its year
+ * The first upload creates the report. Later uploads keep the report and its sharing,
+ * snapshot the replaced version's data so it can still be viewed and compared, and
+ * point the report at the new version.
+ * @param upload The uploaded file and who uploaded it
+ * @returns The report, the new version and its number
+ * @throws ReportVersionError if the report is still being processed; a report left
+ * 'Processing' by a job that no longer runs may be replaced
+ */
+export async function addReportVersion(
+  upload: VersionUpload
+): Promise<{ reportId: string; versionId: string; versionNumber: number }> {
+  const existing = await findReportForYear(upload.libraryId, upload.year);
+  if (existing?.data.status === 'Processing' && await hasActiveJob(existing.id)) {
+    throw new ReportVersionError(
+      `The ${upload.year} report is still being processed; wait for it to finish before uploading a new version`
+    );
+  }
+
+  const reportRef = existing ? doc(db, 'reports', existing.id) : doc(collection(db, 'reports'));
+  const versionsRef = collection(db, 'reports', reportRef.id, 'versions');
+  const versionRef = doc(versionsRef);
+  const batch = writeBatch(db);
+  let versionNumber = 1;
+
+  if (existing) {
+    versionNumber = (existing.data.versionCount || 1) + 1;
+
+    const reportDataDoc = await getDoc(doc(db, 'reportData', existing.id));
+    const previousData = reportDataDoc.exists() ? reportDataDoc.data() : null;
+    // The edit history belongs to the replaced data as well, so it moves to the version with it
+    const editsSnapshot = await getDocs(collection(db, 'reportData', existing.id, 'edits'));
+    const previousEdits = editsSnapshot.docs.map(editDoc => editDoc.data());
+
+    if (existing.data.currentVersionId) {
+      batch.update(doc(versionsRef, existing.data.currentVersionId), {
+        data: previousData,
+        edits: previousEdits,
+        supersededAt: new Date()
+      });
+    } else {
+      // Reports uploaded before versioning get their first version recorded now
+      batch.set(doc(versionsRef), {
+        versionNumber: 1,
+        source: existing.data.source || 'pdf',
+        pdfPath: existing.data.pdfPath || null,
+        sourceFileName: existing.data.sourceFileName || null,
+        uploadedBy: existing.data.userId,
+        uploadedByName: '',
+        createdAt: existing.data.createdAt || null,
+        data: previousData,
+        edits: previousEdits,
+        supersededAt: new Date()
+      });
+    }
+    for (const editDoc of editsSnapshot.docs) {
+      batch.delete(editDoc.ref);
+    }
+
+    // Reviewer corrections belong to the replaced version, so processing must not re-apply them
+    if (!upload.data && reportDataDoc.exists()) {
+      batch.delete(reportDataDoc.ref);
+    }
+  }
+
+  batch.set(versionRef, {
+    versionNumber,
+    source: upload.source,
+    pdfPath: upload.pdfPath,
+    sourceFileName: upload.sourceFileName,
+    uploadedBy: upload.userId,
+    uploadedByName: upload.uploadedByName,
+    createdAt: new Date(),
+    data: null,
+    supersededAt: null
+  });
+
+  // Imported reports are complete already and go straight to review
+  const currentVersion = {
+    currentVersionId: versionRef.id,
+    versionCount: versionNumber,
+    source: upload.source,
+    pdfPath: upload.pdfPath,
+    sourceFileName: upload.sourceFileName,
+    status: upload.data ? 'Review' : 'Processing',
+    errorMessage: null,
+    updatedAt: new Date()
+  };
+  if (existing) {
+    batch.update(reportRef, currentVersion);
+  } else {
+    batch.set(reportRef, {
+      libraryId: upload.libraryId,
+      userId: upload.userId,
+      year: upload.year,
+      title: `${upload.year} Annual Report`,
+      ...buildSharingFields('private'),
+      createdAt: new Date(),
+      ...currentVersion
+    });
+  }
+
+  if (upload.data) {
+    batch.set(doc(db, 'reportData', reportRef.id), {
+      ...upload.data,
+      reportId: reportRef.id,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+  }
+
+  await batch.commit();
+  return { reportId: reportRef.id, versionId: versionRef.id, versionNumber };
+}
@@ -0,0 +1,88 @@
+import type { UserRole } from '@/types/user';
+
+// Things a user may do; every role can read its own library's reports and reports shared with everyone.
+// upload, process, review and share apply to the user's own library unless they can also manage.
+export type Permission = 'upload' | 'process' | 'review' | 'share' | 'readAllLibraries' | 'manage';
+
+export const ROLES: { role: UserRole; label: string; description: string }[] = [
+  { role: 'director', label: 'Director', description: 'Uploads, reviews and shares their library\'s reports' },
+  { role: 'staff', label: 'Staff', description: 'Uploads and reviews their library\'s reports but cannot share them' },
+  { role: 'board', label: 'Board Member', description: 'Read-only access to their library\'s reports' },
+  { role: 'analyst', label: 'System Analyst', description: 'Read-only access to every library\'s reports' },
+  { role: 'admin', label: 'Admin', description: 'Full access, including the admin console' }
+];
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  director: ['upload', 'process', 'review', 'share'],
+  staff: ['upload', 'process', 'review'],
+  board: [],
+  analyst: ['readAllLibraries'],
+  admin: ['upload', 'process', 'review', 'share', 'readAllLibraries', 'manage']
+};
+
+// The parts of a user profile that decide what they can do
+interface RoleHolder {
+  role?: string | null;
+  libraryId?: string | null;
+  libraryIds?: string[] | null;
+}
+
+/**
+ * Check whether a role grants a permission
+ * Unknown or missing roles grant nothing.
+ */
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return !!role && (ROLE_PERMISSIONS[role as UserRole] || []).includes(permission);
+}
+
+/**
+ * Get the display name of a role
+ */
+export function getRoleLabel(role: string | null | undefined): string {
+  return ROLES.find(entry => entry.role === role)?.label || 'Unknown';
+}
+
+/**
+ * List the libraries a user belongs to
+ * Profiles from before multiple libraries were supported only have libraryId, and the
+ * Firestore rules accept either field, so a user belongs to the libraries in both.
+ */
+export function getLibraryIds(user: RoleHolder | null | undefined): string[] {
+  if (!user) return [];
+  const libraryIds = user.libraryIds || [];
+  return user.libraryId && !libraryIds.includes(user.libraryId) ? [user.libraryId, ...libraryIds] : libraryIds;
+}
+
+/**
+ * Check whether a user belongs to a library
+ */
+export function isLibraryMember(user: RoleHolder | null | undefined, libraryId: string): boolean {
+  return getLibraryIds(user).includes(libraryId);
+}
+
+/**
+ * Check whether a user may perform an action on a library's reports
+ * Library-scoped permissions only apply to the user's own libraries; admins act on every library.
+ */
+export function canActOnLibrary(user: RoleHolder | null | undefined, libraryId: string, permission: Permission): boolean {
+  if (!user || !hasPermission(user.role, permission)) return false;
+  return isLibraryMember(user, libraryId) || hasPermission(user.role, 'manage');
+}
+
+/**
+ * Check whether a user may read a report
+ * isShared is set for reports shared with every member; sharedLibraryIds lists the
+ * libraries a report is shared with otherwise.
+ * @param user The user's role and library
+ * @param report The report's library and who it is shared with
+ */
+export function canReadReport(
+  user: RoleHolder | null | undefined,
+  report: { libraryId: string; isShared?: boolean; sharedLibraryIds?: string[] }
+): boolean {
+  if (!user) return false;
+  return isLibraryMember(user, report.libraryId) ||
+    !!report.isShared ||
+    (report.sharedLibraryIds || []).some(libraryId => isLibraryMember(user, libraryId)) ||
+    hasPermission(user.role, 'readAllLibraries');
+}
@@ -0,0 +1,106 @@
+import { collection, DocumentData, getDocs, query, where } from 'firebase/firestore';
+import { db } from './firebase';
+import type { SharingScope } from '@/types/sharing';
+
+export const SHARING_SCOPES: { scope: SharingScope; label: string; description: string }[] = [
+  { scope: 'private', label: 'Private', description: 'Only your library can see this report' },
+  { scope: 'libraries', label: 'Specific Libraries', description: 'Only the libraries you choose can see this report' },
+  { scope: 'system', label: 'All NCLS Members', description: 'Every member library can see this report and use it for peer benchmarking' },
+  { scope: 'public', label: 'Public', description: 'All NCLS members, plus anyone you send a public link to' }
+];
+
+// The sharing fields of a report; reports from before sharing scopes only have isShared
+interface SharedReport {
+  isShared?: boolean;
+  sharingScope?: SharingScope;
+  sharedLibraryIds?: string[];
+}
+
+/**
+ * Get the scope a report is shared with
+ */
+export function getSharingScope(report: SharedReport): SharingScope {
+  return report.sharingScope || (report.isShared ? 'system' : 'private');
+}
+
+/**
+ * Get the display name of a sharing scope
+ */
+export function getSharingLabel(report: SharedReport): string {
+  const scope = getSharingScope(report);
+  return SHARING_SCOPES.find(entry => entry.scope === scope)?.label || 'Private';
+}
+
+/**
+ * Build the report fields for a sharing scope
+ * isShared stays true for scopes every member can see, which is what peer benchmarking
+ * and the Firestore rules use, and the library list is only kept for the libraries scope.
+ * @param scope The new scope
+ * @param libraryIds The libraries to share with, for the libraries scope
+ */
+export function buildSharingFields(scope: SharingScope, libraryIds: string[] = []): Required<SharedReport> {
+  return {
+    sharingScope: scope,
+    sharedLibraryIds: scope === 'libraries' ? libraryIds : [],
+    isShared: scope === 'system' || scope === 'public'
+  };
+}
+
+/**
+ * Load the reports other libraries have shared with any of the given libraries
+ * Reports shared with every member are not included; query those with isShared.
+ * @param libraryIds The libraries of the signed-in user
+ * @returns The reports, each once
+ */
+export async function fetchReportsSharedWithLibraries(libraryIds: string[]): Promise<Array<{ id: string } & DocumentData>> {
+  const snapshots = await Promise.all(
+    libraryIds.map(libraryId =>
+      getDocs(query(collection(db, 'reports'), where('sharedLibraryIds', 'array-contains', libraryId)))
+    )
+  );
+
+  const reports = new Map<string, { id: string } & DocumentData>();
+  for (const snapshot of snapshots) {
+    for (const reportDoc of snapshot.docs) {
+      reports.set(reportDoc.id, { id: reportDoc.id, ...reportDoc.data() });
+    }
+  }
+  return Array.from(reports.values());
+}
+
+/**
+ * Create a token for a public link
+ * 24 random bytes, hex encoded, so links cannot be guessed.
+ */
+export function generatePublicLinkToken(): string {
+  const bytes = new Uint8Array(24);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Convert a Firestore Timestamp or Date to a Date
+ */
+function toDate(value: any): Date | null {
+  if (!value) return null;
+  if (typeof value.toDate === 'function') return value.toDate();
+  return value instanceof Date ? value : new Date(value);
+}
+
+/**
+ * Check whether a public link still opens its report
+ * A link stops working when it is revoked, when it expires, or when the report is
+ * no longer shared publicly.
+ * @param link The link's revocation and expiry
+ * @param report The report the link points to
+ * @param now The time to check against
+ */
+export function isPublicLinkActive(
+  link: { expiresAt?: any; revokedAt?: any },
+  report: SharedReport,
+  now = new Date()
+): boolean {
+  if (link.revokedAt || getSharingScope(report) !== 'public') return false;
+  const expiresAt = toDate(link.expiresAt);
+  return !expiresAt || expiresAt > now;
+}
@@ -0,0 +1,148 @@
+import ExcelJS from 'exceljs';
+import type { ImportTable } from '@/types/importTemplate';
+
+// Largest spreadsheet accepted for import; a statewide export is well under this
+export const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024;
+
+// Rows beyond this are not read, which keeps the preview sent back to the browser small
+const MAX_IMPORT_ROWS = 2000;
+
+/**
+ * Thrown when an uploaded file cannot be read as a spreadsheet
+ */
+export class SpreadsheetImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpreadsheetImportError';
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, SpreadsheetImportError.prototype);
+  }
+}
+
+/**
+ * Split CSV text into rows of cells
+ * Handles quoted cells containing commas, quotes and line breaks.
+ * @param text The CSV text
+ * @returns The rows, including empty ones
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  // Strip the byte order mark Excel writes at the start of UTF-8 files
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Read the cells of the first worksheet of an Excel workbook, as displayed
+ */
+async function readWorkbook(content: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(content as unknown as ArrayBuffer);
+  } catch {
+    throw new SpreadsheetImportError('The file is not a valid Excel workbook');
+  }
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) {
+    throw new SpreadsheetImportError('The workbook has no worksheets');
+  }
+
+  const rows: string[][] = [];
+  worksheet.eachRow(row => {
+    const cells: string[] = [];
+    for (let column = 1; column <= worksheet.columnCount; column++) {
+      cells.push(row.getCell(column).text);
+    }
+    rows.push(cells);
+  });
+  return rows;
+}
+
+/**
+ * Turn raw rows into a header row and data rows
+ * Blank rows are skipped, and blank or repeated headers are made unique so each
+ * column can be mapped on its own.
+ */
+function toTable(rawRows: string[][]): ImportTable {
+  const rows = rawRows
+    .map(row => row.map(cell => cell.trim()))
+    .filter(row => row.some(cell => cell !== ''));
+
+  if (rows.length < 2) {
+    throw new SpreadsheetImportError('The file needs a header row and at least one row of data');
+  }
+
+  const width = Math.max(...rows.map(row => row.length));
+  const seen = new Map<string, number>();
+  const headers = Array.from({ length: width }, (_, index) => {
+    const header = rows[0][index] || `Column ${index + 1}`;
+    const count = (seen.get(header) || 0) + 1;
+    seen.set(header, count);
+    return count > 1 ? `${header} (${count})` : header;
+  });
+
+  return {
+    headers,
+    rows: rows.slice(1, MAX_IMPORT_ROWS + 1).map(row => headers.map((_, index) => row[index] || ''))
+  };
+}
+
+/**
+ * Read an uploaded CSV or Excel file into a table
+ * @param content The file contents
+ * @param fileName The file's name, which tells the format apart
+ * @returns The header row and data rows
+ * @throws SpreadsheetImportError if the file is not a readable spreadsheet
+ */
+export async function readSpreadsheet(content: Buffer, fileName: string): Promise<ImportTable> {
+  if (content.length > MAX_IMPORT_FILE_SIZE) {
+    throw new SpreadsheetImportError('File size must be less than 5MB');
+  }
+
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv') {
+    return toTable(parseCsv(content.toString('utf-8')));
+  }
+  if (extension === 'xlsx') {
+    return toTable(await readWorkbook(content));
+  }
+  throw new SpreadsheetImportError('Please upload a CSV or Excel (.xlsx) file');
+}
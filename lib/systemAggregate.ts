@@ -0,0 +1,155 @@
+import type { ReportData, ValueItem } from '@/types/report';
+import { programAttendance, totalCirculation, totalRevenue } from './reportMetrics';
+import { canonicalCategoryName } from './categoryTaxonomy';
+
+// A member library as imported from NCLS-libraries.csv
+export interface LibraryInfo {
+  id: string;
+  name: string;
+  county: string;
+}
+
+// One library's completed report for the year being summarized
+export interface LibraryReport {
+  libraryId: string;
+  data: ReportData;
+}
+
+// The headline figures of a single library, or of a group of libraries
+export interface AggregateTotals {
+  physicalItemCirculation: number;
+  eBookCirculation: number;
+  eAudioCirculation: number;
+  totalCirculation: number;
+  totalRevenue: number;
+  programAttendance: number;
+}
+
+export interface LibraryRow extends AggregateTotals {
+  library: LibraryInfo;
+  reported: boolean;
+}
+
+export interface CountySummary extends AggregateTotals {
+  county: string;
+  libraries: LibraryRow[];
+  reportingCount: number;
+  missingCount: number;
+}
+
+export interface SystemSummary extends AggregateTotals {
+  revenueBySource: ValueItem[];
+  reportingCount: number;
+  missingCount: number;
+  missingLibraries: LibraryInfo[];
+  counties: CountySummary[];
+}
+
+// Libraries imported without a county are grouped under this name
+export const UNKNOWN_COUNTY = 'Unknown County';
+
+function emptyTotals(): AggregateTotals {
+  return {
+    physicalItemCirculation: 0,
+    eBookCirculation: 0,
+    eAudioCirculation: 0,
+    totalCirculation: 0,
+    totalRevenue: 0,
+    programAttendance: 0
+  };
+}
+
+/**
+ * Calculate the headline figures of one report
+ */
+function totalsForReport(data: ReportData): AggregateTotals {
+  return {
+    physicalItemCirculation: data.usageStatistics?.physicalItemCirculation || 0,
+    eBookCirculation: data.usageStatistics?.eBookCirculation || 0,
+    eAudioCirculation: data.usageStatistics?.eAudioCirculation || 0,
+    // A figure the report leaves out adds nothing to the system totals
+    totalCirculation: totalCirculation(data) ?? 0,
+    totalRevenue: totalRevenue(data) ?? 0,
+    programAttendance: programAttendance(data) ?? 0
+  };
+}
+
+/**
+ * Add one set of totals into another in place
+ */
+function addTotals(target: AggregateTotals, totals: AggregateTotals): void {
+  target.physicalItemCirculation += totals.physicalItemCirculation;
+  target.eBookCirculation += totals.eBookCirculation;
+  target.eAudioCirculation += totals.eAudioCirculation;
+  target.totalCirculation += totals.totalCirculation;
+  target.totalRevenue += totals.totalRevenue;
+  target.programAttendance += totals.programAttendance;
+}
+
+/**
+ * Roll up every member library's report for a year
+ * @param libraries All member libraries
+ * @param reports The completed reports for the year; if a library has more than one, only the first is counted
+ * @returns System-wide totals with a breakdown by county
+ */
+export function aggregateSystem(libraries: LibraryInfo[], reports: LibraryReport[]): SystemSummary {
+  const reportByLibrary = new Map<string, ReportData>();
+  for (const report of reports) {
+    if (!reportByLibrary.has(report.libraryId)) {
+      reportByLibrary.set(report.libraryId, report.data);
+    }
+  }
+
+  const summary: SystemSummary = {
+    ...emptyTotals(),
+    revenueBySource: [],
+    reportingCount: 0,
+    missingCount: 0,
+    missingLibraries: [],
+    counties: []
+  };
+  const revenueBySource = new Map<string, number>();
+  const counties = new Map<string, CountySummary>();
+
+  for (const library of libraries) {
+    const countyName = library.county.trim() || UNKNOWN_COUNTY;
+    let county = counties.get(countyName);
+    if (!county) {
+      county = { ...emptyTotals(), county: countyName, libraries: [], reportingCount: 0, missingCount: 0 };
+      counties.set(countyName, county);
+    }
+
+    const data = reportByLibrary.get(library.id);
+    if (!data) {
+      county.libraries.push({ ...emptyTotals(), library, reported: false });
+      county.missingCount++;
+      summary.missingCount++;
+      summary.missingLibraries.push(library);
+      continue;
+    }
+
+    const totals = totalsForReport(data);
+    county.libraries.push({ ...totals, library, reported: true });
+    county.reportingCount++;
+    addTotals(county, totals);
+    summary.reportingCount++;
+    addTotals(summary, totals);
+
+    // Reports extracted before the taxonomy may name the same source differently
+    for (const item of data.revenueData || []) {
+      const name = canonicalCategoryName('revenueData', item.name);
+      revenueBySource.set(name, (revenueBySource.get(name) || 0) + (item.value || 0));
+    }
+  }
+
+  summary.revenueBySource = Array.from(revenueBySource.entries())
+    .map(([name, value]) => ({ name, value }))
+    .sort((a, b) => b.value - a.value);
+  summary.counties = Array.from(counties.values()).sort((a, b) => a.county.localeCompare(b.county));
+  for (const county of summary.counties) {
+    county.libraries.sort((a, b) => a.library.name.localeCompare(b.library.name));
+  }
+  summary.missingLibraries.sort((a, b) => a.name.localeCompare(b.name));
+
+  return summary;
+}
@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { hasPermission } from '@/lib/roles';
+import ApprovalsTab from '@/components/admin/ApprovalsTab';
+import UsersTab from '@/components/admin/UsersTab';
+import LibrariesTab from '@/components/admin/LibrariesTab';
+import ReportsTab from '@/components/admin/ReportsTab';
+import JobsTab from '@/components/admin/JobsTab';
+import type { Library } from '@/types/library';
+
+type AdminTab = 'approvals' | 'users' | 'libraries' | 'reports' | 'jobs';
+
+const TABS: { key: AdminTab; label: string }[] = [
+  { key: 'approvals', label: 'Pending Approval' },
+  { key: 'users', label: 'Users' },
+  { key: 'libraries', label: 'Libraries' },
+  { key: 'reports', label: 'Reports' },
+  { key: 'jobs', label: 'Processing Jobs' }
+];
+
+export default function AdminConsole() {
+  const [libraries, setLibraries] = useState<Library[]>([]);
+  const [activeTab, setActiveTab] = useState<AdminTab>('approvals');
+  const [pendingCount, setPendingCount] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const { user, userProfile } = useAuth();
+  const isAdmin = hasPermission(userProfile?.role, 'manage');
+
+  // Every tab shows library names, so the libraries are loaded once for all of them
+  useEffect(() => {
+    const fetchLibraries = async () => {
+      if (!user || !isAdmin) return;
+
+      try {
+        setLoading(true);
+        const librariesSnapshot = await getDocs(collection(db, 'libraries'));
+        const librariesList = librariesSnapshot.docs.map(libraryDoc => ({
+          id: libraryDoc.id,
+          ...libraryDoc.data()
+        } as Library));
+        librariesList.sort((a, b) => (a.name || '').localeCompare(b.name || ''));
+        setLibraries(librariesList);
+        setLoading(false);
+      } catch (err: any) {
+        console.error('Error fetching libraries:', err);
+        setError(err.message || 'Failed to load libraries');
+        setLoading(false);
+      }
+    };
+
+    fetchLibraries();
+  }, [user, isAdmin]);
+
+  if (!isAdmin || !user) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative">
+          You do not have permission to view this page
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Admin - NCLS Annual Report Dashboard</title>
+        <meta name="description" content="Manage users, libraries, reports and processing jobs" />
+      </Head>
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="flex justify-between items-center mb-6">
+            <h1 className="text-3xl font-bold text-primary-700">Admin Console</h1>
+            <Link href="/admin/system" className="btn btn-secondary">
+              System Dashboard
+            </Link>
+          </div>
+
+          <div className="border-b border-gray-200 mb-6">
+            <nav className="-mb-px flex space-x-8">
+              {TABS.map(tab => (
+                <button
+                  key={tab.key}
+                  onClick={() => setActiveTab(tab.key)}
+                  className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                    activeTab === tab.key
+                      ? 'border-primary-500 text-primary-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  {tab.label}
+                  {tab.key === 'approvals' && pendingCount ? (
+                    <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                      {pendingCount}
+                    </span>
+                  ) : null}
+                </button>
+              ))}
+            </nav>
+          </div>
+
+          {error ? (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative mb-6">
+              {error}
+            </div>
+          ) : loading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-600"></div>
+            </div>
+          ) : activeTab === 'approvals' ? (
+            <ApprovalsTab libraries={libraries} currentUserId={user.uid} onPendingCountChange={setPendingCount} />
+          ) : activeTab === 'users' ? (
+            <UsersTab libraries={libraries} currentUserId={user.uid} />
+          ) : activeTab === 'libraries' ? (
+            <LibrariesTab
+              libraries={libraries}
+              onLibraryUpdated={(library) =>
+                setLibraries(prev => prev.map(entry => (entry.id === library.id ? library : entry)))
+              }
+            />
+          ) : activeTab === 'reports' ? (
+            <ReportsTab user={user} libraries={libraries} />
+          ) : (
+            <JobsTab user={user} libraries={libraries} />
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,320 @@
+import { useState, useEffect, useMemo } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { hasPermission } from '@/lib/roles';
+import { exportFileName, fetchYearData, saveFile } from '@/lib/exportApi';
+import { aggregateSystem, LibraryInfo, LibraryReport } from '@/lib/systemAggregate';
+import type { ExportFormat } from '@/lib/reportExport';
+import type { ReportData } from '@/types/report';
+
+// A completed report, reduced to what is needed to join it with its data
+interface CompletedReport {
+  id: string;
+  libraryId: string;
+  year: number;
+  updatedAt: number;
+}
+
+// Format number with commas
+const formatNumber = (num: number): string => {
+  return Math.round(num).toString().replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+};
+
+export default function SystemDashboard() {
+  const [libraries, setLibraries] = useState<LibraryInfo[]>([]);
+  const [completedReports, setCompletedReports] = useState<CompletedReport[]>([]);
+  const [yearReports, setYearReports] = useState<LibraryReport[]>([]);
+  const [year, setYear] = useState<number | null>(null);
+  const [selectedCounty, setSelectedCounty] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState('');
+  const { user, userProfile } = useAuth();
+  // Analysts can read every library's reports, so they see the system totals too
+  const canViewSystem = hasPermission(userProfile?.role, 'readAllLibraries');
+
+  // Load the member libraries and the years that have completed reports
+  useEffect(() => {
+    const fetchLibraries = async () => {
+      if (!user || !canViewSystem) return;
+
+      try {
+        setLoading(true);
+
+        const librariesSnapshot = await getDocs(collection(db, 'libraries'));
+        setLibraries(librariesSnapshot.docs.map(libraryDoc => ({
+          id: libraryDoc.id,
+          name: libraryDoc.data().name || 'Unknown Library',
+          county: libraryDoc.data().county || ''
+        })));
+
+        const reportsSnapshot = await getDocs(
+          query(collection(db, 'reports'), where('status', '==', 'Completed'))
+        );
+        const reports = reportsSnapshot.docs.map(reportDoc => ({
+          id: reportDoc.id,
+          libraryId: reportDoc.data().libraryId,
+          year: reportDoc.data().year,
+          updatedAt: reportDoc.data().updatedAt?.toMillis?.() || 0
+        }));
+        setCompletedReports(reports);
+
+        const years = reports.map(report => report.year);
+        setYear(years.length > 0 ? Math.max(...years) : new Date().getFullYear() - 1);
+      } catch (err: any) {
+        console.error('Error fetching libraries:', err);
+        setError(err.message || 'Failed to load libraries');
+        setLoading(false);
+      }
+    };
+
+    fetchLibraries();
+  }, [user, canViewSystem]);
+
+  // Load the report data for the selected year
+  useEffect(() => {
+    const fetchYear = async () => {
+      if (!canViewSystem || year === null) return;
+
+      try {
+        setLoading(true);
+
+        // Only approved reports count; the newest report wins if a library uploaded the year twice
+        const completedById = new Map(completedReports.map(report => [report.id, report]));
+        const reportDataSnapshot = await getDocs(
+          query(collection(db, 'reportData'), where('year', '==', year))
+        );
+        const reports = reportDataSnapshot.docs
+          .filter(reportDataDoc => completedById.has(reportDataDoc.id))
+          .sort((a, b) => completedById.get(b.id)!.updatedAt - completedById.get(a.id)!.updatedAt)
+          .map(reportDataDoc => ({
+            libraryId: completedById.get(reportDataDoc.id)!.libraryId,
+            data: reportDataDoc.data() as ReportData
+          }));
+
+        setYearReports(reports);
+        setLoading(false);
+      } catch (err: any) {
+        console.error('Error fetching report data:', err);
+        setError(err.message || 'Failed to load report data');
+        setLoading(false);
+      }
+    };
+
+    fetchYear();
+  }, [canViewSystem, year, completedReports]);
+
+  // Download every library's completed report for the selected year in one file
+  const handleExport = async (format: ExportFormat) => {
+    if (!user || year === null) return;
+
+    try {
+      setExporting(true);
+      const file = await fetchYearData(user, year, format);
+      saveFile(file, exportFileName('ncls-all-libraries', year, `data.${format}`));
+      setExporting(false);
+    } catch (err: any) {
+      console.error('Error exporting year data:', err);
+      setError(err.message || 'Failed to export year data');
+      setExporting(false);
+    }
+  };
+
+  const summary = useMemo(() => aggregateSystem(libraries, yearReports), [libraries, yearReports]);
+  const county = summary.counties.find(entry => entry.county === selectedCounty);
+  const years = Array.from(new Set(completedReports.map(report => report.year))).sort((a, b) => b - a);
+
+  if (!canViewSystem) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative">
+          You do not have permission to view this page
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>System Dashboard - NCLS Annual Report Dashboard</title>
+        <meta name="description" content="System-wide totals across all member libraries" />
+      </Head>
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="flex justify-between items-center mb-6">
+            <h1 className="text-3xl font-bold text-primary-700">NCLS System Dashboard</h1>
+            <div className="flex items-center space-x-2">
+              <label htmlFor="year" className="form-label mb-0">Year</label>
+              <select
+                id="year"
+                className="form-input"
+                value={year ?? ''}
+                onChange={(e) => {
+                  setYear(parseInt(e.target.value));
+                  setSelectedCounty(null);
+                }}
+              >
+                {years.length === 0 && year !== null && <option value={year}>{year}</option>}
+                {years.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => handleExport('xlsx')}
+                disabled={exporting || yearReports.length === 0}
+                className="btn btn-secondary"
+              >
+                Export Excel
+              </button>
+              <button
+                onClick={() => handleExport('csv')}
+                disabled={exporting || yearReports.length === 0}
+                className="btn btn-secondary"
+              >
+                Export CSV
+              </button>
+            </div>
+          </div>
+
+          {error ? (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative mb-6">
+              {error}
+            </div>
+          ) : loading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-600"></div>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="card">
+                  <p className="text-sm text-gray-500">Libraries Reporting</p>
+                  <p className="text-2xl font-bold">{summary.reportingCount} of {libraries.length}</p>
+                  <p className="text-sm text-gray-500">{summary.missingCount} missing</p>
+                </div>
+                <div className="card">
+                  <p className="text-sm text-gray-500">Total Circulation</p>
+                  <p className="text-2xl font-bold">{formatNumber(summary.totalCirculation)}</p>
+                  <p className="text-sm text-gray-500">
+                    {formatNumber(summary.eBookCirculation + summary.eAudioCirculation)} digital
+                  </p>
+                </div>
+                <div className="card">
+                  <p className="text-sm text-gray-500">Total Revenue</p>
+                  <p className="text-2xl font-bold">${formatNumber(summary.totalRevenue)}</p>
+                </div>
+                <div className="card">
+                  <p className="text-sm text-gray-500">Program Attendance</p>
+                  <p className="text-2xl font-bold">{formatNumber(summary.programAttendance)}</p>
+                </div>
+              </div>
+
+              <div className="card">
+                <h2 className="text-xl font-semibold mb-4">Revenue by Source</h2>
+                {summary.revenueBySource.length === 0 ? (
+                  <p className="text-gray-600">No revenue was reported for {year}.</p>
+                ) : (
+                  <div className="h-72">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={summary.revenueBySource} margin={{ top: 5, right: 30, left: 40, bottom: 50 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="name" angle={-30} textAnchor="end" height={70} />
+                        <YAxis tickFormatter={(value: number) => `$${formatNumber(value)}`} />
+                        <Tooltip formatter={(value: number) => `$${formatNumber(value)}`} />
+                        <Bar dataKey="value" fill="#82ca9d" name="Revenue" />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+              </div>
+
+              <div className="card overflow-x-auto">
+                <div className="flex justify-between items-center mb-4">
+                  <h2 className="text-xl font-semibold">
+                    {county ? `${county.county} County` : 'By County'}
+                  </h2>
+                  {county && (
+                    <button onClick={() => setSelectedCounty(null)} className="btn btn-secondary">
+                      All Counties
+                    </button>
+                  )}
+                </div>
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead>
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">{county ? 'Library' : 'County'}</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-500">{county ? 'Status' : 'Reporting'}</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-500">Circulation</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-500">Revenue</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-500">Program Attendance</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {county
+                      ? county.libraries.map(row => (
+                          <tr key={row.library.id}>
+                            <td className="px-4 py-2">
+                              <Link href={`/libraries/${row.library.id}/trends`} className="text-primary-600 hover:text-primary-700">
+                                {row.library.name}
+                              </Link>
+                            </td>
+                            <td className="px-4 py-2 text-right">
+                              {row.reported ? (
+                                <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                                  Reported
+                                </span>
+                              ) : (
+                                <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                                  Missing
+                                </span>
+                              )}
+                            </td>
+                            <td className="px-4 py-2 text-right">{row.reported ? formatNumber(row.totalCirculation) : '–'}</td>
+                            <td className="px-4 py-2 text-right">{row.reported ? `$${formatNumber(row.totalRevenue)}` : '–'}</td>
+                            <td className="px-4 py-2 text-right">{row.reported ? formatNumber(row.programAttendance) : '–'}</td>
+                          </tr>
+                        ))
+                      : summary.counties.map(entry => (
+                          <tr key={entry.county}>
+                            <td className="px-4 py-2">
+                              <button
+                                onClick={() => setSelectedCounty(entry.county)}
+                                className="text-primary-600 hover:text-primary-700"
+                              >
+                                {entry.county}
+                              </button>
+                            </td>
+                            <td className="px-4 py-2 text-right">
+                              {entry.reportingCount} of {entry.libraries.length}
+                            </td>
+                            <td className="px-4 py-2 text-right">{formatNumber(entry.totalCirculation)}</td>
+                            <td className="px-4 py-2 text-right">${formatNumber(entry.totalRevenue)}</td>
+                            <td className="px-4 py-2 text-right">{formatNumber(entry.programAttendance)}</td>
+                          </tr>
+                        ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {!county && summary.missingLibraries.length > 0 && (
+                <div className="card">
+                  <h2 className="text-xl font-semibold mb-4">Libraries Missing a {year} Report</h2>
+                  <ul className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm">
+                    {summary.missingLibraries.map(library => (
+                      <li key={library.id}>{library.name}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,57 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { ApiAuthError, getRequestUser } from '@/lib/apiAuth';
+import { renderBoardPacket } from '@/lib/boardPacket';
+import { canReadReport } from '@/lib/roles';
+import type { ReportData } from '@/types/report';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { reportId } = req.body;
+
+  if (!reportId) {
+    return res.status(400).json({ error: 'Report ID is required' });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+
+    const reportDoc = await getDoc(doc(db, 'reports', reportId));
+    if (!reportDoc.exists()) {
+      return res.status(404).json({ error: 'Report not found' });
+    }
+
+    // The server reads as the service account, so apply the report's access rules here
+    const report = reportDoc.data();
+    if (!canReadReport(user, { libraryId: report.libraryId, isShared: report.isShared, sharedLibraryIds: report.sharedLibraryIds })) {
+      return res.status(403).json({ error: 'You do not have permission to view this report' });
+    }
+
+    const reportDataDoc = await getDoc(doc(db, 'reportData', reportId));
+    if (!reportDataDoc.exists() || (report.status !== 'Review' && report.status !== 'Completed')) {
+      return res.status(409).json({ error: 'This report has no dashboard data to export yet' });
+    }
+
+    const data = { ...reportDataDoc.data(), year: report.year } as ReportData;
+    const pdf = await renderBoardPacket(data);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Length', pdf.length);
+    return res.status(200).send(pdf);
+  } catch (error: any) {
+    if (error instanceof ApiAuthError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+
+    console.error('Error exporting report PDF:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to export report PDF'
+    });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { collection, doc, getDoc, getDocs, query, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { ApiAuthError, getRequestUser } from '@/lib/apiAuth';
+import { buildExportCsv, buildExportSheets, EXPORT_CONTENT_TYPES, ExportFormat, sheetsToXlsx } from '@/lib/reportExport';
+import { hasPermission } from '@/lib/roles';
+import type { ReportData } from '@/types/report';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const format: ExportFormat = req.body.format;
+  const year = parseInt(req.body.year);
+
+  if (!year) {
+    return res.status(400).json({ error: 'Year is required' });
+  }
+
+  if (format !== 'csv' && format !== 'xlsx') {
+    return res.status(400).json({ error: 'Format must be csv or xlsx' });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+
+    if (!hasPermission(user.role, 'readAllLibraries')) {
+      return res.status(403).json({ error: 'You do not have permission to export every library' });
+    }
+
+    // Only approved reports count; the newest report wins if a library uploaded the year twice
+    const reportsSnapshot = await getDocs(
+      query(collection(db, 'reports'), where('status', '==', 'Completed'), where('year', '==', year))
+    );
+    const latestByLibrary = new Map<string, { id: string; updatedAt: number }>();
+    for (const reportDoc of reportsSnapshot.docs) {
+      const updatedAt = reportDoc.data().updatedAt?.toMillis?.() || 0;
+      const existing = latestByLibrary.get(reportDoc.data().libraryId);
+      if (!existing || updatedAt > existing.updatedAt) {
+        latestByLibrary.set(reportDoc.data().libraryId, { id: reportDoc.id, updatedAt });
+      }
+    }
+
+    const reportDataDocs = await Promise.all(
+      Array.from(latestByLibrary.values()).map(report => getDoc(doc(db, 'reportData', report.id)))
+    );
+    const reports = reportDataDocs
+      .filter(reportDataDoc => reportDataDoc.exists())
+      .map(reportDataDoc => ({ ...reportDataDoc.data(), year } as ReportData))
+      .sort((a, b) => a.libraryName.localeCompare(b.libraryName));
+
+    if (reports.length === 0) {
+      return res.status(404).json({ error: `No completed reports were found for ${year}` });
+    }
+
+    const file = format === 'csv'
+      ? buildExportCsv(reports, true)
+      : await sheetsToXlsx(buildExportSheets(reports, true));
+
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+    return res.status(200).send(file);
+  } catch (error: any) {
+    if (error instanceof ApiAuthError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+
+    console.error('Error exporting year data:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to export year data'
+    });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { ApiAuthError, getRequestUser } from '@/lib/apiAuth';
+import { buildImportedReport } from '@/lib/importMapping';
+import { formatIssues } from '@/lib/reportSchema';
+import { addReportVersion, ReportVersionError } from '@/lib/reportVersions';
+import { canActOnLibrary } from '@/lib/roles';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { libraryId, fileName, headers, row, mapping } = req.body;
+  const year = parseInt(req.body.year);
+
+  if (!libraryId || !year) {
+    return res.status(400).json({ error: 'Library and year are required' });
+  }
+
+  if (!Array.isArray(headers) || !Array.isArray(row) || !mapping) {
+    return res.status(400).json({ error: 'A spreadsheet row and column mapping are required' });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+
+    if (!canActOnLibrary(user, libraryId, 'upload')) {
+      return res.status(403).json({ error: 'You do not have permission to add reports for this library' });
+    }
+
+    const libraryDoc = await getDoc(doc(db, 'libraries', libraryId));
+    if (!libraryDoc.exists()) {
+      return res.status(404).json({ error: 'Library not found' });
+    }
+
+    // The report ID is filled in once the version is added to this year's report
+    const { data, issues } = buildImportedReport(
+      { headers, rows: [row] },
+      0,
+      mapping,
+      { reportId: '', libraryName: libraryDoc.data().name || 'Unknown Library', year }
+    );
+
+    if (issues.length > 0) {
+      return res.status(422).json({ error: `The spreadsheet data is invalid: ${formatIssues(issues)}`, issues });
+    }
+
+    // Imported values are exact, so the report skips processing and goes straight to review
+    const { reportId } = await addReportVersion({
+      libraryId,
+      year,
+      userId: user.uid,
+      uploadedByName: user.name,
+      source: 'import',
+      pdfPath: null,
+      sourceFileName: fileName || null,
+      data
+    });
+
+    return res.status(201).json({ success: true, reportId });
+  } catch (error: any) {
+    if (error instanceof ApiAuthError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof ReportVersionError) {
+      return res.status(409).json({ error: error.message });
+    }
+
+    console.error('Error importing report:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to import report'
+    });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ApiAuthError, getRequestUser } from '@/lib/apiAuth';
+import { hasPermission } from '@/lib/roles';
+import { readSpreadsheet, SpreadsheetImportError } from '@/lib/spreadsheetImport';
+
+// The file arrives base64 encoded, which is a third larger than the 5MB file limit
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '8mb'
+    }
+  }
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { fileName, content } = req.body;
+
+  if (!fileName || !content) {
+    return res.status(400).json({ error: 'A file is required' });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+
+    if (!hasPermission(user.role, 'upload')) {
+      return res.status(403).json({ error: 'You do not have permission to import reports' });
+    }
+
+    const table = await readSpreadsheet(Buffer.from(content, 'base64'), fileName);
+
+    return res.status(200).json({ success: true, table });
+  } catch (error: any) {
+    if (error instanceof ApiAuthError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof SpreadsheetImportError) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    console.error('Error reading import file:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to read the file'
+    });
+  }
+}
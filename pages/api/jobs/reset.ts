@@ -0,0 +1,38 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ApiAuthError, getRequestUser } from '@/lib/apiAuth';
+import { resetJob } from '@/lib/jobQueue';
+import { hasPermission } from '@/lib/roles';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { jobId } = req.body;
+
+  if (!jobId) {
+    return res.status(400).json({ error: 'Job ID is required' });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+    if (!hasPermission(user.role, 'manage')) {
+      return res.status(403).json({ error: 'Only admins can reset processing jobs' });
+    }
+
+    await resetJob(jobId, user.uid);
+
+    return res.status(200).json({ success: true });
+  } catch (error: any) {
+    if (error instanceof ApiAuthError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+
+    console.error('Error resetting processing job:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to reset processing job'
+    });
+  }
+}
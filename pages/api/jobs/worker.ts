@@ -0,0 +1,50 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { signInServiceAccount } from '@/lib/apiAuth';
+import { claimNextJob, runJob } from '@/lib/jobQueue';
+import type { JobStatus } from '@/types/job';
+
+// Let a run use the longest function duration Vercel allows
+export const config = {
+  maxDuration: 300
+};
+
+// Stop claiming new jobs after this long, so the last job has time to finish
+// before the function is stopped. A job cut off anyway is retried once its lease expires.
+const CLAIM_WINDOW_MS = 60 * 1000;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Vercel Cron calls with GET; POST allows running the worker by hand
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.authorization !== `Bearer ${secret}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const workerId = `worker-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const startedAt = Date.now();
+  const processed: Array<{ jobId: string; reportId: string; status: JobStatus }> = [];
+
+  try {
+    await signInServiceAccount();
+
+    while (Date.now() - startedAt < CLAIM_WINDOW_MS) {
+      const job = await claimNextJob(workerId);
+      if (!job) break;
+
+      const status = await runJob(job, workerId);
+      processed.push({ jobId: job.id, reportId: job.reportId, status });
+    }
+
+    return res.status(200).json({ workerId, processed });
+  } catch (error: any) {
+    console.error('Error running processing worker:', error);
+    return res.status(500).json({
+      workerId,
+      processed,
+      error: error.message || 'Failed to run processing worker'
+    });
+  }
+}
@@ -1,66 +1,59 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { processReportWithAI } from '@/lib/reportProcessing';
-import { doc, updateDoc } from 'firebase/firestore';
+import { doc, getDoc } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { ApiAuthError, getRequestUser } from '@/lib/apiAuth';
+import { enqueueReportJob } from '@/lib/jobQueue';
+import { canActOnLibrary } from '@/lib/roles';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Only allow POST requests
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
-  
+
   // Get the report ID from the request body
   const { reportId } = req.body;
-  
+
   if (!reportId) {
     return res.status(400).json({ error: 'Report ID is required' });
   }
-  
+
   try {
-    // Start processing but don't wait for it to complete
-    // This prevents Vercel function timeout issues
-    const processingPromise = processReportWithAI(reportId).catch(async (error) => {
-      console.error('Error in background processing:', error);
-      
-      // Update the report status to Failed
-      try {
-        await updateDoc(doc(db, 'reports', reportId), {
-          status: 'Failed',
-          errorMessage: error.message || 'Unknown error occurred',
-          updatedAt: new Date()
-        });
-      } catch (updateError) {
-        console.error('Failed to update report status:', updateError);
-      }
-      
-      return false;
-    });
-    
-    // Return success immediately, let processing continue in background
-    res.status(200).json({ 
-      success: true, 
-      message: 'Processing started' 
+    const user = await getRequestUser(req);
+
+    const reportDoc = await getDoc(doc(db, 'reports', reportId));
+    if (!reportDoc.exists()) {
+      return res.status(404).json({ error: 'Report not found' });
+    }
+
+    // Only directors and staff of the report's library, or an admin, may (re)process it
+    const libraryId = reportDoc.data().libraryId;
+    if (!canActOnLibrary(user, libraryId, 'process')) {
+      return res.status(403).json({ error: 'You do not have permission to process this report' });
+    }
+
+    // Imported reports were never extracted from a PDF, so there is nothing to process
+    if (!reportDoc.data().pdfPath) {
+      return res.status(409).json({ error: 'This report was imported from a spreadsheet and has no PDF to process' });
+    }
+
+    // Queue the report; a worker picks it up and retries it if processing fails
+    const { jobId, created } = await enqueueReportJob(reportId, libraryId, user.uid);
+
+    return res.status(202).json({
+      success: true,
+      jobId,
+      message: created ? 'Processing queued' : 'Processing is already queued'
     });
-    
-    // Note: This won't block the response, but will keep the function warm
-    // until processing is done or until Vercel terminates it
   } catch (error: any) {
-    console.error('Error initiating report processing:', error);
-    
-    // Update the report status to Failed
-    try {
-      await updateDoc(doc(db, 'reports', reportId), {
-        status: 'Failed',
-        errorMessage: error.message || 'Unknown error occurred',
-        updatedAt: new Date()
-      });
-    } catch (updateError) {
-      console.error('Failed to update report status:', updateError);
+    if (error instanceof ApiAuthError) {
+      return res.status(error.status).json({ error: error.message });
     }
-    
-    return res.status(500).json({ 
+
+    console.error('Error queueing report processing:', error);
+    return res.status(500).json({
       success: false,
-      error: error.message || 'Failed to process report' 
+      error: error.message || 'Failed to queue report processing'
     });
   }
 }
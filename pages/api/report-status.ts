@@ -1,6 +1,8 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { doc, getDoc } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { ApiAuthError, getRequestUser } from '@/lib/apiAuth';
+import { canReadReport } from '@/lib/roles';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Only allow GET requests
@@ -16,6 +18,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
   
   try {
+    const user = await getRequestUser(req);
+    
     // Fetch the report document
     const reportDoc = await getDoc(doc(db, 'reports', reportId));
     
@@ -25,13 +29,31 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     
     const reportData = reportDoc.data();
     
+    // The server reads as the service account, so apply the report's access rules here
+    if (!canReadReport(user, { libraryId: reportData.libraryId, isShared: reportData.isShared, sharedLibraryIds: reportData.sharedLibraryIds })) {
+      return res.status(403).json({ error: 'You do not have permission to view this report' });
+    }
+    
     // Return the report status
     return res.status(200).json({
       status: reportData.status,
       errorMessage: reportData.errorMessage || null,
+      progress: reportData.progress
+        ? {
+            stage: reportData.progress.stage,
+            percent: reportData.progress.percent,
+            message: reportData.progress.message,
+            chunk: reportData.progress.chunk ?? null,
+            totalChunks: reportData.progress.totalChunks ?? null
+          }
+        : null,
       updatedAt: reportData.updatedAt ? reportData.updatedAt.toDate().toISOString() : null
     });
   } catch (error: any) {
+    if (error instanceof ApiAuthError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    
     console.error('Error fetching report status:', error);
     return res.status(500).json({ 
       error: error.message || 'Failed to fetch report status' 
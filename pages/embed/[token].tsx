@@ -0,0 +1,35 @@
+import type { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import ReportDashboard from '@/components/reports/ReportDashboard';
+import { loadPublicReport, PublicReport } from '@/lib/publicReports';
+
+// Not cached, like the public page; vercel.json lets this route be framed by other sites
+const CACHE_CONTROL = 'private, no-store';
+
+export const getServerSideProps: GetServerSideProps<PublicReport> = async ({ params, res }) => {
+  const report = await loadPublicReport(String(params?.token || ''));
+  if (!report) {
+    return { notFound: true };
+  }
+
+  res.setHeader('Cache-Control', CACHE_CONTROL);
+  return { props: report };
+};
+
+export default function EmbeddedReportPage({ token, title, data }: PublicReport) {
+  return (
+    <>
+      <Head>
+        <title>{`${data.libraryName} ${title}`}</title>
+        {/* The full page at /public/[token] is the one search engines should list */}
+        <meta name="robots" content="noindex" />
+      </Head>
+      <ReportDashboard {...data} />
+      <p className="py-2 text-center text-xs text-gray-500 bg-gray-50">
+        <a href={`/public/${token}`} target="_blank" rel="noopener noreferrer" className="hover:text-gray-700">
+          View the full report
+        </a>
+      </p>
+    </>
+  );
+}
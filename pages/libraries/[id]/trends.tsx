@@ -0,0 +1,119 @@
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import Link from 'next/link';
+import { collection, doc, getDoc, getDocs, query, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { getLibraryIds, hasPermission, isLibraryMember } from '@/lib/roles';
+import { fetchReportsSharedWithLibraries } from '@/lib/sharing';
+import { buildTrendSeries, TrendPoint } from '@/lib/reportTrends';
+import TrendDashboard from '@/components/reports/TrendDashboard';
+import type { ReportData } from '@/types/report';
+
+export default function LibraryTrends() {
+  const [libraryName, setLibraryName] = useState('');
+  const [series, setSeries] = useState<TrendPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const router = useRouter();
+  const { id } = router.query;
+  const { user, userProfile } = useAuth();
+
+  useEffect(() => {
+    const fetchTrends = async () => {
+      if (!id || !user || !userProfile) return;
+
+      try {
+        setLoading(true);
+
+        const libraryDoc = await getDoc(doc(db, 'libraries', id as string));
+        if (!libraryDoc.exists()) {
+          setError('Library not found');
+          setLoading(false);
+          return;
+        }
+        setLibraryName(libraryDoc.data().name || 'Unknown Library');
+
+        // Other libraries only see the years shared with every member or with one of their libraries
+        const constraints = [
+          where('libraryId', '==', id),
+          where('status', '==', 'Completed')
+        ];
+        let reportIds: string[];
+        if (!isLibraryMember(userProfile, id as string) && !hasPermission(userProfile.role, 'readAllLibraries')) {
+          constraints.push(where('isShared', '==', true));
+          const [reportsSnapshot, libraryShares] = await Promise.all([
+            getDocs(query(collection(db, 'reports'), ...constraints)),
+            fetchReportsSharedWithLibraries(getLibraryIds(userProfile))
+          ]);
+          reportIds = Array.from(new Set([
+            ...reportsSnapshot.docs.map(reportDoc => reportDoc.id),
+            ...libraryShares
+              .filter(report => report.libraryId === id && report.status === 'Completed')
+              .map(report => report.id)
+          ]));
+        } else {
+          const reportsSnapshot = await getDocs(query(collection(db, 'reports'), ...constraints));
+          reportIds = reportsSnapshot.docs.map(reportDoc => reportDoc.id);
+        }
+
+        const reportDataDocs = await Promise.all(
+          reportIds.map(reportId => getDoc(doc(db, 'reportData', reportId)))
+        );
+        const reports = reportDataDocs
+          .filter(reportDataDoc => reportDataDoc.exists())
+          .map(reportDataDoc => reportDataDoc.data() as ReportData);
+
+        setSeries(buildTrendSeries(reports));
+        setLoading(false);
+      } catch (err: any) {
+        console.error('Error fetching trends:', err);
+        setError(err.message || 'Failed to load trends');
+        setLoading(false);
+      }
+    };
+
+    fetchTrends();
+  }, [id, user, userProfile]);
+
+  return (
+    <>
+      <Head>
+        <title>{libraryName ? `${libraryName} Trends` : 'Trends'} - NCLS Annual Report Dashboard</title>
+        <meta name="description" content="Year-over-year trends from a library's annual reports" />
+      </Head>
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="flex justify-between items-center mb-6">
+            <div>
+              <Link href="/reports" className="text-primary-600 hover:text-primary-700 mb-2 inline-block">
+                &larr; Back to Reports
+              </Link>
+              <h1 className="text-3xl font-bold text-primary-700">Multi-Year Trends</h1>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-600"></div>
+            </div>
+          ) : error ? (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative mb-6">
+              {error}
+            </div>
+          ) : series.length === 0 ? (
+            <div className="card p-8 text-center">
+              <h2 className="text-xl font-semibold mb-2">No Completed Reports</h2>
+              <p className="text-gray-600">
+                Trends appear here once at least one annual report for this library has been reviewed and approved.
+              </p>
+            </div>
+          ) : (
+            <TrendDashboard libraryName={libraryName} series={series} />
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,43 @@
+import type { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import ReportDashboard from '@/components/reports/ReportDashboard';
+import { loadPublicReport, PublicReport } from '@/lib/publicReports';
+
+// Published pages are never cached, so revoking or expiring a link takes effect on the next request
+const CACHE_CONTROL = 'private, no-store';
+
+export const getServerSideProps: GetServerSideProps<PublicReport> = async ({ params, res }) => {
+  const report = await loadPublicReport(String(params?.token || ''));
+  if (!report) {
+    return { notFound: true };
+  }
+
+  res.setHeader('Cache-Control', CACHE_CONTROL);
+  return { props: report };
+};
+
+export default function PublicReportPage({ title, data }: PublicReport) {
+  const pageTitle = `${data.libraryName} ${title}`;
+
+  return (
+    <>
+      <Head>
+        <title>{pageTitle} - North Country Library System</title>
+        <meta
+          name="description"
+          content={`${data.year} annual report dashboard for ${data.libraryName}: visits, circulation, collection, finances and programs.`}
+        />
+        <meta property="og:title" content={pageTitle} />
+        <meta property="og:type" content="website" />
+      </Head>
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          <ReportDashboard {...data} />
+          <p className="mt-6 text-center text-sm text-gray-500">
+            Published by {data.libraryName} through the North Country Library System annual report dashboard.
+          </p>
+        </div>
+      </div>
+    </>
+  );
+}
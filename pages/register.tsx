@@ -5,6 +5,7 @@ import Link from 'next/link';
 import { createUserWithEmailAndPassword } from 'firebase/auth';
 import { doc, setDoc, collection, getDocs } from 'firebase/firestore';
 import { auth, db } from '@/lib/firebase';
+import { useAuth } from '@/components/auth/AuthProvider';
 
 interface Library {
   id: string;
@@ -25,6 +26,7 @@ export default function Register() {
   const [loading, setLoading] = useState(false);
   const [loadingLibraries, setLoadingLibraries] = useState(true);
   const router = useRouter();
+  const { refreshProfile } = useAuth();
 
   useEffect(() => {
     const fetchLibraries = async () => {
@@ -85,12 +87,16 @@ export default function Register() {
         firstName,
         lastName,
         libraryId,
+        libraryIds: [libraryId],
         role: 'director', // Default role
+        // An admin has to confirm the user works at this library before they get access
+        approvalStatus: 'pending',
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
       });
       
-      // Redirect to home page
+      // Redirect to home page, which explains that the account is awaiting approval
+      await refreshProfile();
       router.push('/');
     } catch (err: any) {
       setError(err.message || 'Failed to create account');
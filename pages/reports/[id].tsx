@@ -2,11 +2,25 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/router';
 import Head from 'next/head';
 import Link from 'next/link';
-import { doc, getDoc, updateDoc } from 'firebase/firestore';
+import { doc, getDoc, onSnapshot } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import { useAuth } from '@/components/auth/AuthProvider';
-import { processReportWithAI } from '@/lib/reportProcessing';
+import { hasActiveJob } from '@/lib/jobStatus';
+import { requestReportProcessing } from '@/lib/processingApi';
+import { exportFileName, fetchReportData, fetchReportPdf, saveFile } from '@/lib/exportApi';
+import { canActOnLibrary, canReadReport } from '@/lib/roles';
+import { getSharingLabel } from '@/lib/sharing';
 import ReportDashboard from '@/components/reports/ReportDashboard';
+import ProcessingProgressCard from '@/components/reports/ProcessingProgressCard';
+import PeerComparisonPanel from '@/components/reports/PeerComparisonPanel';
+import ExportMenu, { ExportOption } from '@/components/reports/ExportMenu';
+import VersionHistory from '@/components/reports/VersionHistory';
+import SharingPanel, { SharingState } from '@/components/reports/SharingPanel';
+import type { FieldProvenance, ProcessingProgress } from '@/types/report';
+import type { SharingScope } from '@/types/sharing';
+
+// How often a processing report checks that its job is still alive
+const STALLED_CHECK_MS = 60 * 1000;
 
 interface Report {
   id: string;
@@ -14,9 +28,19 @@ interface Report {
   userId: string;
   year: number;
   title: string;
-  status: 'Processing' | 'Completed' | 'Failed';
+  status: 'Processing' | 'Review' | 'Completed' | 'Failed';
   isShared: boolean;
-  pdfPath: string;
+  // Reports from before sharing scopes only have isShared
+  sharingScope?: SharingScope;
+  sharedLibraryIds?: string[];
+  // Imported reports have no PDF, only the name of the spreadsheet they came from
+  pdfPath: string | null;
+  sourceFileName?: string | null;
+  // Each upload is a version; reports from before versioning have neither field
+  currentVersionId?: string | null;
+  versionCount?: number;
+  errorMessage?: string | null;
+  progress?: ProcessingProgress | null;
   createdAt: any;
 }
 
@@ -53,6 +77,7 @@ interface ReportData {
     strengths: string[];
     areasForDevelopment: string[];
   };
+  provenance?: Record<string, FieldProvenance>;
 }
 
 export default function ReportDetail() {
@@ -60,8 +85,10 @@ export default function ReportDetail() {
   const [reportData, setReportData] = useState<ReportData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
-  const [updating, setUpdating] = useState(false);
+  const [showSharing, setShowSharing] = useState(false);
   const [processing, setProcessing] = useState(false);
+  const [showPeers, setShowPeers] = useState(false);
+  const [exporting, setExporting] = useState(false);
   const router = useRouter();
   const { id } = router.query;
   const { user, userProfile } = useAuth();
@@ -90,7 +117,7 @@ export default function ReportDetail() {
         setReport(reportData);
         
         // Check if user has access to this report
-        if (reportData.libraryId !== userProfile?.libraryId && !reportData.isShared && userProfile?.role !== 'admin') {
+        if (!canReadReport(userProfile, reportData)) {
           setError('You do not have permission to view this report');
           setLoading(false);
           return;
@@ -117,71 +144,118 @@ export default function ReportDetail() {
     fetchReport();
   }, [id, user, userProfile]);
 
+  // Follow a report while it is processing and show the dashboard as soon as it is ready
+  const reportId = report?.id;
+  const isProcessing = report?.status === 'Processing';
+  useEffect(() => {
+    if (!reportId || !isProcessing) return;
+
+    const unsubscribe = onSnapshot(
+      doc(db, 'reports', reportId),
+      async (snapshot) => {
+        if (!snapshot.exists()) return;
+
+        const updatedReport = {
+          id: snapshot.id,
+          ...snapshot.data()
+        } as Report;
+
+        // Load the new data before switching away from the progress view
+        if (updatedReport.status === 'Review' || updatedReport.status === 'Completed') {
+          const reportDataDoc = await getDoc(doc(db, 'reportData', updatedReport.id));
+          if (reportDataDoc.exists()) {
+            setReportData({
+              id: reportDataDoc.id,
+              ...reportDataDoc.data()
+            } as ReportData);
+          }
+        }
+
+        setReport(updatedReport);
+      },
+      (err) => {
+        console.error('Error following report progress:', err);
+      }
+    );
+
+    return unsubscribe;
+  }, [reportId, isProcessing]);
+
+  // A report can be left 'Processing' when its job was never queued or its worker died
+  // on the last attempt; check for a live job now and then so it can be retried
+  const [stalled, setStalled] = useState(false);
+  useEffect(() => {
+    setStalled(false);
+    if (!reportId || !isProcessing) return;
+
+    const checkJob = () => {
+      hasActiveJob(reportId)
+        .then(active => setStalled(!active))
+        .catch(err => console.error('Error checking processing job:', err));
+    };
+    checkJob();
+    const interval = setInterval(checkJob, STALLED_CHECK_MS);
+
+    return () => clearInterval(interval);
+  }, [reportId, isProcessing]);
+
   const handleGenerateDashboard = async () => {
-    if (!report) return;
+    if (!report || !user) return;
     
     try {
       setProcessing(true);
       setError('');
       
-      // Call the AI processing function
-      const success = await processReportWithAI(report.id);
+      // Queue the report; the server processes it in the background
+      await requestReportProcessing(user, report.id);
       
-      if (success) {
-        // Refresh the report data
-        const reportDoc = await getDoc(doc(db, 'reports', report.id));
-        if (reportDoc.exists()) {
-          setReport({
-            id: reportDoc.id,
-            ...reportDoc.data()
-          } as Report);
-        }
-        
-        // Fetch the newly created report data
-        const reportDataDoc = await getDoc(doc(db, 'reportData', report.id));
-        if (reportDataDoc.exists()) {
-          setReportData({
-            id: reportDataDoc.id,
-            ...reportDataDoc.data()
-          } as ReportData);
-        }
-      } else {
-        setError('Failed to process report. Please try again.');
-      }
+      setReport({
+        ...report,
+        status: 'Processing',
+        errorMessage: null,
+        progress: null
+      });
+      setStalled(false);
       
       setProcessing(false);
     } catch (err: any) {
-      console.error('Error processing report:', err);
+      console.error('Error queueing report processing:', err);
       setError(err.message || 'Failed to process report');
       setProcessing(false);
     }
   };
 
-  const toggleSharing = async () => {
-    if (!report) return;
-    
+  // Exports are rendered on the server so every board packet and spreadsheet looks the same
+  const handleExport = async (option: ExportOption) => {
+    if (!report || !reportData || !user) return;
+
     try {
-      setUpdating(true);
-      
-      // Update report sharing status
-      await updateDoc(doc(db, 'reports', report.id), {
-        isShared: !report.isShared
-      });
-      
-      // Update local state
-      setReport({
-        ...report,
-        isShared: !report.isShared
-      });
-      
-      setUpdating(false);
+      setExporting(true);
+      if (option === 'pdf') {
+        const pdf = await fetchReportPdf(user, report.id);
+        saveFile(pdf, exportFileName(reportData.libraryName, report.year, 'board-packet.pdf'));
+      } else {
+        const file = await fetchReportData(user, report.id, option);
+        saveFile(file, exportFileName(reportData.libraryName, report.year, `data.${option}`));
+      }
+      setExporting(false);
     } catch (err: any) {
-      console.error('Error updating report:', err);
-      setError(err.message || 'Failed to update report');
-      setUpdating(false);
+      console.error('Error exporting report:', err);
+      setError(err.message || 'Failed to export report');
+      setExporting(false);
     }
   };
 
+  const handleSharingUpdated = (sharing: SharingState) => {
+    if (!report) return;
+    setReport({ ...report, ...sharing });
+  };
+
+  // Board members and analysts only read; staff cannot change sharing
+  const canReview = !!report && canActOnLibrary(userProfile, report.libraryId, 'review');
+  const canProcess = !!report && canActOnLibrary(userProfile, report.libraryId, 'process');
+  const canShare = !!report && canActOnLibrary(userProfile, report.libraryId, 'share');
+
   if (loading) {
     return (
       <div className="flex justify-center items-center min-h-screen">
@@ -234,39 +308,73 @@ export default function ReportDetail() {
                 &larr; Back to Reports
               </Link>
               <h1 className="text-3xl font-bold text-primary-700">{report.title}</h1>
+              {report.sourceFileName && (
+                <p className="text-gray-600">Imported from {report.sourceFileName}</p>
+              )}
             </div>
             <div className="flex space-x-3">
-              {report.libraryId === userProfile?.libraryId && (
+              {report.status === 'Review' && canReview && (
+                <Link href={`/reports/${report.id}/review`} className="btn btn-primary">
+                  Review Data
+                </Link>
+              )}
+              {canShare && (
                 <button
-                  onClick={toggleSharing}
-                  disabled={updating}
-                  className={`btn ${report.isShared ? 'btn-secondary' : 'btn-primary'}`}
+                  onClick={() => setShowSharing(!showSharing)}
+                  className={`btn ${showSharing ? 'btn-primary' : 'btn-secondary'}`}
                 >
-                  {updating ? 'Updating...' : report.isShared ? 'Make Private' : 'Share Report'}
+                  Sharing: {getSharingLabel(report)}
                 </button>
               )}
-              <a
-                href={report.pdfPath}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="btn btn-secondary"
-              >
-                View PDF
-              </a>
+              {reportData && (report.status === 'Review' || report.status === 'Completed') && (
+                <ExportMenu exporting={exporting} onExport={handleExport} />
+              )}
+              <Link href={`/libraries/${report.libraryId}/trends`} className="btn btn-secondary">
+                View Trends
+              </Link>
+              {report.pdfPath && (
+                <a
+                  href={report.pdfPath}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="btn btn-secondary"
+                >
+                  View PDF
+                </a>
+              )}
             </div>
           </div>
 
+          {showSharing && canShare && (
+            <SharingPanel
+              reportId={report.id}
+              libraryId={report.libraryId}
+              sharing={report}
+              onUpdated={handleSharingUpdated}
+            />
+          )}
+
           {report.status === 'Processing' ? (
-            <div className="card p-8 text-center">
-              <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-600 mx-auto mb-4"></div>
-              <h2 className="text-xl font-semibold mb-2">Processing Report</h2>
-              <p className="text-gray-600 mb-4">
-                Your report is currently being processed. This may take a few minutes.
-              </p>
-              <p className="text-gray-600">
-                The dashboard will be automatically generated once processing is complete.
-              </p>
-            </div>
+            <>
+              {stalled && (
+                <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded relative mb-6">
+                  <h2 className="text-lg font-semibold mb-1">Processing Stopped</h2>
+                  <p className="text-sm">
+                    This report is not queued and no worker is processing it, so it will not finish on its own.
+                  </p>
+                  {canProcess && (
+                    <button
+                      onClick={handleGenerateDashboard}
+                      disabled={processing}
+                      className="btn btn-primary mt-3"
+                    >
+                      {processing ? 'Processing...' : 'Try Again'}
+                    </button>
+                  )}
+                </div>
+              )}
+              <ProcessingProgressCard progress={report.progress} />
+            </>
           ) : report.status === 'Failed' ? (
             <div className="card p-8">
               <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative mb-6">
@@ -274,19 +382,26 @@ export default function ReportDetail() {
                 <p>
                   There was an error processing your report. Please try again or contact support.
                 </p>
+                {report.errorMessage && (
+                  <p className="mt-2 text-sm break-words">
+                    <span className="font-medium">Details:</span> {report.errorMessage}
+                  </p>
+                )}
               </div>
-              <div className="flex justify-end space-x-3">
-                <button
-                  onClick={handleGenerateDashboard}
-                  disabled={processing}
-                  className="btn btn-primary"
-                >
-                  {processing ? 'Processing...' : 'Try Again'}
-                </button>
-                <Link href="/upload" className="btn btn-secondary">
-                  Upload New Report
-                </Link>
-              </div>
+              {canProcess && (
+                <div className="flex justify-end space-x-3">
+                  <button
+                    onClick={handleGenerateDashboard}
+                    disabled={processing}
+                    className="btn btn-primary"
+                  >
+                    {processing ? 'Processing...' : 'Try Again'}
+                  </button>
+                  <Link href="/upload" className="btn btn-secondary">
+                    Upload New Report
+                  </Link>
+                </div>
+              )}
             </div>
           ) : !reportData ? (
             <div className="card p-8 text-center">
@@ -294,33 +409,69 @@ export default function ReportDetail() {
               <p className="text-gray-600 mb-4">
                 No dashboard data is available for this report yet.
               </p>
-              <button
-                onClick={handleGenerateDashboard}
-                disabled={processing}
-                className="btn btn-primary"
-              >
-                {processing ? 'Processing...' : 'Generate Dashboard'}
-              </button>
+              {canProcess && (
+                <button
+                  onClick={handleGenerateDashboard}
+                  disabled={processing}
+                  className="btn btn-primary"
+                >
+                  {processing ? 'Processing...' : 'Generate Dashboard'}
+                </button>
+              )}
             </div>
           ) : (
-            report.status === 'Completed' && reportData && (
-              <ReportDashboard
-                libraryName={reportData.libraryName}
-                year={report.year}
-                libraryOverview={reportData.libraryOverview}
-                collectionOverview={reportData.collectionOverview}
-                usageStatistics={reportData.usageStatistics}
-                collectionData={reportData.collectionData}
-                circulationData={reportData.circulationData}
-                revenueData={reportData.revenueData}
-                expenseData={reportData.expenseData}
-                programData={reportData.programData}
-                venueData={reportData.venueData}
-                summerReadingData={reportData.summerReadingData}
-                keyFindings={reportData.keyFindings}
-              />
+            (report.status === 'Completed' || report.status === 'Review') && reportData && (
+              <>
+                {report.status === 'Review' && (
+                  <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded relative mb-6">
+                    <h2 className="text-lg font-semibold mb-1">Awaiting Review</h2>
+                    <p>
+                      This data was extracted automatically and has not been checked yet.
+                      {canReview
+                        ? ' Review the values against the PDF and approve them to complete the report.'
+                        : ' It will be marked complete once the library has reviewed it.'}
+                    </p>
+                  </div>
+                )}
+                <ReportDashboard
+                  libraryName={reportData.libraryName}
+                  year={report.year}
+                  libraryOverview={reportData.libraryOverview}
+                  collectionOverview={reportData.collectionOverview}
+                  usageStatistics={reportData.usageStatistics}
+                  collectionData={reportData.collectionData}
+                  circulationData={reportData.circulationData}
+                  revenueData={reportData.revenueData}
+                  expenseData={reportData.expenseData}
+                  programData={reportData.programData}
+                  venueData={reportData.venueData}
+                  summerReadingData={reportData.summerReadingData}
+                  keyFindings={reportData.keyFindings}
+                  provenance={reportData.provenance}
+                />
+                <div className="mt-6">
+                  {showPeers ? (
+                    <PeerComparisonPanel
+                      libraryId={report.libraryId}
+                      reportData={{ ...reportData, year: report.year }}
+                    />
+                  ) : (
+                    <div className="text-center">
+                      <button onClick={() => setShowPeers(true)} className="btn btn-secondary">
+                        Compare with Peers
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </>
             )
           )}
+
+          {(report.versionCount || 1) > 1 && (
+            <div className="mt-6">
+              <VersionHistory reportId={report.id} currentVersionId={report.currentVersionId || null} />
+            </div>
+          )}
         </div>
       </div>
     </>
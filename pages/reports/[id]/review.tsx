@@ -0,0 +1,530 @@
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import Link from 'next/link';
+import {
+  doc,
+  getDoc,
+  getDocs,
+  collection,
+  query,
+  orderBy,
+  updateDoc,
+  writeBatch,
+  serverTimestamp
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { canActOnLibrary } from '@/lib/roles';
+import { METHOD_LABELS } from '@/components/reports/ProvenanceMarker';
+import UnmappedCategoriesCard from '@/components/reports/UnmappedCategoriesCard';
+import { ARRAY_VALUE_KEYS, arrayFieldPath, ArraySection, describeFieldPath, parseFieldPath, SECTION_LABELS } from '@/lib/reportFields';
+import {
+  applyCorrections,
+  diffReviewValues,
+  getReviewValue,
+  KEY_FINDING_FIELDS,
+  listReviewFieldPaths
+} from '@/lib/reportReview';
+import type { FieldCorrection, ReportData, ReportEdit, ReportStatus, UnmappedCategory } from '@/types/report';
+
+interface Report {
+  id: string;
+  libraryId: string;
+  year: number;
+  title: string;
+  status: ReportStatus;
+  pdfPath: string | null;
+  sourceFileName?: string | null;
+  currentVersionId?: string | null;
+}
+
+interface ReportEditEntry extends ReportEdit {
+  id: string;
+}
+
+/**
+ * Format a reviewed value for the edit history
+ */
+const formatEditValue = (value: number | string[] | null): string => {
+  if (value === null) return '—';
+  if (Array.isArray(value)) return `${value.length} item(s)`;
+  return value.toLocaleString();
+};
+
+export default function ReviewReport() {
+  const [report, setReport] = useState<Report | null>(null);
+  const [reportData, setReportData] = useState<ReportData | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [edits, setEdits] = useState<ReportEditEntry[]>([]);
+  const [unmapped, setUnmapped] = useState<UnmappedCategory[]>([]);
+  const [pdfPage, setPdfPage] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const router = useRouter();
+  const { id } = router.query;
+  const { user, userProfile } = useAuth();
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      if (!id || !user || !userProfile) return;
+
+      try {
+        setLoading(true);
+
+        const reportDoc = await getDoc(doc(db, 'reports', id as string));
+        if (!reportDoc.exists()) {
+          setError('Report not found');
+          setLoading(false);
+          return;
+        }
+
+        const reportInfo = { id: reportDoc.id, ...reportDoc.data() } as Report;
+        setReport(reportInfo);
+
+        // Only directors and staff of the report's own library, and admins, can review it
+        if (!canActOnLibrary(userProfile, reportInfo.libraryId, 'review')) {
+          setError('You do not have permission to review this report');
+          setLoading(false);
+          return;
+        }
+
+        const reportDataDoc = await getDoc(doc(db, 'reportData', reportInfo.id));
+        if (!reportDataDoc.exists()) {
+          setError('No extracted data is available for this report yet');
+          setLoading(false);
+          return;
+        }
+
+        const data = reportDataDoc.data() as ReportData;
+        setReportData(data);
+        setValues(buildFormValues(data));
+        setUnmapped(data.unmappedCategories || []);
+        await fetchEdits(reportInfo.id, reportInfo.currentVersionId || null);
+
+        setLoading(false);
+      } catch (err: any) {
+        console.error('Error fetching report for review:', err);
+        setError(err.message || 'Failed to load report');
+        setLoading(false);
+      }
+    };
+
+    fetchReport();
+  }, [id, user, userProfile]);
+
+  // A re-upload moves the history to the replaced version; edits left from before that are filtered out
+  const fetchEdits = async (reportId: string, versionId: string | null) => {
+    const editsSnapshot = await getDocs(
+      query(collection(db, 'reportData', reportId, 'edits'), orderBy('editedAt', 'desc'))
+    );
+    setEdits(editsSnapshot.docs
+      .map(editDoc => ({
+        id: editDoc.id,
+        ...editDoc.data()
+      } as ReportEditEntry))
+      .filter(edit => (edit.versionId || null) === versionId));
+  };
+
+  // Turn the stored data into form values: numbers as strings, key findings one per line
+  const buildFormValues = (data: ReportData): Record<string, string> => {
+    const formValues: Record<string, string> = {};
+    for (const field of listReviewFieldPaths(data)) {
+      const value = getReviewValue(data, field);
+      formValues[field] = value === undefined ? '' : String(value);
+    }
+    for (const field of KEY_FINDING_FIELDS) {
+      const value = getReviewValue(data, field);
+      formValues[field] = Array.isArray(value) ? value.join('\n') : '';
+    }
+    return formValues;
+  };
+
+  // Turn the form values back into typed values, skipping numeric fields left blank
+  const readFormValues = (): Record<string, number | string[]> => {
+    const edited: Record<string, number | string[]> = {};
+    for (const [field, raw] of Object.entries(values)) {
+      if ((KEY_FINDING_FIELDS as readonly string[]).includes(field)) {
+        edited[field] = raw.split('\n').map(line => line.trim()).filter(Boolean);
+      } else if (raw.trim() !== '') {
+        edited[field] = Number(raw);
+      }
+    }
+    return edited;
+  };
+
+  /**
+   * Save the reviewer's changes and record who changed what
+   * @returns True if the changes were saved
+   */
+  const saveChanges = async (): Promise<boolean> => {
+    if (!report || !reportData || !user || !userProfile) return false;
+
+    const edited = readFormValues();
+    const invalidField = Object.entries(edited).find(
+      ([, value]) => typeof value === 'number' && (isNaN(value) || value < 0)
+    );
+    if (invalidField) {
+      setError(`${describeFieldPath(invalidField[0])} must be a number of zero or more`);
+      return false;
+    }
+
+    const changes = diffReviewValues(reportData, edited);
+    const unmappedChanged = unmapped.length !== (reportData.unmappedCategories || []).length;
+    if (changes.length === 0 && !unmappedChanged) return true;
+
+    const userName = `${userProfile.firstName} ${userProfile.lastName}`.trim() || userProfile.email;
+    const editedAt = new Date();
+    const newCorrections: Record<string, FieldCorrection> = {};
+    for (const change of changes) {
+      newCorrections[change.field] = {
+        value: change.newValue,
+        previousValue: change.previousValue,
+        editedBy: user.uid,
+        editedByName: userName,
+        editedAt
+      };
+    }
+
+    const updated: ReportData = JSON.parse(JSON.stringify(reportData));
+    updated.provenance = updated.provenance || {};
+    applyCorrections(updated, newCorrections);
+    const corrections = { ...(reportData.corrections || {}), ...newCorrections };
+
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'reportData', report.id), {
+      libraryOverview: updated.libraryOverview,
+      collectionOverview: updated.collectionOverview,
+      usageStatistics: updated.usageStatistics,
+      collectionData: updated.collectionData,
+      circulationData: updated.circulationData,
+      revenueData: updated.revenueData,
+      expenseData: updated.expenseData,
+      programData: updated.programData,
+      venueData: updated.venueData,
+      summerReadingData: updated.summerReadingData,
+      keyFindings: updated.keyFindings,
+      provenance: updated.provenance,
+      corrections,
+      unmappedCategories: unmapped,
+      updatedAt: serverTimestamp()
+    });
+    for (const change of changes) {
+      batch.set(doc(collection(db, 'reportData', report.id, 'edits')), {
+        field: change.field,
+        previousValue: change.previousValue,
+        newValue: change.newValue,
+        userId: user.uid,
+        userName,
+        versionId: report.currentVersionId || null,
+        editedAt: serverTimestamp()
+      });
+    }
+    await batch.commit();
+
+    setReportData({ ...updated, corrections, unmappedCategories: unmapped });
+    await fetchEdits(report.id, report.currentVersionId || null);
+    return true;
+  };
+
+  // Add an unrecognized line item's values to a category on the form; saving records the change
+  const handleMapCategory = (index: number, categoryName: string) => {
+    const item = unmapped[index];
+    const section = item.section as ArraySection;
+    const updatedValues = { ...values };
+    for (const key of ARRAY_VALUE_KEYS[section]) {
+      const field = arrayFieldPath(section, categoryName, key);
+      updatedValues[field] = String((Number(updatedValues[field]) || 0) + (item.values[key] || 0));
+    }
+    setValues(updatedValues);
+    setUnmapped(unmapped.filter((_, entry) => entry !== index));
+    setMessage(`Added "${item.name}" to ${categoryName}; save to keep the change`);
+  };
+
+  const handleIgnoreCategory = (index: number) => {
+    setUnmapped(unmapped.filter((_, entry) => entry !== index));
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError('');
+      setMessage('');
+      if (await saveChanges()) {
+        setMessage('Changes saved');
+      }
+      setSaving(false);
+    } catch (err: any) {
+      console.error('Error saving review changes:', err);
+      setError(err.message || 'Failed to save changes');
+      setSaving(false);
+    }
+  };
+
+  const handleApprove = async () => {
+    if (!report || !user) return;
+    if (unmapped.length > 0) {
+      setError('Add every unrecognized category to a standard category, or ignore it, before approving');
+      return;
+    }
+    // The overview figures appear on every dashboard and comparison, so they cannot be left blank
+    const blankField = Object.keys(values).find(field => parseFieldPath(field)?.kind === 'overview' && !values[field].trim());
+    if (blankField) {
+      setError(`${describeFieldPath(blankField)} was not found in the report; enter it from the PDF before approving`);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError('');
+      setMessage('');
+      if (!(await saveChanges())) {
+        setSaving(false);
+        return;
+      }
+
+      await updateDoc(doc(db, 'reports', report.id), {
+        status: 'Completed',
+        reviewedBy: user.uid,
+        reviewedAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+
+      router.push(`/reports/${report.id}`);
+    } catch (err: any) {
+      console.error('Error approving report:', err);
+      setError(err.message || 'Failed to approve report');
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (!report || !reportData) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto">
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative mb-6">
+            {error || 'Report not found'}
+          </div>
+          <Link href="/reports" className="btn btn-primary">
+            Back to Reports
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  // Group the numeric fields by section for display
+  const fieldsBySection = new Map<string, string[]>();
+  for (const field of listReviewFieldPaths(reportData)) {
+    const parsed = parseFieldPath(field);
+    if (!parsed) continue;
+    const sectionLabel = SECTION_LABELS[parsed.section];
+    fieldsBySection.set(sectionLabel, [...(fieldsBySection.get(sectionLabel) || []), field]);
+  }
+
+  // Values the chunks of the report disagreed on, until a reviewer corrects them
+  const openConflicts = (reportData.mergeConflicts || []).filter(conflict => !reportData.corrections?.[conflict.field]);
+
+  const pdfSrc = report.pdfPath && pdfPage ? `${report.pdfPath}#page=${pdfPage}` : report.pdfPath;
+
+  return (
+    <>
+      <Head>
+        <title>Review {report.title} - NCLS Annual Report Dashboard</title>
+        <meta name="description" content={`Review extracted data for ${report.title}`} />
+      </Head>
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <Link href={`/reports/${report.id}`} className="text-primary-600 hover:text-primary-700 mb-2 inline-block">
+              &larr; Back to Report
+            </Link>
+            <h1 className="text-3xl font-bold text-primary-700">Review {report.title}</h1>
+            <p className="text-gray-600">
+              Check each value against the report, correct anything that is wrong, then approve.
+            </p>
+          </div>
+          <div className="flex space-x-3">
+            <button onClick={handleSave} disabled={saving} className="btn btn-secondary">
+              {saving ? 'Saving...' : 'Save Changes'}
+            </button>
+            <button onClick={handleApprove} disabled={saving} className="btn btn-primary">
+              {saving ? 'Saving...' : 'Approve'}
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative mb-6">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded relative mb-6">
+            {message}
+          </div>
+        )}
+        {reportData.ocrPages && reportData.ocrPages.length > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded relative mb-6">
+            <p className="mb-2">
+              Some pages of this report are scanned images, so their text was read with OCR.
+              Values from these pages are more likely to contain misread digits.
+            </p>
+            <div className="flex flex-wrap gap-2 text-sm">
+              {reportData.ocrPages.map(ocrPage => (
+                <button
+                  key={ocrPage.page}
+                  type="button"
+                  onClick={() => setPdfPage(ocrPage.page)}
+                  className="px-2 py-1 rounded bg-yellow-100 hover:bg-yellow-200"
+                >
+                  Page {ocrPage.page} · {Math.round(ocrPage.confidence * 100)}% OCR confidence
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {openConflicts.length > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded relative mb-6">
+            {openConflicts.length} {openConflicts.length === 1 ? 'value was' : 'values were'} read differently from
+            different parts of the report. The first value found is shown; check the marked fields and pick the right one.
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-6 lg:max-h-[80vh] lg:overflow-y-auto pr-2">
+            {unmapped.length > 0 && (
+              <UnmappedCategoriesCard
+                items={unmapped}
+                disabled={saving}
+                onMap={handleMapCategory}
+                onIgnore={handleIgnoreCategory}
+              />
+            )}
+            {Array.from(fieldsBySection.entries()).map(([sectionLabel, fields]) => (
+              <div key={sectionLabel} className="card">
+                <h2 className="text-xl font-semibold mb-4">{sectionLabel}</h2>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {fields.map(field => {
+                    const source = reportData.provenance?.[field];
+                    const correction = reportData.corrections?.[field];
+                    const conflict = openConflicts.find(entry => entry.field === field);
+                    return (
+                      <div key={field}>
+                        <label htmlFor={field} className="form-label">
+                          {describeFieldPath(field).replace(`${sectionLabel} – `, '')}
+                        </label>
+                        <input
+                          id={field}
+                          type="number"
+                          min="0"
+                          step="any"
+                          className="form-input"
+                          value={values[field] ?? ''}
+                          onChange={(e) => setValues({ ...values, [field]: e.target.value })}
+                          onFocus={() => source?.page && setPdfPage(source.page)}
+                          disabled={saving}
+                        />
+                        <p className="mt-1 text-xs text-gray-500">
+                          {correction
+                            ? `Corrected by ${correction.editedByName}`
+                            : source
+                              ? `${METHOD_LABELS[source.method]}${source.page ? `, page ${source.page}` : ''}${source.ocrConfidence !== undefined ? ' (OCR)' : ''} · ${Math.round(source.confidence * 100)}%`
+                              : 'Not found in report'}
+                        </p>
+                        {conflict && (
+                          <div className="mt-1 flex flex-wrap items-center gap-1 text-xs text-yellow-800">
+                            <span>Values found:</span>
+                            {conflict.candidates.map(candidate => (
+                              <button
+                                key={candidate.chunk}
+                                type="button"
+                                onClick={() => {
+                                  setValues({ ...values, [field]: String(candidate.value) });
+                                  if (candidate.page) setPdfPage(candidate.page);
+                                }}
+                                className="px-2 py-0.5 rounded bg-yellow-100 hover:bg-yellow-200"
+                                disabled={saving}
+                              >
+                                {candidate.value.toLocaleString()}{candidate.page ? ` (page ${candidate.page})` : ''}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+
+            <div className="card">
+              <h2 className="text-xl font-semibold mb-4">Key Findings</h2>
+              <div className="space-y-4">
+                {KEY_FINDING_FIELDS.map(field => (
+                  <div key={field}>
+                    <label htmlFor={field} className="form-label">
+                      {field === 'keyFindings.strengths' ? 'Strengths' : 'Areas for Development'} (one per line)
+                    </label>
+                    <textarea
+                      id={field}
+                      rows={5}
+                      className="form-input"
+                      value={values[field] ?? ''}
+                      onChange={(e) => setValues({ ...values, [field]: e.target.value })}
+                      disabled={saving}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {edits.length > 0 && (
+              <div className="card">
+                <h2 className="text-xl font-semibold mb-4">Edit History</h2>
+                <ul className="divide-y divide-gray-200 text-sm">
+                  {edits.map(edit => (
+                    <li key={edit.id} className="py-2">
+                      <span className="font-medium">{edit.userName}</span> changed{' '}
+                      <span className="font-medium">{describeFieldPath(edit.field)}</span> from{' '}
+                      {formatEditValue(edit.previousValue)} to {formatEditValue(edit.newValue)}
+                      <span className="text-gray-500">
+                        {' '}on {edit.editedAt ? new Date(edit.editedAt.seconds * 1000).toLocaleString() : 'N/A'}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          {pdfSrc ? (
+            <div className="card p-0 overflow-hidden lg:sticky lg:top-4 h-[80vh]">
+              <iframe key={pdfSrc} src={pdfSrc} title="Report PDF" className="w-full h-full" />
+            </div>
+          ) : (
+            <div className="card bg-blue-50 border border-blue-200 lg:sticky lg:top-4 self-start">
+              <h2 className="text-xl font-semibold text-blue-800 mb-2">Imported from a Spreadsheet</h2>
+              <p className="text-blue-700">
+                These values were read from {report.sourceFileName || 'a spreadsheet'} exactly as entered, so
+                there is no PDF to compare against. Check that the columns were mapped to the right fields
+                and add key findings before approving.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
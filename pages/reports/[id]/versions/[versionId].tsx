@@ -0,0 +1,215 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import Link from 'next/link';
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { canReadReport } from '@/lib/roles';
+import { diffReportData } from '@/lib/reportDiff';
+import { describeFieldPath } from '@/lib/reportFields';
+import ReportDashboard from '@/components/reports/ReportDashboard';
+import type { ReportData, ReportVersion } from '@/types/report';
+
+interface Report {
+  id: string;
+  libraryId: string;
+  year: number;
+  title: string;
+  isShared: boolean;
+  currentVersionId?: string | null;
+  versionCount?: number;
+}
+
+// Format number with commas
+const formatNumber = (num: number): string => {
+  return Math.round(num).toString().replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+};
+
+/**
+ * Format a Firestore Timestamp or Date for display
+ */
+const formatDate = (value: any): string => {
+  const date = value?.toDate ? value.toDate() : value instanceof Date ? value : null;
+  return date ? date.toLocaleDateString() : 'an unknown date';
+};
+
+export default function ReportVersionDetail() {
+  const [report, setReport] = useState<Report | null>(null);
+  const [version, setVersion] = useState<ReportVersion | null>(null);
+  const [currentData, setCurrentData] = useState<ReportData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const router = useRouter();
+  const { id, versionId } = router.query;
+  const { user, userProfile } = useAuth();
+
+  useEffect(() => {
+    const fetchVersion = async () => {
+      if (!id || !versionId || !user) return;
+
+      try {
+        setLoading(true);
+
+        const reportDoc = await getDoc(doc(db, 'reports', id as string));
+        if (!reportDoc.exists()) {
+          setError('Report not found');
+          setLoading(false);
+          return;
+        }
+
+        const reportInfo = { id: reportDoc.id, ...reportDoc.data() } as Report;
+        if (!canReadReport(userProfile, reportInfo)) {
+          setError('You do not have permission to view this report');
+          setLoading(false);
+          return;
+        }
+        setReport(reportInfo);
+
+        const versionDoc = await getDoc(doc(db, 'reports', reportInfo.id, 'versions', versionId as string));
+        if (!versionDoc.exists() || !versionDoc.data().data) {
+          setError('This version has no saved data');
+          setLoading(false);
+          return;
+        }
+        setVersion({ id: versionDoc.id, ...versionDoc.data() } as ReportVersion);
+
+        // The current version is still processing if its data has not been written yet
+        const reportDataDoc = await getDoc(doc(db, 'reportData', reportInfo.id));
+        setCurrentData(reportDataDoc.exists() ? reportDataDoc.data() as ReportData : null);
+
+        setLoading(false);
+      } catch (err: any) {
+        console.error('Error fetching report version:', err);
+        setError(err.message || 'Failed to load report version');
+        setLoading(false);
+      }
+    };
+
+    fetchVersion();
+  }, [id, versionId, user, userProfile]);
+
+  const changes = useMemo(
+    () => version?.data && currentData ? diffReportData(version.data, currentData) : [],
+    [version, currentData]
+  );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !report || !version?.data) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto">
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative mb-6">
+            {error || 'Report version not found'}
+          </div>
+          <Link href={id ? `/reports/${id}` : '/reports'} className="btn btn-primary">
+            Back to Report
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const data = version.data;
+
+  return (
+    <>
+      <Head>
+        <title>{report.title} (Version {version.versionNumber}) - NCLS Annual Report Dashboard</title>
+        <meta name="description" content={`Earlier version of ${report.title}`} />
+      </Head>
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="flex justify-between items-center mb-6">
+            <div>
+              <Link href={`/reports/${report.id}`} className="text-primary-600 hover:text-primary-700 mb-2 inline-block">
+                &larr; Back to Current Version
+              </Link>
+              <h1 className="text-3xl font-bold text-primary-700">
+                {report.title} <span className="text-gray-500 font-normal">Version {version.versionNumber}</span>
+              </h1>
+              <p className="text-gray-600">
+                Uploaded {formatDate(version.createdAt)}
+                {version.uploadedByName && ` by ${version.uploadedByName}`}
+                {version.sourceFileName && ` from ${version.sourceFileName}`}
+              </p>
+            </div>
+            {version.pdfPath && (
+              <a
+                href={version.pdfPath}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="btn btn-secondary"
+              >
+                View PDF
+              </a>
+            )}
+          </div>
+
+          <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded relative mb-6">
+            This is an earlier version of the report, replaced on {formatDate(version.supersededAt)}.
+            The dashboard and peer comparisons use version {report.versionCount || version.versionNumber + 1}.
+          </div>
+
+          <div className="bg-white p-4 rounded-lg shadow mb-6">
+            <h3 className="text-lg font-semibold mb-4">Changes in the Current Version</h3>
+            {!currentData ? (
+              <p className="text-gray-600">The current version is still being processed, so there is nothing to compare yet.</p>
+            ) : changes.length === 0 ? (
+              <p className="text-gray-600">Every value is the same in the current version.</p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead>
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Field</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-500">Version {version.versionNumber}</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-500">Current</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-500">Change</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {changes.map(change => (
+                    <tr key={change.path}>
+                      <td className="px-4 py-2">{describeFieldPath(change.path)}</td>
+                      <td className="px-4 py-2 text-right">{change.previous === null ? '–' : formatNumber(change.previous)}</td>
+                      <td className="px-4 py-2 text-right">{change.current === null ? '–' : formatNumber(change.current)}</td>
+                      <td className="px-4 py-2 text-right text-gray-600">
+                        {change.previous !== null && change.current !== null
+                          ? `${change.current > change.previous ? '+' : '−'}${formatNumber(Math.abs(change.current - change.previous))}`
+                          : change.current === null ? 'Removed' : 'Added'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <ReportDashboard
+            libraryName={data.libraryName}
+            year={report.year}
+            libraryOverview={data.libraryOverview}
+            collectionOverview={data.collectionOverview}
+            usageStatistics={data.usageStatistics}
+            collectionData={data.collectionData}
+            circulationData={data.circulationData}
+            revenueData={data.revenueData}
+            expenseData={data.expenseData}
+            programData={data.programData}
+            venueData={data.venueData}
+            summerReadingData={data.summerReadingData}
+            keyFindings={data.keyFindings}
+            provenance={data.provenance}
+          />
+        </div>
+      </div>
+    </>
+  );
+}
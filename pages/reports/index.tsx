@@ -1,10 +1,12 @@
 import { useState, useEffect } from 'react';
-import { useRouter } from 'next/router';
 import Head from 'next/head';
 import Link from 'next/link';
 import { collection, query, where, orderBy, getDocs } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import { useAuth } from '@/components/auth/AuthProvider';
+import { getLibraryIds, hasPermission, isLibraryMember } from '@/lib/roles';
+import { fetchReportsSharedWithLibraries, getSharingLabel, getSharingScope } from '@/lib/sharing';
+import type { SharingScope } from '@/types/sharing';
 
 interface Report {
   id: string;
@@ -12,9 +14,11 @@ interface Report {
   userId: string;
   year: number;
   title: string;
-  status: 'processing' | 'completed' | 'failed';
+  status: 'Processing' | 'Review' | 'Completed' | 'Failed';
   isShared: boolean;
-  pdfPath: string;
+  sharingScope?: SharingScope;
+  sharedLibraryIds?: string[];
+  pdfPath: string | null;
   createdAt: any;
 }
 
@@ -23,8 +27,8 @@ export default function Reports() {
   const [sharedReports, setSharedReports] = useState<Report[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
-  const router = useRouter();
-  const { user, userProfile } = useAuth();
+  const { user, userProfile, activeLibraryId } = useAuth();
+  const canUpload = hasPermission(userProfile?.role, 'upload');
 
   useEffect(() => {
     const fetchReports = async () => {
@@ -35,36 +39,50 @@ export default function Reports() {
       try {
         setLoading(true);
         
-        // Fetch user's library reports
-        const userReportsQuery = query(
-          collection(db, 'reports'),
-          where('libraryId', '==', userProfile.libraryId),
-          orderBy('year', 'desc'),
-          orderBy('createdAt', 'desc')
-        );
-        
-        const userReportsSnapshot = await getDocs(userReportsQuery);
-        const userReportsList = userReportsSnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        } as Report));
+        // Fetch the reports of the library selected in the navbar
+        if (activeLibraryId) {
+          const userReportsQuery = query(
+            collection(db, 'reports'),
+            where('libraryId', '==', activeLibraryId),
+            orderBy('year', 'desc'),
+            orderBy('createdAt', 'desc')
+          );
+          
+          const userReportsSnapshot = await getDocs(userReportsQuery);
+          const userReportsList = userReportsSnapshot.docs.map(doc => ({
+            id: doc.id,
+            ...doc.data()
+          } as Report));
+          
+          setReports(userReportsList);
+        } else {
+          setReports([]);
+        }
         
-        setReports(userReportsList);
-        
-        // Fetch shared reports from other libraries
+        // Fetch reports shared with every member, and reports shared with the user's libraries
         const sharedReportsQuery = query(
           collection(db, 'reports'),
-          where('libraryId', '!=', userProfile.libraryId),
+          where('libraryId', '!=', activeLibraryId || ''),
           where('isShared', '==', true),
           orderBy('libraryId'),
           orderBy('year', 'desc')
         );
         
-        const sharedReportsSnapshot = await getDocs(sharedReportsQuery);
-        const sharedReportsList = sharedReportsSnapshot.docs.map(doc => ({
+        const [sharedReportsSnapshot, libraryShares] = await Promise.all([
+          getDocs(sharedReportsQuery),
+          fetchReportsSharedWithLibraries(getLibraryIds(userProfile))
+        ]);
+        const memberShares = sharedReportsSnapshot.docs.map(doc => ({
           id: doc.id,
           ...doc.data()
         } as Report));
+        const libraryShareList = (libraryShares as Report[])
+          .filter(report => !memberShares.some(shared => shared.id === report.id));
+        
+        // The user's other libraries are reached by switching to them, not listed as shared
+        const sharedReportsList = [...memberShares, ...libraryShareList]
+          .filter(report => !isLibraryMember(userProfile, report.libraryId))
+          .sort((a, b) => a.libraryId.localeCompare(b.libraryId) || b.year - a.year);
         
         setSharedReports(sharedReportsList);
         setLoading(false);
@@ -76,16 +94,22 @@ export default function Reports() {
     };
 
     fetchReports();
-  }, [user, userProfile]);
+  }, [user, userProfile, activeLibraryId]);
 
   const getStatusBadge = (status: string) => {
-    switch (status) {
+    switch (status.toLowerCase()) {
       case 'processing':
         return (
           <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
             Processing
           </span>
         );
+      case 'review':
+        return (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+            Needs Review
+          </span>
+        );
       case 'completed':
         return (
           <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
@@ -117,9 +141,11 @@ export default function Reports() {
         <div className="max-w-6xl mx-auto">
           <div className="flex justify-between items-center mb-6">
             <h1 className="text-3xl font-bold text-primary-700">Annual Reports</h1>
-            <Link href="/upload" className="btn btn-primary">
-              Upload New Report
-            </Link>
+            {canUpload && (
+              <Link href="/upload" className="btn btn-primary">
+                Upload New Report
+              </Link>
+            )}
           </div>
 
           {loading ? (
@@ -133,13 +159,15 @@ export default function Reports() {
           ) : (
             <>
               <div className="mb-10">
-                <h2 className="text-xl font-semibold mb-4">Your Library's Reports</h2>
+                <h2 className="text-xl font-semibold mb-4">Your Library&apos;s Reports</h2>
                 {reports.length === 0 ? (
                   <div className="card p-8 text-center">
                     <p className="text-gray-500 mb-4">No reports found for your library.</p>
-                    <Link href="/upload" className="btn btn-primary">
-                      Upload Your First Report
-                    </Link>
+                    {canUpload && (
+                      <Link href="/upload" className="btn btn-primary">
+                        Upload Your First Report
+                      </Link>
+                    )}
                   </div>
                 ) : (
                   <div className="bg-white shadow overflow-hidden rounded-lg">
@@ -179,10 +207,10 @@ export default function Reports() {
                               {getStatusBadge(report.status)}
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                              {report.isShared ? (
-                                <span className="text-green-600">Yes</span>
+                              {getSharingScope(report) === 'private' ? (
+                                <span className="text-gray-400">{getSharingLabel(report)}</span>
                               ) : (
-                                <span className="text-gray-400">No</span>
+                                <span className="text-green-600">{getSharingLabel(report)}</span>
                               )}
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
@@ -195,14 +223,16 @@ export default function Reports() {
                               >
                                 View
                               </Link>
-                              <a
-                                href={report.pdfPath}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="text-gray-600 hover:text-gray-900"
-                              >
-                                PDF
-                              </a>
+                              {report.pdfPath && (
+                                <a
+                                  href={report.pdfPath}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-gray-600 hover:text-gray-900"
+                                >
+                                  PDF
+                                </a>
+                              )}
                             </td>
                           </tr>
                         ))}
@@ -259,14 +289,16 @@ export default function Reports() {
                               >
                                 View
                               </Link>
-                              <a
-                                href={report.pdfPath}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="text-gray-600 hover:text-gray-900"
-                              >
-                                PDF
-                              </a>
+                              {report.pdfPath && (
+                                <a
+                                  href={report.pdfPath}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-gray-600 hover:text-gray-900"
+                                >
+                                  PDF
+                                </a>
+                              )}
                             </td>
                           </tr>
                         ))}
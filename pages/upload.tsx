@@ -1,11 +1,16 @@
 import { useState, useRef } from 'react';
 import { useRouter } from 'next/router';
 import Head from 'next/head';
+import { doc, updateDoc } from 'firebase/firestore';
 import { ref, uploadBytesResumable, getDownloadURL } from 'firebase/storage';
-import { collection, addDoc, serverTimestamp } from 'firebase/firestore';
-import { storage, db } from '@/lib/firebase';
+import { db, storage } from '@/lib/firebase';
 import { useAuth } from '@/components/auth/AuthProvider';
-import { processReportWithAI } from '@/lib/reportProcessing';
+import { hasActiveJob } from '@/lib/jobStatus';
+import { requestReportProcessing } from '@/lib/processingApi';
+import { addReportVersion, findReportForYear } from '@/lib/reportVersions';
+import { getRoleLabel, hasPermission } from '@/lib/roles';
+import SpreadsheetImportForm from '@/components/reports/SpreadsheetImportForm';
+import ExistingVersionNotice from '@/components/reports/ExistingVersionNotice';
 
 export default function Upload() {
   const [file, setFile] = useState<File | null>(null);
@@ -14,9 +19,11 @@ export default function Upload() {
   const [uploadProgress, setUploadProgress] = useState(0);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState(false);
+  // Libraries with a state survey export can import its figures instead of a PDF
+  const [mode, setMode] = useState<'pdf' | 'spreadsheet'>('pdf');
   const fileInputRef = useRef<HTMLInputElement>(null);
   const router = useRouter();
-  const { user, userProfile } = useAuth();
+  const { user, userProfile, activeLibraryId } = useAuth();
 
   const years = Array.from({ length: 10 }, (_, i) => 
     (new Date().getFullYear() - i).toString()
@@ -55,14 +62,29 @@ export default function Upload() {
       setError('You must be logged in to upload a report');
       return;
     }
+
+    if (!activeLibraryId) {
+      setError('Your account is not assigned to a library');
+      return;
+    }
     
     setUploading(true);
     setError('');
     
     try {
-      // Create a reference to the file in Firebase Storage
-      const libraryId = userProfile.libraryId;
-      const fileName = `${year}_annual_report.pdf`;
+      // A new version cannot be added while the current one is still being processed,
+      // unless its processing stopped and left the report stuck
+      const libraryId = activeLibraryId;
+      const existing = await findReportForYear(libraryId, parseInt(year));
+      if (existing?.data.status === 'Processing' && await hasActiveJob(existing.id)) {
+        setError(`The ${year} report is still being processed; wait for it to finish before uploading a new version`);
+        setUploading(false);
+        return;
+      }
+
+      // Create a reference to the file in Firebase Storage, under the library selected in the navbar.
+      // Every upload gets its own file, so earlier versions of the report keep their PDFs.
+      const fileName = `${year}_annual_report_${Date.now()}.pdf`;
       const storageRef = ref(storage, `libraries/${libraryId}/reports/${year}/${fileName}`);
       
       // Upload the file
@@ -82,34 +104,53 @@ export default function Upload() {
           setUploading(false);
         },
         async () => {
-          // Upload completed successfully
-          const downloadURL = await getDownloadURL(uploadTask.snapshot.ref);
-          
-          // Create a document in Firestore with status 'Processing'
-          const reportRef = await addDoc(collection(db, 'reports'), {
-            libraryId: userProfile.libraryId,
-            userId: user.uid,
-            year: parseInt(year),
-            title: `${year} Annual Report`,
-            status: 'Processing',
-            isShared: false,
-            pdfPath: downloadURL,
-            createdAt: serverTimestamp(),
-            updatedAt: serverTimestamp()
-          });
-          
-          setSuccess(true);
-          setUploading(false);
-          
-          // Start processing the report with AI
-          processReportWithAI(reportRef.id).catch(err => {
-            console.error('Error processing report:', err);
-          });
-          
-          // Redirect to reports page after 2 seconds
-          setTimeout(() => {
-            router.push(`/reports/${reportRef.id}`);
-          }, 2000);
+          try {
+            // Upload completed successfully
+            const downloadURL = await getDownloadURL(uploadTask.snapshot.ref);
+            
+            // Add the upload as the current version of this year's report, with status 'Processing'
+            const { reportId } = await addReportVersion({
+              libraryId,
+              year: parseInt(year),
+              userId: user.uid,
+              uploadedByName: `${userProfile.firstName} ${userProfile.lastName}`,
+              source: 'pdf',
+              pdfPath: downloadURL,
+              sourceFileName: file.name
+            });
+            
+            // Queue the report for AI processing on the server. Without a job nothing would ever
+            // pick the report up, so if queueing fails it is marked failed and can be retried from its page.
+            try {
+              await requestReportProcessing(user, reportId);
+            } catch (queueErr: any) {
+              console.error('Error queueing report processing:', queueErr);
+              const message = queueErr.message || 'Failed to queue report processing';
+              await updateDoc(doc(db, 'reports', reportId), {
+                status: 'Failed',
+                errorMessage: message,
+                updatedAt: new Date()
+              });
+              setError(`The report was uploaded but could not be queued for processing: ${message}. You can try again from the report page.`);
+              setUploading(false);
+              setTimeout(() => {
+                router.push(`/reports/${reportId}`);
+              }, 4000);
+              return;
+            }
+            
+            setSuccess(true);
+            setUploading(false);
+            
+            // Redirect to reports page after 2 seconds
+            setTimeout(() => {
+              router.push(`/reports/${reportId}`);
+            }, 2000);
+          } catch (err: any) {
+            console.error('Error saving report version:', err);
+            setError(err.message || 'Error saving report');
+            setUploading(false);
+          }
         }
       );
     } catch (err: any) {
@@ -129,6 +170,19 @@ export default function Upload() {
     }
   };
 
+  // Board members and analysts have read-only access
+  if (userProfile && !hasPermission(userProfile.role, 'upload')) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto">
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative">
+            {getRoleLabel(userProfile.role)} accounts can view reports but not upload them
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <>
       <Head>
@@ -138,6 +192,25 @@ export default function Upload() {
       <div className="container mx-auto px-4 py-8">
         <div className="max-w-2xl mx-auto">
           <h1 className="text-3xl font-bold text-primary-700 mb-6">Upload Annual Report</h1>
+
+          {!success && (
+            <div className="flex space-x-2 mb-6">
+              <button
+                onClick={() => setMode('pdf')}
+                disabled={uploading}
+                className={`btn ${mode === 'pdf' ? 'btn-primary' : 'btn-secondary'}`}
+              >
+                PDF Report
+              </button>
+              <button
+                onClick={() => setMode('spreadsheet')}
+                disabled={uploading}
+                className={`btn ${mode === 'spreadsheet' ? 'btn-primary' : 'btn-secondary'}`}
+              >
+                Spreadsheet Data
+              </button>
+            </div>
+          )}
           
           {success ? (
             <div className="card mb-6 bg-green-50 border border-green-200">
@@ -168,6 +241,16 @@ export default function Upload() {
                 </button>
               </div>
             </div>
+          ) : mode === 'spreadsheet' ? (
+            activeLibraryId ? (
+              <SpreadsheetImportForm
+                libraryId={activeLibraryId}
+                years={years}
+                onImported={(reportId) => router.push(`/reports/${reportId}/review`)}
+              />
+            ) : (
+              <div className="card text-red-500 text-sm">Your account is not assigned to a library</div>
+            )
           ) : (
             <form onSubmit={handleSubmit} className="card">
               <div className="space-y-6">
@@ -189,6 +272,7 @@ export default function Upload() {
                       </option>
                     ))}
                   </select>
+                  {activeLibraryId && <ExistingVersionNotice libraryId={activeLibraryId} year={parseInt(year)} />}
                 </div>
                 
                 <div>
@@ -281,12 +365,21 @@ export default function Upload() {
           
           <div className="mt-8 card bg-blue-50 border border-blue-200">
             <h2 className="text-xl font-semibold text-blue-800 mb-4">What happens after upload?</h2>
-            <ol className="list-decimal pl-5 space-y-2 text-blue-700">
-              <li>Your PDF will be securely stored in our system.</li>
-              <li>Our AI will analyze the report and extract key data points.</li>
-              <li>Visual dashboards will be automatically generated from the extracted data.</li>
-              <li>You'll be able to view, share, and export these dashboards.</li>
-            </ol>
+            {mode === 'spreadsheet' ? (
+              <ol className="list-decimal pl-5 space-y-2 text-blue-700">
+                <li>Each column of your file is matched to a report field, automatically or with a saved template.</li>
+                <li>The values are checked as you map them; nothing is sent to the AI.</li>
+                <li>The imported report opens for review, where you can add key findings and approve it.</li>
+              </ol>
+            ) : (
+              <ol className="list-decimal pl-5 space-y-2 text-blue-700">
+                <li>Your PDF will be securely stored in our system.</li>
+                <li>Our AI will analyze the report and extract key data points.</li>
+                <li>You&apos;ll review the extracted values against your PDF, correct anything that is wrong, and approve them.</li>
+                <li>Visual dashboards will be automatically generated from the extracted data.</li>
+                <li>You&apos;ll be able to view, share, and export these dashboards.</li>
+              </ol>
+            )}
           </div>
         </div>
       </div>
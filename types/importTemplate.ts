@@ -0,0 +1,20 @@
+// Saved column mappings for spreadsheet imports, stored in the `importTemplates` collection
+
+// Maps a spreadsheet column header to the report field path it fills
+export type ColumnMapping = Record<string, string>;
+
+export interface ImportTemplate {
+  id: string;
+  name: string;
+  mapping: ColumnMapping;
+  createdBy: string;
+  createdByName: string;
+  createdAt: any;
+  updatedAt: any;
+}
+
+// The header row and data rows read from an uploaded CSV or Excel file
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+}
@@ -0,0 +1,26 @@
+// Shape of the background jobs stored in the `processingJobs` collection
+
+// queued: waiting for a worker (or for its retry delay to pass)
+// running: claimed by a worker that holds the lease
+// succeeded / failed: finished; failed jobs have used up all their attempts or hit an error no retry can fix
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface ProcessingJob {
+  id: string;
+  reportId: string;
+  libraryId: string;
+  requestedBy: string;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  // Earliest time a worker may pick the job up; used to back off between retries
+  runAfter: Date;
+  // The worker currently running the job and how long its claim lasts without a heartbeat
+  workerId: string | null;
+  leaseExpiresAt: Date | null;
+  heartbeatAt: Date | null;
+  lastError: string | null;
+  createdAt: any;
+  updatedAt: any;
+  completedAt: any;
+}
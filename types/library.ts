@@ -0,0 +1,18 @@
+// Shape of the member library records stored in the `libraries` collection
+
+export interface Library {
+  id: string;
+  name: string;
+  address: string;
+  city: string;
+  zipcode: string;
+  phone: string;
+  website: string;
+  email: string;
+  county: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// The fields an admin can edit
+export type LibraryFields = Omit<Library, 'id' | 'createdAt' | 'updatedAt'>;
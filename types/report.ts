@@ -0,0 +1,183 @@
+// Shared shape of the extracted annual report data stored in the `reportData` collection
+
+export interface LibraryOverview {
+  populationServed: number;
+  annualVisits: number;
+  registeredBorrowers: number;
+  openHoursPerWeek: number;
+}
+
+export interface CollectionOverview {
+  totalItems: number;
+  printMaterials: number;
+  physicalAudioVideo: number;
+  otherPhysicalItems: number;
+}
+
+export interface UsageStatistics {
+  physicalItemCirculation: number;
+  eBookCirculation: number;
+  eAudioCirculation: number;
+  referenceTransactions: number;
+}
+
+export interface ValueItem {
+  name: string;
+  // The category's ID in lib/categoryTaxonomy.ts; missing on data extracted before the taxonomy
+  categoryId?: string | null;
+  value: number;
+}
+
+export interface ProgramItem {
+  name: string;
+  // The category's ID in lib/categoryTaxonomy.ts; missing on data extracted before the taxonomy
+  categoryId?: string | null;
+  sessions: number;
+  attendance: number;
+}
+
+export interface SummerReadingItem {
+  name: string;
+  // The category's ID in lib/categoryTaxonomy.ts; missing on data extracted before the taxonomy
+  categoryId?: string | null;
+  registered: number;
+  sessions: number;
+  attendance: number;
+}
+
+// An extracted line item whose name matched no category in the taxonomy. It is kept out
+// of the report's sections until a reviewer maps it to a category or ignores it.
+export interface UnmappedCategory {
+  section: string;
+  name: string;
+  values: Record<string, number>;
+  // Set when the item matched a category that another item in the report already filled
+  duplicateOf?: string;
+}
+
+// A field that different chunks of a report's text gave different values for
+export interface MergeConflict {
+  field: string;
+  // The value each chunk returned, in chunk order
+  candidates: Array<{ chunk: number; value: number; page: number | null }>;
+  // The value that was kept until a reviewer picks one
+  value: number;
+}
+
+export interface KeyFindings {
+  strengths: string[];
+  areasForDevelopment: string[];
+}
+
+// How a value in the report data was obtained; 'estimate' only appears on reports processed
+// before Claude was told to leave out values it cannot find
+export type ExtractionMethod = 'parser' | 'llm' | 'estimate' | 'manual' | 'import';
+
+// Where a single extracted value came from and how much we trust it
+export interface FieldProvenance {
+  method: ExtractionMethod;
+  page: number | null;
+  snippet: string | null;
+  confidence: number;
+  // Set when the value was read from a page whose text came from OCR
+  ocrConfidence?: number;
+}
+
+// Text read by OCR from a page that had no usable text layer
+export interface OcrPage {
+  page: number;
+  text: string;
+  // Tesseract's mean word confidence for the page, from 0 to 1
+  confidence: number;
+}
+
+// A value corrected by a reviewer; re-applied whenever the report is processed again
+export interface FieldCorrection {
+  value: number | string[];
+  previousValue: number | string[] | null;
+  editedBy: string;
+  editedByName: string;
+  editedAt: any;
+}
+
+// One entry in the edit history of a report, stored in reportData/{reportId}/edits
+export interface ReportEdit {
+  field: string;
+  previousValue: number | string[] | null;
+  newValue: number | string[];
+  userId: string;
+  userName: string;
+  // The report version that was edited; missing for edits made before reports were versioned
+  versionId?: string | null;
+  editedAt: any;
+}
+
+export type ReportStatus = 'Processing' | 'Review' | 'Completed' | 'Failed';
+
+// Reports are either uploaded as a PDF and extracted, or imported from a spreadsheet
+export type ReportSource = 'pdf' | 'import';
+
+// The pipeline stages a report goes through while its status is 'Processing'
+export type ProcessingStage =
+  | 'queued'
+  | 'downloading'
+  | 'extracting'
+  | 'ocr'
+  | 'parsing'
+  | 'analyzing'
+  | 'merging'
+  | 'validating'
+  | 'saving'
+  | 'done';
+
+// Live progress of a processing run, stored on the report document as `progress`
+export interface ProcessingProgress {
+  stage: ProcessingStage;
+  percent: number;
+  message: string;
+  // Set while Claude is working through the text chunk by chunk
+  chunk: number | null;
+  totalChunks: number | null;
+  updatedAt: any;
+}
+
+export interface ReportData {
+  reportId: string;
+  libraryName: string;
+  year: number;
+  libraryOverview: LibraryOverview;
+  collectionOverview: CollectionOverview;
+  usageStatistics: UsageStatistics;
+  collectionData: ValueItem[];
+  circulationData: ValueItem[];
+  revenueData: ValueItem[];
+  expenseData: ValueItem[];
+  programData: ProgramItem[];
+  venueData: ProgramItem[];
+  summerReadingData: SummerReadingItem[];
+  keyFindings: KeyFindings;
+  provenance?: Record<string, FieldProvenance>;
+  corrections?: Record<string, FieldCorrection>;
+  ocrPages?: OcrPage[];
+  unmappedCategories?: UnmappedCategory[];
+  mergeConflicts?: MergeConflict[];
+  createdAt?: any;
+  updatedAt?: any;
+}
+
+// One upload of a report, stored in reports/{reportId}/versions; the report points at its current version
+export interface ReportVersion {
+  id: string;
+  versionNumber: number;
+  source: ReportSource;
+  pdfPath: string | null;
+  sourceFileName: string | null;
+  uploadedBy: string;
+  uploadedByName: string;
+  createdAt: any;
+  // Saved when a newer version replaces this one; the current version's data is in reportData
+  data: ReportData | null;
+  // The reviewer edits made to this version, moved here with its data
+  edits?: ReportEdit[];
+  supersededAt: any;
+}
@@ -0,0 +1,19 @@
+// Who can see a report, stored on the report as `sharingScope`
+
+// private: the library only; libraries: the libraries in `sharedLibraryIds`;
+// system: every NCLS member; public: every member, plus anyone with an active public link
+export type SharingScope = 'private' | 'libraries' | 'system' | 'public';
+
+// A revocable read-only link to a report, stored in `publicLinks` under its token
+export interface PublicLink {
+  id: string;
+  reportId: string;
+  libraryId: string;
+  createdBy: string;
+  createdByName: string;
+  createdAt: any;
+  // null for a link that never expires
+  expiresAt: any;
+  revokedAt: any;
+  revokedBy: string | null;
+}
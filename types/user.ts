@@ -0,0 +1,24 @@
+// Shape of the user profiles stored in the `users` collection
+
+// What each role may do is defined in lib/roles.ts
+export type UserRole = 'director' | 'staff' | 'board' | 'analyst' | 'admin';
+
+// pending: registered and waiting for an admin; rejected: turned down by an admin.
+// Profiles created before approval was introduced have no status and count as approved.
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+export interface UserProfile {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: UserRole;
+  // The user's first library; kept for profiles and rules that predate libraryIds
+  libraryId: string;
+  // Every library the user belongs to, for directors of several branches and NCLS staff
+  libraryIds?: string[];
+  approvalStatus?: ApprovalStatus;
+  // The admin who approved or rejected the account, and when
+  reviewedBy?: string;
+  reviewedAt?: string;
+}
@@ -0,0 +1,15 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname),
+      // The package entry point reads a sample PDF when it is not loaded through require
+      'pdf-parse': 'pdf-parse/lib/pdf-parse.js'
+    }
+  },
+  test: {
+    environment: 'node'
+  }
+});